@@ -1,39 +1,50 @@
 import React, { useState, useEffect } from 'react';
 import { UserRole } from './types';
+import { login, logout } from './services/auth';
 import TechDashboard from './components/TechDashboard';
 import RadDashboard from './components/RadDashboard';
 import MedicalAdminDashboard from './components/MedicalAdminDashboard';
-
-// Generate unique user ID
-const generateUserId = () => `user-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
-
-// Demo users for authentication
-const DEMO_USERS = [
-  { username: 'tech1', password: 'tech123', role: 'TECH', name: 'John Tech' },
-  { username: 'tech2', password: 'tech123', role: 'TECH', name: 'Sarah Tech' },
-  { username: 'rad1', password: 'rad123', role: 'RAD', name: 'Dr. Smith' },
-  { username: 'rad2', password: 'rad123', role: 'RAD', name: 'Dr. Johnson' },
-  { username: 'admin', password: 'admin123', role: 'ADMIN', name: 'Medical Admin' },
-];
+import ObserverDashboard from './components/ObserverDashboard';
 
 // Session storage key
 const SESSION_KEY = 'rology_session';
 
+type Route = 'TECH' | 'RAD' | 'ADMIN' | 'OBSERVER';
+
+// Dashboard route for each account role
+const ROUTE_BY_ROLE: Record<UserRole, Route> = {
+  [UserRole.TECH]: 'TECH',
+  [UserRole.RADIOLOGIST]: 'RAD',
+  [UserRole.MEDICAL_ADMIN]: 'ADMIN',
+  [UserRole.OBSERVER]: 'OBSERVER',
+};
+
+const ROLE_BY_ROUTE: Record<Route, UserRole> = {
+  TECH: UserRole.TECH,
+  RAD: UserRole.RADIOLOGIST,
+  ADMIN: UserRole.MEDICAL_ADMIN,
+  OBSERVER: UserRole.OBSERVER,
+};
+
 interface SessionData {
-  route: 'TECH' | 'RAD' | 'ADMIN';
+  route: Route;
   userId: string;
   userName: string;
+  token: string;
+  expiresAt: number;
 }
 
 const App: React.FC = () => {
-  const [route, setRoute] = useState<'LANDING' | 'TECH' | 'RAD' | 'ADMIN'>('LANDING');
+  const [route, setRoute] = useState<'LANDING' | Route>('LANDING');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [userName, setUserName] = useState('');
   const [userId, setUserId] = useState('');
+  const [token, setToken] = useState('');
   const [error, setError] = useState('');
-  const [selectedRole, setSelectedRole] = useState<'TECH' | 'RAD' | 'ADMIN' | null>(null);
+  const [selectedRole, setSelectedRole] = useState<Route | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Load session from sessionStorage on mount (per-tab session)
   useEffect(() => {
@@ -41,28 +52,35 @@ const App: React.FC = () => {
       const savedSession = sessionStorage.getItem(SESSION_KEY);
       if (savedSession) {
         const session: SessionData = JSON.parse(savedSession);
-        setRoute(session.route);
-        setUserId(session.userId);
-        setUserName(session.userName);
-      } else {
-        setUserId(generateUserId());
+        // Expired tokens would be rejected by the server anyway
+        if (session.token && session.expiresAt > Date.now()) {
+          setRoute(session.route);
+          setUserId(session.userId);
+          setUserName(session.userName);
+          setToken(session.token);
+        } else {
+          sessionStorage.removeItem(SESSION_KEY);
+        }
       }
     } catch (e) {
       console.error('Failed to load session:', e);
-      setUserId(generateUserId());
     }
     setIsLoading(false);
   }, []);
 
   // Save session to sessionStorage when logged in (per-tab)
-  const saveSession = (route: 'TECH' | 'RAD' | 'ADMIN', userId: string, userName: string) => {
-    const session: SessionData = { route, userId, userName };
+  const saveSession = (session: SessionData) => {
     sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
   };
 
   // Clear session on logout
   const clearSession = () => {
+    if (token) {
+      logout(token).catch(e => console.warn('Logout request failed:', e));
+    }
     sessionStorage.removeItem(SESSION_KEY);
+    setToken('');
+    setUserId('');
     setRoute('LANDING');
     setUserName('');
     setUsername('');
@@ -71,7 +89,7 @@ const App: React.FC = () => {
     setError('');
   };
 
-  const handleLogin = () => {
+  const handleLogin = async () => {
     if (!username.trim() || !password.trim()) {
       setError('Please enter username and password');
       return;
@@ -82,19 +100,27 @@ const App: React.FC = () => {
       return;
     }
 
-    const user = DEMO_USERS.find(
-      u => u.username === username && u.password === password && u.role === selectedRole
-    );
-
-    if (user) {
-      const newUserId = userId || generateUserId();
-      setUserName(user.name);
-      setUserId(newUserId);
-      setRoute(selectedRole);
-      saveSession(selectedRole, newUserId, user.name);
+    setIsSubmitting(true);
+    try {
+      const session = await login(username, password, ROLE_BY_ROUTE[selectedRole]);
+      const userRoute = ROUTE_BY_ROLE[session.user.role];
+      setUserName(session.user.name);
+      setUserId(session.user.id);
+      setToken(session.token);
+      setRoute(userRoute);
+      saveSession({
+        route: userRoute,
+        userId: session.user.id,
+        userName: session.user.name,
+        token: session.token,
+        expiresAt: session.expiresAt,
+      });
+      setPassword('');
       setError('');
-    } else {
-      setError('Invalid credentials or role mismatch');
+    } catch (e: any) {
+      setError(e.message || 'Login failed');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -111,15 +137,19 @@ const App: React.FC = () => {
   }
 
   if (route === 'TECH') {
-    return <TechDashboard userId={userId} userName={userName} onLeave={clearSession} />;
+    return <TechDashboard userId={userId} userName={userName} token={token} onLeave={clearSession} />;
   }
 
   if (route === 'RAD') {
-    return <RadDashboard userId={userId} userName={userName} onLeave={clearSession} />;
+    return <RadDashboard userId={userId} userName={userName} token={token} onLeave={clearSession} />;
   }
 
   if (route === 'ADMIN') {
-    return <MedicalAdminDashboard userId={userId} userName={userName} onLeave={clearSession} />;
+    return <MedicalAdminDashboard userId={userId} userName={userName} token={token} onLeave={clearSession} />;
+  }
+
+  if (route === 'OBSERVER') {
+    return <ObserverDashboard userId={userId} userName={userName} token={token} onLeave={clearSession} />;
   }
 
   return (
@@ -187,7 +217,7 @@ const App: React.FC = () => {
             {/* Role Selection */}
             <div className="pt-4">
               <label className="block text-sm text-gray-400 mb-3">Select Your Role</label>
-              <div className="grid grid-cols-3 gap-2">
+              <div className="grid grid-cols-4 gap-2">
                 <button
                   type="button"
                   onClick={() => setSelectedRole('TECH')}
@@ -226,15 +256,29 @@ const App: React.FC = () => {
                   <svg className="w-5 h-5 mx-auto mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>
                   <div className="text-xs">Admin</div>
                 </button>
+
+                <button
+                  type="button"
+                  onClick={() => setSelectedRole('OBSERVER')}
+                  className={`p-3 rounded border transition-all text-center ${
+                    selectedRole === 'OBSERVER'
+                      ? 'bg-rology-500/20 border-rology-500 text-rology-400'
+                      : 'bg-rology-850 border-rology-700 text-gray-400 hover:border-rology-600'
+                  }`}
+                >
+                  <svg className="w-5 h-5 mx-auto mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
+                  <div className="text-xs">Observer</div>
+                </button>
               </div>
             </div>
 
             {/* Login Button */}
             <button
               onClick={handleLogin}
-              className="w-full mt-4 px-6 py-3 bg-rology-500 hover:bg-rology-400 text-white font-semibold rounded transition-colors"
+              disabled={isSubmitting}
+              className="w-full mt-4 px-6 py-3 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white font-semibold rounded transition-colors"
             >
-              LOGIN
+              {isSubmitting ? 'SIGNING IN...' : 'LOGIN'}
             </button>
           </div>
         </div>
@@ -265,12 +309,6 @@ const App: React.FC = () => {
           <p>Rology, Inc. © 2020-2024</p>
           <p className="mt-1">v develop</p>
         </div>
-
-        {/* Demo Credentials */}
-        <div className="mt-4 p-3 bg-rology-850 rounded border border-rology-700 text-xs">
-          <p className="text-gray-500 mb-1">Demo Credentials:</p>
-          <p className="text-gray-500"><span className="text-rology-400">Tech:</span> tech1 / tech123 | <span className="text-rology-400">Rad:</span> rad1 / rad123 | <span className="text-rology-400">Admin:</span> admin / admin123</p>
-        </div>
       </div>
     </div>
   );
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Annotation, AnnotationShape } from '../types';
+import { Point, ellipseOutline } from '../utils/measurements';
+
+interface AnnotationLayerProps {
+  // Annotations of the surface on screen
+  annotations: Annotation[];
+  // Surface point (image pixel or video fraction) to element pixel
+  toScreen: (point: Point) => Point;
+  // Shape being drawn, with its color; omit to only show the annotations
+  tool?: AnnotationShape | null;
+  color?: string;
+  // Client (viewport) pixel to surface point
+  fromClient?: (clientX: number, clientY: number) => Point;
+  onDraw?: (shape: AnnotationShape, points: Point[], text?: string) => void;
+}
+
+// Screen pixels a freehand stroke moves before it gets another point
+const FREEHAND_STEP = 3;
+const ARROW_HEAD = 10;
+
+const toPath = (points: Point[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+// Corners of the box between two surface points, so that rotated images keep the box on the image
+const boxCorners = ([a, b]: Point[]) => [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+
+const Shape: React.FC<{ shape: AnnotationShape; points: Point[]; text?: string; color: string; toScreen: (point: Point) => Point }> = ({ shape, points, text, color, toScreen }) => {
+  const screen = points.map(toScreen);
+  switch (shape) {
+    case 'arrow': {
+      const [tail, head] = screen;
+      const angle = Math.atan2(head.y - tail.y, head.x - tail.x);
+      const barb = (side: number) => ({
+        x: head.x - ARROW_HEAD * Math.cos(angle + side * Math.PI / 7),
+        y: head.y - ARROW_HEAD * Math.sin(angle + side * Math.PI / 7),
+      });
+      return (
+        <g stroke={color} strokeWidth={2} fill={color}>
+          <line x1={tail.x} y1={tail.y} x2={head.x} y2={head.y} />
+          <polygon points={toPath([head, barb(1), barb(-1)])} />
+        </g>
+      );
+    }
+    case 'text':
+      return (
+        <text x={screen[0].x} y={screen[0].y} fill={color} fontSize={13} fontWeight="bold" stroke="black" strokeWidth={3} paintOrder="stroke">
+          {text}
+        </text>
+      );
+    case 'freehand':
+      return <polyline points={toPath(screen)} fill="none" stroke={color} strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" />;
+    case 'rectangle':
+      return <polygon points={toPath(boxCorners(points).map(toScreen))} fill={`${color}1a`} stroke={color} strokeWidth={2} />;
+    case 'ellipse':
+      return <polygon points={toPath(ellipseOutline(points[0], points[1]).map(toScreen))} fill={`${color}1a`} stroke={color} strokeWidth={2} />;
+  }
+};
+
+/**
+ * Vector annotations drawn over the study viewer or the live video. Points are
+ * kept in the surface's own coordinates, so annotations stay on the anatomy
+ * whatever the zoom, pan or size of each viewer. With a tool selected, the
+ * layer takes the pointer: drag for arrows, boxes, ellipses and strokes, click
+ * to place a text label.
+ */
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ annotations, toScreen, tool, color = '#f87171', fromClient, onDraw }) => {
+  const [draft, setDraft] = useState<Point[] | null>(null);
+  const drawing = Boolean(tool && fromClient && onDraw);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drawing || e.button !== 0) return;
+    e.stopPropagation();
+    const point = fromClient(e.clientX, e.clientY);
+    if (tool === 'text') {
+      const text = prompt('Label')?.trim();
+      if (text) onDraw('text', [point], text);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft([point, point]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = fromClient(e.clientX, e.clientY);
+    if (tool === 'freehand') {
+      const last = toScreen(draft[draft.length - 1]);
+      const next = toScreen(point);
+      if (Math.hypot(next.x - last.x, next.y - last.y) >= FREEHAND_STEP) setDraft([...draft, point]);
+    } else {
+      setDraft([draft[0], point]);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    setDraft(null);
+    const [start, end] = [toScreen(draft[0]), toScreen(draft[draft.length - 1])];
+    // A click without a drag draws nothing
+    if (Math.hypot(end.x - start.x, end.y - start.y) < FREEHAND_STEP) return;
+    onDraw(tool, tool === 'freehand' ? draft : [draft[0], draft[draft.length - 1]]);
+  };
+
+  return (
+    <svg
+      className={`absolute inset-0 w-full h-full ${drawing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDraft(null)}
+    >
+      {annotations.map(a => (
+        <Shape key={a.id} shape={a.shape} points={a.points} text={a.text} color={a.color} toScreen={toScreen} />
+      ))}
+      {draft && <Shape shape={tool} points={draft} color={color} toScreen={toScreen} />}
+    </svg>
+  );
+};
+
+export default AnnotationLayer;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AnnotationShape } from '../types';
+import { AnnotationControls } from '../hooks/useAnnotations';
+import { getAnnotationAuthors } from '../utils/annotations';
+
+interface AnnotationToolsProps {
+  // Shape being drawn, null while another tool is selected
+  tool: AnnotationShape | null;
+  onToolChange: (tool: AnnotationShape | null) => void;
+  controls: AnnotationControls;
+}
+
+const TOOLS: { tool: AnnotationShape; label: string; title: string }[] = [
+  { tool: 'arrow', label: '↗', title: 'Arrow: drag from the tail to the head' },
+  { tool: 'text', label: 'T', title: 'Text: click where the label goes' },
+  { tool: 'freehand', label: '✎', title: 'Freehand: draw' },
+  { tool: 'rectangle', label: '▭', title: 'Rectangle ROI: drag across it' },
+  { tool: 'ellipse', label: '◯', title: 'Ellipse ROI: drag across it' },
+];
+
+const buttonClass = (active: boolean) =>
+  `px-1.5 py-0.5 rounded transition-colors disabled:opacity-40 ${active ? 'bg-rology-500 text-white' : 'bg-rology-800 hover:bg-rology-700 text-gray-300'}`;
+
+/**
+ * Annotation tools, undo/redo of the user's own changes, and clearing
+ * everything one author drew. Selecting the active tool again puts it down.
+ */
+const AnnotationTools: React.FC<AnnotationToolsProps> = ({ tool, onToolChange, controls }) => (
+  <div className="bg-black/70 rounded px-2 py-1 text-[10px] flex items-center gap-1">
+    {TOOLS.map(t => (
+      <button key={t.tool} title={t.title} onClick={() => onToolChange(tool === t.tool ? null : t.tool)} className={buttonClass(tool === t.tool)}>{t.label}</button>
+    ))}
+    <span className="w-px h-4 bg-rology-700 mx-0.5" />
+    <button title="Undo" onClick={controls.undo} disabled={!controls.canUndo} className={buttonClass(false)}>↶</button>
+    <button title="Redo" onClick={controls.redo} disabled={!controls.canRedo} className={buttonClass(false)}>↷</button>
+    <select title="Clear an author's annotations" value=""
+      onChange={(e) => e.target.value && controls.clearAuthor(e.target.value)}
+      disabled={controls.annotations.length === 0}
+      className="bg-rology-800 border border-rology-700 rounded text-white px-1 py-0.5 focus:outline-none disabled:opacity-40">
+      <option value="">Clear…</option>
+      {getAnnotationAuthors(controls.annotations).map(author => (
+        <option key={author.id} value={author.id} style={{ color: author.color }}>{author.name}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default AnnotationTools;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { CineState } from '../types';
+
+interface CineControlsProps {
+  frame: number;
+  frameCount: number;
+  cine: CineState;
+  speeds: number[];
+  // Omit for viewers that follow the room's playback
+  onStep?: (frame: number) => void;
+  onChange?: (cine: CineState) => void;
+}
+
+const buttonClass = 'w-6 h-5 flex items-center justify-center rounded bg-rology-800 hover:bg-rology-700 text-white transition-colors';
+
+/**
+ * Play/pause, frame stepping, speed and loop for a multi-frame series.
+ * Everyone in the room watches the same playback.
+ */
+const CineControls: React.FC<CineControlsProps> = ({ frame, frameCount, cine, speeds, onStep, onChange }) => {
+  if (!onChange || !onStep) {
+    return (
+      <div className="bg-black/70 rounded px-2 py-1 text-[10px] text-cyan-400">
+        {cine.playing ? `▶ PLAYING ${cine.speed}x` : '❚❚ PAUSED'}{cine.loop && ' · LOOP'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-black/70 rounded px-2 py-1 text-[10px] flex items-center gap-1">
+      <button title="Previous frame" onClick={() => onStep(frame - 1)} disabled={frame === 0} className={buttonClass}>|◀</button>
+      <button title={cine.playing ? 'Pause' : 'Play'} onClick={() => onChange({ ...cine, playing: !cine.playing })}
+        className={`${buttonClass} ${cine.playing ? 'bg-rology-500 hover:bg-rology-400' : ''}`}>
+        {cine.playing ? '❚❚' : '▶'}
+      </button>
+      <button title="Next frame" onClick={() => onStep(frame + 1)} disabled={frame === frameCount - 1} className={buttonClass}>▶|</button>
+      <select title="Playback speed" value={cine.speed} onChange={(e) => onChange({ ...cine, speed: Number(e.target.value) })}
+        className="bg-rology-800 border border-rology-700 rounded text-white px-1 py-0.5 focus:outline-none">
+        {speeds.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+      </select>
+      <label className="flex items-center gap-1 text-gray-300 cursor-pointer">
+        <input type="checkbox" checked={cine.loop} onChange={(e) => onChange({ ...cine, loop: e.target.checked })} />
+        Loop
+      </label>
+    </div>
+  );
+};
+
+export default CineControls;
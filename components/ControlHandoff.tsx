@@ -0,0 +1,52 @@
+import React from 'react';
+import { ScannerControl } from '../types';
+
+interface ControlHandoffProps {
+  control: ScannerControl | null;
+  userId: string;
+  // Omit for users who only watch
+  onRequest?: () => void;
+  onRespond?: (userId: string, grant: boolean) => void;
+  // Omit for the technician, who keeps control until handing it over
+  onRelease?: () => void;
+  requestLabel?: string;
+}
+
+const buttonClass = 'px-2 py-0.5 rounded text-[10px] transition-colors';
+
+/**
+ * Who holds the study controls, and the request/grant handshake that hands
+ * them over. The holder answers requests oldest first.
+ */
+const ControlHandoff: React.FC<ControlHandoffProps> = ({ control, userId, onRequest, onRespond, onRelease, requestLabel = 'Request control' }) => {
+  if (!control) return null;
+  const hasControl = control.holderId === userId;
+  const nextRequest = control.requests[0];
+  const hasRequested = control.requests.some(r => r.userId === userId);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className={hasControl ? 'text-green-400' : 'text-gray-400'}>
+        Control: <span className="text-white">{hasControl ? 'You' : control.holderName}</span>
+      </span>
+      {hasControl && nextRequest && onRespond && (
+        <span className="flex items-center gap-1 px-2 py-0.5 bg-yellow-500/20 border border-yellow-500/40 rounded text-yellow-400">
+          {nextRequest.userName} asks for control{control.requests.length > 1 && ` (+${control.requests.length - 1})`}
+          <button onClick={() => onRespond(nextRequest.userId, true)} className={`${buttonClass} bg-green-600 hover:bg-green-500 text-white`}>Grant</button>
+          <button onClick={() => onRespond(nextRequest.userId, false)} className={`${buttonClass} bg-rology-700 hover:bg-rology-600 text-gray-300`}>Deny</button>
+        </span>
+      )}
+      {hasControl && onRelease && (
+        <button onClick={onRelease} className={`${buttonClass} bg-rology-800 hover:bg-rology-700 text-gray-300`}>Release</button>
+      )}
+      {!hasControl && onRequest && (
+        <button onClick={onRequest} disabled={hasRequested}
+          className={`${buttonClass} bg-rology-500 hover:bg-rology-400 disabled:bg-rology-800 disabled:text-gray-500 text-white`}>
+          {hasRequested ? 'Control requested' : requestLabel}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ControlHandoff;
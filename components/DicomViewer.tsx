@@ -2,6 +2,20 @@ import React, { useEffect, useRef, useState } from 'react';
 import * as cornerstone from 'cornerstone-core';
 import * as cornerstoneWADOImageLoader from 'cornerstone-wado-image-loader';
 import * as dicomParser from 'dicom-parser';
+import { fetchInstanceMetadata, getWadoRsInstanceUrl, isArchivedImage } from '../services/studies';
+import { Annotation, AnnotationShape, CineState, Measurement, MeasurementKind, StudyViewport } from '../types';
+import { DEFAULT_VIEWPORT, ViewportTool, VoiPreset, dragPan, dragWindow, dragZoom, getVoiPresets, toCornerstoneViewport } from '../utils/viewport';
+import { Calibration, MEASUREMENT_LABELS, MEASUREMENT_POINTS, MeasurementDraft, Point, measure, readCalibrationFromDataSet, readCalibrationFromJson } from '../utils/measurements';
+import CineControls from './CineControls';
+import ViewportTools from './ViewportTools';
+import MeasurementTools from './MeasurementTools';
+import MeasurementOverlay from './MeasurementOverlay';
+import AnnotationTools from './AnnotationTools';
+import AnnotationLayer from './AnnotationLayer';
+import { AnnotationControls } from '../hooks/useAnnotations';
+import { AnnotationDraft, getAuthorColor } from '../utils/annotations';
+import { TelestrationInput, TelestrationMark } from '../utils/telestration';
+import TelestrationLayer from './TelestrationLayer';
 
 // Configure cornerstone WADO image loader
 cornerstoneWADOImageLoader.external.cornerstone = cornerstone;
@@ -19,29 +33,182 @@ cornerstoneWADOImageLoader.webWorkerManager.initialize({
     }
 });
 
+// Session token of the signed-in user; uploaded studies are only served to room members
+let authToken: string | undefined;
+
+cornerstoneWADOImageLoader.configure({
+    beforeSend: (xhr: XMLHttpRequest, imageId: string) => {
+        if (authToken && isArchivedImage(imageId)) xhr.setRequestHeader('Authorization', `Bearer ${authToken}`);
+    }
+});
+
+// WADO-RS frames carry no header, so their instance's metadata is registered before loading
+export const loadImage = async (imageId: string) => {
+    const instanceUrl = getWadoRsInstanceUrl(imageId);
+    if (instanceUrl) {
+        const metadata = await fetchInstanceMetadata(instanceUrl, authToken);
+        cornerstoneWADOImageLoader.wadors.metaDataManager.add(imageId, metadata);
+    }
+    return cornerstone.loadImage(imageId);
+};
+
+// Frame rate of stacks and clips that do not carry their own timing
+const DEFAULT_FRAME_RATE = 15;
+export const CINE_SPEEDS = [0.25, 0.5, 1, 2, 4];
+export const DEFAULT_CINE: CineState = { playing: false, speed: 1, loop: true };
+
+// All values of an attribute of a loaded image: from its parsed dataset (wadouri) or its DICOM JSON metadata (wadors)
+const getAttribute = (image: any, imageId: string, tag: string): string[] => {
+    if (image.data) {
+        const value: string | undefined = image.data.string(`x${tag.toLowerCase()}`);
+        return value ? value.split('\\') : [];
+    }
+    const values = cornerstoneWADOImageLoader.wadors.metaDataManager.get(imageId)?.[tag]?.Value;
+    return values ? values.map(String) : [];
+};
+
+// Milliseconds between frames at normal speed: FrameTime, else CineRate or RecommendedDisplayFrameRate
+export const getFrameTime = (image: any, imageId: string): number => {
+    const [frameTime] = getAttribute(image, imageId, '00181063').map(Number);
+    const [frameRate] = [...getAttribute(image, imageId, '00180040'), ...getAttribute(image, imageId, '00082144')].map(Number);
+    if (frameTime > 0) return frameTime;
+    if (frameRate > 0) return 1000 / frameRate;
+    return 1000 / DEFAULT_FRAME_RATE;
+};
+
+// Window presets of an image: WindowCenter, WindowWidth and WindowCenterWidthExplanation
+const getImagePresets = (image: any, imageId: string): VoiPreset[] => getVoiPresets(
+    image,
+    getAttribute(image, imageId, '00281050').map(Number),
+    getAttribute(image, imageId, '00281051').map(Number),
+    getAttribute(image, imageId, '00281055'),
+);
+
+// PixelSpacing and ultrasound regions of a loaded image
+const getCalibration = (image: any, imageId: string): Calibration => image.data
+    ? readCalibrationFromDataSet(image.data)
+    : readCalibrationFromJson(cornerstoneWADOImageLoader.wadors.metaDataManager.get(imageId));
+
+// Image pixels a traced outline moves before it gets another point
+const TRACE_STEP = 2;
+
+// "W 400 L 40" readout of a displayed window
+const describeWindow = (voi: StudyViewport['voi']) =>
+    voi && Number.isFinite(voi.windowWidth) ? `W ${Math.round(voi.windowWidth)} L ${Math.round(voi.windowCenter)}` : '';
+
+// Shared viewport updates while dragging are sent at most this often
+const DRAG_SYNC_INTERVAL_MS = 50;
+
 interface DicomViewerProps {
-    urls: string[];
+    // One per frame, see getImageIds in services/studies.ts
+    imageIds: string[];
+    token?: string;
     className?: string;
     onLoad?: () => void;
-    gain?: number;
-    depth?: number;
     frame: number;
-    onFrameChange: (frame: number) => void;
+    // Shared cine playback; while playing, `frame` is where playback started
+    cine?: CineState;
+    // Shared window/level, zoom, pan and orientation
+    viewport?: StudyViewport;
+    // Omit these for a read-only viewer that only follows `frame`, `cine` and `viewport`
+    onFrameChange?: (frame: number) => void;
+    // New playback state and the frame it starts or stops at
+    onCineChange?: (cine: CineState, frame: number) => void;
+    onViewportChange?: (viewport: StudyViewport) => void;
+    // Measurements of the series on screen; the viewer shows those of the frame on screen
+    measurements?: Measurement[];
+    // Omit these for a viewer that cannot measure
+    onMeasure?: (measurement: MeasurementDraft) => void;
+    onMeasurementChange?: (measurement: Measurement) => void;
+    onMeasurementRemove?: (measurement: Measurement) => void;
+    // Annotations of the series on screen; the viewer shows those of the frame on screen
+    annotations?: Annotation[];
+    // Omit these for a viewer that cannot annotate; `userId` picks the color of the user's drawings
+    onAnnotate?: (annotation: AnnotationDraft) => void;
+    annotationControls?: AnnotationControls;
+    userId?: string;
+    // Laser marks of the series on screen, fading from `telestrationNow`; the viewer shows those of the frame on screen
+    telestrationMarks?: TelestrationMark[];
+    telestrationNow?: number;
+    // Set while the user points with the laser, which then takes the pointer
+    onTelestrate?: (input: TelestrationInput, frame: number) => void;
 }
 
 const DicomViewer: React.FC<DicomViewerProps> = ({
-    urls = [],
+    imageIds = [],
+    token,
     className = '',
     onLoad,
-    gain = 50,
-    depth = 15,
     frame = 0,
-    onFrameChange
+    cine = DEFAULT_CINE,
+    viewport = DEFAULT_VIEWPORT,
+    onFrameChange,
+    onCineChange,
+    onViewportChange,
+    measurements = [],
+    onMeasure,
+    onMeasurementChange,
+    onMeasurementRemove,
+    annotations = [],
+    onAnnotate,
+    annotationControls,
+    userId = '',
+    telestrationMarks = [],
+    telestrationNow = 0,
+    onTelestrate
 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const [isLoaded, setIsLoaded] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [imageInfo, setImageInfo] = useState<string>('');
+    // Series last fitted to the window; a newly selected series is fitted again once laid out
+    const displayedIdsRef = useRef<string[] | null>(null);
+    // Latest image requested; slower loads of earlier frames are not displayed
+    const requestedIdRef = useRef<string | null>(null);
+    // Frame shown during playback, advanced locally from `frame` so playback needs no messages
+    const [cineFrame, setCineFrame] = useState(frame);
+    const frameTimeRef = useRef(1000 / DEFAULT_FRAME_RATE);
+    const lastFrame = imageIds.length - 1;
+    const shownFrame = Math.min(cine.playing ? cineFrame : frame, Math.max(lastFrame, 0));
+    // Viewport on screen: the shared one, or the one being dragged until it is shared
+    const viewportRef = useRef(viewport);
+    const dragRef = useRef<{ x: number; y: number; start: StudyViewport; voi: StudyViewport['voi']; scale: number; sentAt: number } | null>(null);
+    const [tool, setTool] = useState<ViewportTool>('window');
+    const [voiPresets, setVoiPresets] = useState<VoiPreset[]>([]);
+    const [windowInfo, setWindowInfo] = useState('');
+    // Measurement tool in use instead of the viewport tool, and the label of its next measurement
+    const [measureKind, setMeasureKind] = useState<MeasurementKind | null>(null);
+    const [measureLabel, setMeasureLabel] = useState('');
+    const [draft, setDraft] = useState<{ kind: MeasurementKind; points: Point[] } | null>(null);
+    const [measureError, setMeasureError] = useState<string | null>(null);
+    const calibrationRef = useRef<Calibration>({ regions: [] });
+    // Bumped on every render of the image, so the measurements follow the viewport
+    const [, setRenderCount] = useState(0);
+    const frameMeasurements = measurements.filter(m => m.frame === shownFrame);
+    // Annotation shape being drawn instead of using the viewport or measurement tools
+    const [annotateShape, setAnnotateShape] = useState<AnnotationShape | null>(null);
+    const frameAnnotations = annotations.filter(a => a.frame === shownFrame);
+    const frameMarks = telestrationMarks.filter(m => m.surface.frame === shownFrame);
+
+    useEffect(() => {
+        authToken = token;
+    }, [token]);
+
+    // Show the displayed image with the viewport on screen, fitted to the element's current size
+    const applyViewport = () => {
+        const element = containerRef.current;
+        if (!element) return;
+
+        try {
+            const image = cornerstone.getImage(element);
+            if (!image) return;
+            const displayed = toCornerstoneViewport(element, image, viewportRef.current);
+            cornerstone.setViewport(element, displayed);
+            setWindowInfo(describeWindow(displayed.voi));
+        } catch (e) {
+            // Not ready yet
+        }
+    };
 
     // Fit image to window
     const fitToWindow = () => {
@@ -49,20 +216,8 @@ const DicomViewer: React.FC<DicomViewerProps> = ({
         if (!element) return;
 
         try {
-            cornerstone.resize(element, true);
-            const viewport = cornerstone.getViewport(element);
-            if (viewport) {
-                // Get element dimensions
-                const rect = element.getBoundingClientRect();
-                const image = cornerstone.getImage(element);
-                if (image && rect.width > 0 && rect.height > 0) {
-                    // Calculate scale to fit
-                    const scaleX = rect.width / image.width;
-                    const scaleY = rect.height / image.height;
-                    viewport.scale = Math.min(scaleX, scaleY) * 0.95; // 95% to leave some margin
-                    cornerstone.setViewport(element, viewport);
-                }
-            }
+            cornerstone.resize(element);
+            applyViewport();
         } catch (e) {
             // Not ready yet
         }
@@ -70,47 +225,39 @@ const DicomViewer: React.FC<DicomViewerProps> = ({
 
     useEffect(() => {
         const element = containerRef.current;
-        if (!element || urls.length === 0) return;
+        if (!element || imageIds.length === 0) return;
 
         // Enable the element for cornerstone
         cornerstone.enable(element);
 
         // Load and display the DICOM image
-        const currentUrl = urls[Math.min(frame, urls.length - 1)];
-        const imageId = `wadouri:${window.location.origin}${currentUrl}`;
+        const imageId = imageIds[shownFrame];
+        const isNewSeries = displayedIdsRef.current !== imageIds;
+        requestedIdRef.current = imageId;
 
-        cornerstone.loadImage(imageId)
+        loadImage(imageId)
             .then((image: any) => {
-                // Get default viewport or keep existing
-                let viewport;
-                try {
-                     viewport = cornerstone.getViewport(element);
-                } catch(e) {}
-                
-                if (!viewport) {
-                     viewport = cornerstone.getDefaultViewportForImage(element, image);
-                }
-
-                // Apply gain/contrast adjustment (window width/center)
-                // We preserve other viewport properties (zoom/pan) when changing frames if possible
-                if (viewport) {
-                    viewport.voi = {
-                        windowWidth: 400 - (gain - 50) * 4,
-                        windowCenter: 40 + (gain - 50) * 2
-                    };
-                }
+                if (requestedIdRef.current !== imageId) return;
+                frameTimeRef.current = getFrameTime(image, imageId);
+                calibrationRef.current = getCalibration(image, imageId);
 
-                // Display the image
-                cornerstone.displayImage(element, image, viewport);
+                // Display the image with the shared viewport; frames of a series keep it
+                const displayed = toCornerstoneViewport(element, image, viewportRef.current);
+                cornerstone.displayImage(element, image, displayed);
+                setWindowInfo(describeWindow(displayed.voi));
+                const presets = getImagePresets(image, imageId);
+                setVoiPresets(current => JSON.stringify(current) === JSON.stringify(presets) ? current : presets);
 
                 setIsLoaded(true);
-                setImageInfo(`${image.width}x${image.height} | Frame ${frame + 1}/${urls.length}`);
+                setError(null);
+                setImageInfo(`${image.width}x${image.height} | Frame ${shownFrame + 1}/${imageIds.length}`);
 
-                // Fit to window only on first load
-                if (!isLoaded) {
+                // Fit to window on first load and whenever another series is shown
+                if (isNewSeries) {
+                     displayedIdsRef.current = imageIds;
                      setTimeout(fitToWindow, 100);
-                     onLoad?.();
                 }
+                if (!isLoaded) onLoad?.();
             })
             .catch((err: Error) => {
                 console.error('Error loading DICOM:', err);
@@ -126,51 +273,219 @@ const DicomViewer: React.FC<DicomViewerProps> = ({
             window.removeEventListener('resize', handleResize);
             // Don't disable here to avoid flickering between frame updates
         };
-    }, [frame, urls, gain]); // Re-run when frame changes
+    }, [shownFrame, imageIds]); // Re-run when frame or series changes
 
-    // Update viewport when gain changes (redundant due to dependency above but good for explicit updates)
+    // Redraw the measurements whenever cornerstone redraws the image
     useEffect(() => {
         const element = containerRef.current;
-        if (!element || !isLoaded) return;
-        try {
-            const viewport = cornerstone.getViewport(element);
-            if (viewport) {
-                viewport.voi = {
-                    windowWidth: 400 - (gain - 50) * 4,
-                    windowCenter: 40 + (gain - 50) * 2
-                };
-                cornerstone.setViewport(element, viewport);
+        if (!element) return;
+        const handleRendered = () => setRenderCount(count => count + 1);
+        element.addEventListener(cornerstone.EVENTS.IMAGE_RENDERED, handleRendered);
+        return () => element.removeEventListener(cornerstone.EVENTS.IMAGE_RENDERED, handleRendered);
+    }, []);
+
+    // A measurement being drawn is dropped when the frame or series changes
+    useEffect(() => {
+        setDraft(null);
+    }, [shownFrame, imageIds]);
+
+    // Follow the shared viewport; while dragging, the local one wins
+    useEffect(() => {
+        if (dragRef.current) return;
+        viewportRef.current = viewport;
+        if (isLoaded) applyViewport();
+    }, [viewport, isLoaded]);
+
+    // Playback starts again from `frame` whenever it is started, moved or the series changes
+    useEffect(() => {
+        setCineFrame(frame);
+    }, [frame, cine.playing, imageIds]);
+
+    // Advance one frame per frame time; at the end, loop or stop on the last frame
+    useEffect(() => {
+        if (!cine.playing || lastFrame < 1) return;
+        const timer = setTimeout(() => {
+            if (cineFrame < lastFrame) {
+                setCineFrame(cineFrame + 1);
+            } else if (cine.loop) {
+                setCineFrame(0);
+            } else {
+                onCineChange?.({ ...cine, playing: false }, lastFrame);
             }
-        } catch (e) {}
-    }, [gain, isLoaded]);
+        }, frameTimeRef.current / cine.speed);
+        return () => clearTimeout(timer);
+    }, [cine, cineFrame, lastFrame]);
+
+    // Show another frame; stepping pauses playback
+    const showFrame = (next: number) => {
+        const target = Math.min(Math.max(next, 0), lastFrame);
+        if (cine.playing) {
+            onCineChange?.({ ...cine, playing: false }, target);
+        } else if (target !== frame) {
+            onFrameChange?.(target);
+        }
+    };
 
     // Handle mouse wheel for scrolling frames
     const handleWheel = (e: React.WheelEvent) => {
         const element = containerRef.current;
-        if (!element || !isLoaded) return;
+        if (!element || !isLoaded || !onFrameChange) return;
 
         e.preventDefault();
-        
-        // Scroll Logic
-        if (urls.length > 1) {
-            const direction = e.deltaY > 0 ? 1 : -1;
-            let newFrame = frame + direction;
-            if (newFrame < 0) newFrame = 0;
-            if (newFrame >= urls.length) newFrame = urls.length - 1;
-            
-            if (newFrame !== frame) {
-                onFrameChange(newFrame);
+        if (imageIds.length > 1) showFrame(shownFrame + (e.deltaY > 0 ? 1 : -1));
+    };
+
+    // Image pixel under the pointer, and image pixel to element pixel
+    const toImage = (e: React.PointerEvent): Point => cornerstone.pageToPixel(containerRef.current, e.pageX, e.pageY);
+    const toCanvas = (point: Point): Point => {
+        try {
+            return cornerstone.pixelToCanvas(containerRef.current, point);
+        } catch (e) {
+            // Not ready yet
+            return point;
+        }
+    };
+
+    // Select a measurement tool, offering its usual first label
+    const selectMeasureKind = (kind: MeasurementKind) => {
+        setMeasureKind(kind);
+        setAnnotateShape(null);
+        setMeasureLabel(MEASUREMENT_LABELS[kind][0]);
+        setDraft(null);
+        setMeasureError(null);
+    };
+
+    const selectViewportTool = (next: ViewportTool) => {
+        setTool(next);
+        setMeasureKind(null);
+        setAnnotateShape(null);
+        setDraft(null);
+    };
+
+    // Annotations are drawn on a still frame; putting the shape down gives the viewport tool back
+    const selectAnnotateShape = (shape: AnnotationShape | null) => {
+        setAnnotateShape(shape);
+        setMeasureKind(null);
+        setDraft(null);
+        if (shape && cine.playing) onCineChange?.({ ...cine, playing: false }, shownFrame);
+    };
+
+    const fromClient = (clientX: number, clientY: number): Point =>
+        cornerstone.pageToPixel(containerRef.current, clientX + window.scrollX, clientY + window.scrollY);
+
+    // Measure the drawn points on the frame on screen, with the calibration of its image
+    const completeMeasurement = (kind: MeasurementKind, points: Point[]) => {
+        setDraft(null);
+        const values = measure(kind, points, calibrationRef.current);
+        if (!values) {
+            setMeasureError('Velocities can only be measured inside a spectral Doppler region');
+            return;
+        }
+        setMeasureError(null);
+        onMeasure?.({ kind, label: measureLabel.trim() || MEASUREMENT_LABELS[kind][0], frame: shownFrame, points, values });
+    };
+
+    // Lengths and ellipses are dragged, traces drawn, angles and velocities clicked point by point
+    const handleMeasureDown = (e: React.PointerEvent) => {
+        const point = toImage(e);
+        // Measurements are taken on a still frame
+        if (cine.playing) onCineChange?.({ ...cine, playing: false }, shownFrame);
+
+        const points = draft && draft.kind === measureKind ? [...draft.points.slice(0, -1), point] : [point];
+        if (points.length >= MEASUREMENT_POINTS[measureKind] && measureKind !== 'trace') {
+            completeMeasurement(measureKind, points);
+            return;
+        }
+        // The last point follows the pointer until it is placed
+        setDraft({ kind: measureKind, points: [...points, point] });
+        containerRef.current.setPointerCapture(e.pointerId);
+    };
+
+    const handleMeasureMove = (e: React.PointerEvent) => {
+        if (!draft) return;
+        const point = toImage(e);
+        const placed = draft.points.slice(0, -1);
+        const last = placed[placed.length - 1];
+        // Traces keep every point the pointer passes; other tools only move their next point
+        if (draft.kind === 'trace' && e.buttons === 1 && Math.hypot(point.x - last.x, point.y - last.y) >= TRACE_STEP) {
+            setDraft({ kind: draft.kind, points: [...placed, point, point] });
+        } else {
+            setDraft({ kind: draft.kind, points: [...placed, point] });
+        }
+    };
+
+    const handleMeasureUp = (e: React.PointerEvent) => {
+        if (!draft) return;
+        const point = toImage(e);
+        const placed = draft.points.slice(0, -1);
+        if (draft.kind === 'trace') {
+            if (placed.length >= MEASUREMENT_POINTS.trace) {
+                completeMeasurement('trace', placed);
+            } else {
+                setDraft(null);
             }
+        } else if ((draft.kind === 'length' || draft.kind === 'ellipse') && Math.hypot(point.x - placed[0].x, point.y - placed[0].y) >= 1) {
+            // Released away from where the drag started
+            completeMeasurement(draft.kind, [placed[0], point]);
         }
     };
 
+    // Drag with the selected tool; the viewport follows the mouse and is shared as it changes
+    const handlePointerDown = (e: React.PointerEvent) => {
+        const element = containerRef.current;
+        if (!element || !isLoaded || e.button !== 0) return;
+        if (measureKind && onMeasure) return handleMeasureDown(e);
+        if (!onViewportChange) return;
+
+        const displayed = cornerstone.getViewport(element);
+        // Images without a window of their own start from their full range
+        const voi = Number.isFinite(displayed.voi?.windowWidth) ? displayed.voi : voiPresets[voiPresets.length - 1];
+        dragRef.current = { x: e.clientX, y: e.clientY, start: viewportRef.current, voi, scale: displayed.scale, sentAt: 0 };
+        element.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (measureKind) return handleMeasureMove(e);
+        const drag = dragRef.current;
+        const element = containerRef.current;
+        if (!drag || !element) return;
+
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        const { start } = drag;
+        if (tool === 'window') {
+            viewportRef.current = { ...start, voi: dragWindow(cornerstone.getImage(element), drag.voi, dx, dy) };
+        } else if (tool === 'pan') {
+            viewportRef.current = { ...start, translation: dragPan(start.translation, drag.scale, dx, dy) };
+        } else {
+            viewportRef.current = { ...start, zoom: dragZoom(start.zoom, dy) };
+        }
+        applyViewport();
+
+        if (Date.now() - drag.sentAt >= DRAG_SYNC_INTERVAL_MS) {
+            drag.sentAt = Date.now();
+            onViewportChange?.(viewportRef.current);
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (measureKind) return handleMeasureUp(e);
+        if (!dragRef.current) return;
+        dragRef.current = null;
+        onViewportChange?.(viewportRef.current);
+    };
+
     // Handle double-click to reset
     const handleDoubleClick = () => {
         const element = containerRef.current;
-        if (!element || !isLoaded) return;
+        // Double clicks place measurement points
+        if (!element || !isLoaded || measureKind) return;
 
-        cornerstone.reset(element);
-        fitToWindow();
+        if (onViewportChange) {
+            onViewportChange(DEFAULT_VIEWPORT);
+        } else {
+            fitToWindow();
+        }
     };
 
     return (
@@ -180,8 +495,29 @@ const DicomViewer: React.FC<DicomViewerProps> = ({
                 className="absolute inset-0 bg-black"
                 onWheel={handleWheel}
                 onDoubleClick={handleDoubleClick}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDraft(null)}
             />
 
+            {/* Annotations of the frame on screen; with a shape selected, the layer takes the pointer */}
+            {isLoaded && (frameAnnotations.length > 0 || annotateShape) && (
+                <AnnotationLayer
+                    annotations={frameAnnotations}
+                    toScreen={toCanvas}
+                    tool={annotateShape}
+                    color={getAuthorColor(userId)}
+                    fromClient={fromClient}
+                    onDraw={(shape, points, text) => onAnnotate?.({ shape, layer: 'image', frame: shownFrame, points, text })}
+                />
+            )}
+
+            {/* Measurements of the frame on screen, redrawn with the image */}
+            {isLoaded && (frameMeasurements.length > 0 || draft) && (
+                <MeasurementOverlay measurements={frameMeasurements} draft={draft} toCanvas={toCanvas} />
+            )}
+
             {/* Loading state */}
             {!isLoaded && !error && (
                 <div className="absolute inset-0 flex items-center justify-center bg-black">
@@ -202,10 +538,61 @@ const DicomViewer: React.FC<DicomViewerProps> = ({
                 </div>
             )}
 
+            {/* Laser pointer, over everything but the toolbars */}
+            {isLoaded && (frameMarks.length > 0 || onTelestrate) && (
+                <TelestrationLayer
+                    marks={frameMarks}
+                    now={telestrationNow}
+                    toScreen={toCanvas}
+                    fromClient={fromClient}
+                    onInput={onTelestrate && ((input) => onTelestrate(input, shownFrame))}
+                />
+            )}
+
+            {/* Viewport tools, for viewers that may change the shared view */}
+            {isLoaded && (onViewportChange || onMeasure || onAnnotate) && (
+                <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
+                    {onViewportChange && (
+                        <ViewportTools tool={measureKind || annotateShape ? null : tool} onToolChange={selectViewportTool} viewport={viewport} presets={voiPresets} onChange={onViewportChange} />
+                    )}
+                    {onMeasure && (
+                        <MeasurementTools
+                            kind={measureKind}
+                            onKindChange={selectMeasureKind}
+                            label={measureLabel}
+                            onLabelChange={setMeasureLabel}
+                            measurements={frameMeasurements}
+                            onRelabel={(m, label) => onMeasurementChange?.({ ...m, label })}
+                            onRemove={(m) => onMeasurementRemove?.(m)}
+                        />
+                    )}
+                    {onAnnotate && annotationControls && (
+                        <AnnotationTools tool={annotateShape} onToolChange={selectAnnotateShape} controls={annotationControls} />
+                    )}
+                    {measureError && (
+                        <div className="bg-black/70 rounded px-2 py-1 text-[10px] text-red-400">{measureError}</div>
+                    )}
+                </div>
+            )}
+
+            {/* Cine controls, for series with more than one frame */}
+            {isLoaded && imageIds.length > 1 && (
+                <div className="absolute bottom-2 left-2">
+                    <CineControls
+                        frame={shownFrame}
+                        frameCount={imageIds.length}
+                        cine={cine}
+                        speeds={CINE_SPEEDS}
+                        onStep={onFrameChange && onCineChange ? showFrame : undefined}
+                        onChange={onCineChange && ((next) => onCineChange(next, shownFrame))}
+                    />
+                </div>
+            )}
+
             {/* Info overlay */}
             {isLoaded && (
                 <div className="absolute bottom-2 right-2 text-[10px] text-cyan-400 bg-black/50 px-2 py-1 rounded">
-                    DICOM {imageInfo} | Scroll: Change Frame | Double-click: Reset
+                    DICOM {imageInfo}{windowInfo && ` | ${windowInfo}`}{onFrameChange && ' | Scroll: Change Frame'}{onViewportChange && ' | Double-click: Reset'}
                 </div>
             )}
         </div>
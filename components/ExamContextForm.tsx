@@ -0,0 +1,75 @@
+import React from 'react';
+import { ExamContextInput, PatientSex, PATIENT_SEX_LABELS } from '../types';
+
+interface ExamContextFormProps {
+  value: ExamContextInput;
+  onChange: (value: ExamContextInput) => void;
+}
+
+export const EMPTY_EXAM_CONTEXT: ExamContextInput = { patientId: '', patientName: '' };
+
+// The server refuses a request without these
+export const isExamContextComplete = (context: ExamContextInput) =>
+  Boolean(context.patientId.trim() && context.patientName.trim());
+
+const inputClass = 'w-full px-2 py-1.5 bg-rology-800 border border-rology-700 rounded text-xs text-white focus:outline-none focus:border-rology-500';
+
+/**
+ * Patient and order fields a technician fills in with a session request.
+ * Leave the accession number empty to have the server assign one.
+ */
+const ExamContextForm: React.FC<ExamContextFormProps> = ({ value, onChange }) => {
+  const set = (field: keyof ExamContextInput) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      onChange({ ...value, [field]: e.target.value || undefined });
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Patient ID *</label>
+          <input value={value.patientId} onChange={(e) => onChange({ ...value, patientId: e.target.value })}
+            maxLength={200} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Accession #</label>
+          <input value={value.accessionNumber || ''} onChange={set('accessionNumber')}
+            maxLength={200} placeholder="Auto" className={`${inputClass} font-mono`} />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Patient name *</label>
+        <input value={value.patientName} onChange={(e) => onChange({ ...value, patientName: e.target.value })}
+          maxLength={200} className={inputClass} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Date of birth</label>
+          <input type="date" value={value.dateOfBirth || ''} onChange={set('dateOfBirth')} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Sex</label>
+          <select value={value.sex || ''} onChange={set('sex')} className={inputClass}>
+            <option value="">—</option>
+            {(Object.keys(PATIENT_SEX_LABELS) as PatientSex[]).map(sex => (
+              <option key={sex} value={sex}>{PATIENT_SEX_LABELS[sex]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Clinical indication</label>
+        <textarea value={value.indication || ''} onChange={set('indication')} maxLength={200}
+          placeholder="e.g., Shortness of breath, r/o pericardial effusion"
+          className={`${inputClass} h-12 resize-none`} />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Referring physician</label>
+        <input value={value.referringPhysician || ''} onChange={set('referringPhysician')}
+          maxLength={200} className={inputClass} />
+      </div>
+    </div>
+  );
+};
+
+export default ExamContextForm;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ExamContext, PATIENT_SEX_LABELS } from '../types';
+
+interface ExamContextSummaryProps {
+  context: ExamContext;
+  className?: string;
+}
+
+// "1980-04-02 · Female", or whichever of the two is known
+export const formatPatientDemographics = (context: ExamContext) =>
+  [context.dateOfBirth, context.sex && PATIENT_SEX_LABELS[context.sex]].filter(Boolean).join(' · ');
+
+/**
+ * Who the exam is for and why it was ordered, as shown on invites and in the admin queue.
+ */
+const ExamContextSummary: React.FC<ExamContextSummaryProps> = ({ context, className = '' }) => {
+  const demographics = formatPatientDemographics(context);
+
+  return (
+    <div className={`space-y-0.5 ${className}`}>
+      <div>
+        <span className="text-white">{context.patientName}</span>
+        <span className="text-gray-500 font-mono ml-2">{context.patientId}</span>
+      </div>
+      {demographics && <div className="text-gray-400">{demographics}</div>}
+      {context.procedureDescription && <div className="text-gray-300">{context.procedureDescription}</div>}
+      {context.indication && <div className="text-gray-300 italic">{context.indication}</div>}
+      {context.referringPhysician && <div className="text-gray-400">Ref: {context.referringPhysician}</div>}
+      <div className="text-gray-500 font-mono">Acc: {context.accessionNumber}</div>
+    </div>
+  );
+};
+
+export default ExamContextSummary;
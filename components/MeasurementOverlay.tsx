@@ -0,0 +1,68 @@
+import React from 'react';
+import { Measurement, MeasurementKind } from '../types';
+import { Point, ellipseOutline, formatValue } from '../utils/measurements';
+
+interface MeasurementOverlayProps {
+  // Measurements of the frame on screen
+  measurements: Measurement[];
+  // Measurement being drawn, with the pointer as its next point
+  draft?: { kind: MeasurementKind; points: Point[] } | null;
+  // Image pixel to element pixel, following the viewport
+  toCanvas: (point: Point) => Point;
+}
+
+const STROKE = '#facc15';
+const DRAFT_STROKE = '#22d3ee';
+
+const toPath = (points: Point[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+const Shape: React.FC<{ kind: MeasurementKind; points: Point[]; toCanvas: (point: Point) => Point; color: string }> = ({ kind, points, toCanvas, color }) => {
+  const canvas = points.map(toCanvas);
+  const handles = canvas.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={2.5} fill={color} />);
+  switch (kind) {
+    case 'ellipse':
+      return points.length < 2 ? <>{handles}</> : <polygon points={toPath(ellipseOutline(points[0], points[1]).map(toCanvas))} fill="none" stroke={color} strokeWidth={1.5} />;
+    case 'trace':
+      return <polygon points={toPath(canvas)} fill={`${color}22`} stroke={color} strokeWidth={1.5} />;
+    case 'velocity':
+      return (
+        <g stroke={color} strokeWidth={1.5}>
+          <line x1={canvas[0].x - 8} y1={canvas[0].y} x2={canvas[0].x + 8} y2={canvas[0].y} />
+          <line x1={canvas[0].x} y1={canvas[0].y - 8} x2={canvas[0].x} y2={canvas[0].y + 8} />
+        </g>
+      );
+    default:
+      return (
+        <>
+          <polyline points={toPath(canvas)} fill="none" stroke={color} strokeWidth={1.5} />
+          {handles}
+        </>
+      );
+  }
+};
+
+/**
+ * Calibrated measurements drawn over the study viewer. Points are kept in image
+ * pixels, so every viewer draws them in place whatever its zoom, pan or rotation.
+ */
+const MeasurementOverlay: React.FC<MeasurementOverlayProps> = ({ measurements, draft, toCanvas }) => (
+  <svg className="absolute inset-0 w-full h-full pointer-events-none">
+    {measurements.map(m => {
+      // Angles are labelled at their vertex, everything else at its first point
+      const anchor = toCanvas(m.kind === 'angle' ? m.points[1] : m.points[0]);
+      return (
+        <g key={m.id}>
+          <Shape kind={m.kind} points={m.points} toCanvas={toCanvas} color={STROKE} />
+          <text x={anchor.x + 6} y={anchor.y - 6} fill={STROKE} fontSize={11} stroke="black" strokeWidth={3} paintOrder="stroke">
+            {m.label} {formatValue(m.values[0])}
+          </text>
+        </g>
+      );
+    })}
+    {draft && draft.points.length > 0 && (
+      <Shape kind={draft.kind} points={draft.points} toCanvas={toCanvas} color={DRAFT_STROKE} />
+    )}
+  </svg>
+);
+
+export default MeasurementOverlay;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Measurement, MeasurementKind } from '../types';
+import { MEASUREMENT_LABELS, formatValues } from '../utils/measurements';
+
+interface MeasurementToolsProps {
+  // Tool being used, null while a viewport tool is selected
+  kind: MeasurementKind | null;
+  onKindChange: (kind: MeasurementKind) => void;
+  // Label given to the next measurement
+  label: string;
+  onLabelChange: (label: string) => void;
+  // Measurements of the frame on screen
+  measurements: Measurement[];
+  onRelabel: (measurement: Measurement, label: string) => void;
+  onRemove: (measurement: Measurement) => void;
+}
+
+const TOOLS: { kind: MeasurementKind; label: string; title: string }[] = [
+  { kind: 'length', label: 'Dist', title: 'Drag between two points to measure their distance' },
+  { kind: 'ellipse', label: 'Ellipse', title: 'Drag across an ellipse to measure its area and circumference' },
+  { kind: 'trace', label: 'Trace', title: 'Draw an outline to measure its area and perimeter' },
+  { kind: 'angle', label: 'Angle', title: 'Click an arm end, the vertex, then the other arm end' },
+  { kind: 'velocity', label: 'Vel', title: 'Click a spectral Doppler trace to measure its velocity and gradient' },
+];
+
+const buttonClass = (active: boolean) =>
+  `px-1.5 py-0.5 rounded transition-colors ${active ? 'bg-rology-500 text-white' : 'bg-rology-800 hover:bg-rology-700 text-gray-300'}`;
+
+/**
+ * Calibrated measurement tools of the study viewer, and the measurements of
+ * the frame on screen. Labels are what the measurements are called in the report.
+ */
+const MeasurementTools: React.FC<MeasurementToolsProps> = ({ kind, onKindChange, label, onLabelChange, measurements, onRelabel, onRemove }) => (
+  <div className="bg-black/70 rounded px-2 py-1 text-[10px] space-y-1">
+    <div className="flex items-center gap-1">
+      {TOOLS.map(t => (
+        <button key={t.kind} title={t.title} onClick={() => onKindChange(t.kind)} className={buttonClass(kind === t.kind)}>{t.label}</button>
+      ))}
+      <input
+        list={kind ? `measurement-labels-${kind}` : undefined}
+        value={label}
+        onChange={(e) => onLabelChange(e.target.value)}
+        disabled={!kind}
+        placeholder="Label"
+        className="w-20 bg-rology-800 border border-rology-700 rounded text-white px-1 py-0.5 focus:outline-none disabled:opacity-50"
+      />
+      {kind && (
+        <datalist id={`measurement-labels-${kind}`}>
+          {MEASUREMENT_LABELS[kind].map(l => <option key={l} value={l} />)}
+        </datalist>
+      )}
+    </div>
+    {measurements.map(m => (
+      <div key={m.id} className="flex items-center gap-1 text-yellow-300">
+        <input
+          value={m.label}
+          onChange={(e) => onRelabel(m, e.target.value)}
+          title="Label in the report"
+          className="w-16 bg-transparent border-b border-rology-700 focus:outline-none focus:border-rology-accent"
+        />
+        <span className="flex-1 truncate">{formatValues(m.values)}</span>
+        <button title="Remove" onClick={() => onRemove(m)} className="text-gray-400 hover:text-red-400">✕</button>
+      </div>
+    ))}
+  </div>
+);
+
+export default MeasurementTools;
@@ -1,46 +1,84 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { io, Socket } from 'socket.io-client';
-import { User, SessionRequest, AdminNotification } from '../types';
+import React, { useState } from 'react';
+import { User, SessionRequest, AdminNotification, Priority, EXAM_TYPE_LABELS, PRIORITY_LABELS } from '../types';
+import { PRIORITIES } from '../shared/protocol';
+import { useRologySession } from '../hooks/useRologySession';
+import { SESSION_ROLE_LABELS } from './ParticipantList';
+import SlaCountdown from './SlaCountdown';
+import ExamContextSummary from './ExamContextSummary';
 
 interface MedicalAdminDashboardProps {
   userId: string;
   userName: string;
+  token: string;
   onLeave: () => void;
 }
 
-const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, userName, onLeave }) => {
-  const socketRef = useRef<Socket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+const PRIORITY_BADGE_STYLES: Record<Priority, string> = {
+  STAT: 'bg-red-500/20 text-red-400',
+  URGENT: 'bg-orange-500/20 text-orange-400',
+  ROUTINE: 'bg-rology-700 text-gray-400',
+};
+
+const PriorityBadge: React.FC<{ request: SessionRequest; className?: string }> = ({ request, className = '' }) => {
+  const priority = request.priority || 'ROUTINE';
+  return (
+    <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${PRIORITY_BADGE_STYLES[priority]} ${className}`}>
+      {PRIORITY_LABELS[priority]}
+    </span>
+  );
+};
+
+const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, userName, token, onLeave }) => {
   const [technicians, setTechnicians] = useState<User[]>([]);
   const [radiologists, setRadiologists] = useState<User[]>([]);
   const [sessionRequests, setSessionRequests] = useState<SessionRequest[]>([]);
   const [notifications, setNotifications] = useState<AdminNotification[]>([]);
   const [selectedRequest, setSelectedRequest] = useState<SessionRequest | null>(null);
   const [selectedRadiologist, setSelectedRadiologist] = useState<string>('');
+  const [observers, setObservers] = useState<User[]>([]);
+  // Server-side routing of pending requests (see server/dispatch.js)
+  const [autoDispatch, setAutoDispatch] = useState(false);
+  // Active session a consultant or observer is being picked for
+  const [inviteTarget, setInviteTarget] = useState<{ request: SessionRequest; sessionRole: 'CONSULTANT' | 'OBSERVER' } | null>(null);
 
-  useEffect(() => {
-    const defaultServerUrl = `http://${window.location.hostname}:3001`;
-    const serverUrl = import.meta.env.VITE_SIGNALING_SERVER || defaultServerUrl;
-    
-    socketRef.current = io(serverUrl, {
-      reconnection: true,
-      reconnectionAttempts: 10,
-      reconnectionDelay: 1000,
-    });
-
-    const socket = socketRef.current;
-
-    socket.on('connect', () => {
-      setIsConnected(true);
-      socket.emit('register', { userId, userName, role: 'MEDICAL_ADMIN' });
-    });
-
-    socket.on('disconnect', () => setIsConnected(false));
-
-    socket.on('signal', (event: any) => {
+  const { isConnected, protocolError, emit } = useRologySession({
+    token,
+    onUnauthorized: onLeave,
+    onSessionRequests: setSessionRequests,
+    onSignal: (event) => {
       if (event.type === 'USER_LIST_UPDATE') {
         setTechnicians(event.payload.technicians || []);
         setRadiologists(event.payload.radiologists || []);
+        setObservers(event.payload.observers || []);
+      }
+      if (event.type === 'DISPATCH_STATUS') {
+        setAutoDispatch(event.payload.enabled);
+      }
+      if (event.type === 'SLA_BREACHED') {
+        const newNotification: AdminNotification = {
+          id: `notif-${Date.now()}`,
+          type: 'SLA_BREACH',
+          message: `${PRIORITY_LABELS[event.payload.priority]} request from ${event.payload.technicianName} is past its SLA`,
+          sessionRequestId: event.payload.requestId,
+          timestamp: Date.now(),
+          read: false
+        };
+        setNotifications(prev => [newNotification, ...prev]);
+      }
+      if (event.type === 'INVITE_EXPIRED') {
+        const { radiologistId, radiologistName, technicianName, sessionRole } = event.payload;
+        const newNotification: AdminNotification = {
+          id: `notif-${Date.now()}`,
+          type: 'INVITE_EXPIRED',
+          message: sessionRole
+            ? `${radiologistName} did not answer the ${SESSION_ROLE_LABELS[sessionRole].toLowerCase()} invite for ${technicianName}`
+            : `${radiologistName} did not answer the invite for ${technicianName}, request returned to the queue`,
+          radiologistId,
+          radiologistName,
+          timestamp: Date.now(),
+          read: false
+        };
+        setNotifications(prev => [newNotification, ...prev]);
       }
       if (event.type === 'ROOM_REJECTED') {
         const newNotification: AdminNotification = {
@@ -55,6 +93,17 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
         };
         setNotifications(prev => [newNotification, ...prev]);
       }
+      if (event.type === 'SESSION_SUSPENDED') {
+        const newNotification: AdminNotification = {
+          id: `notif-${Date.now()}`,
+          type: 'SESSION_SUSPENDED',
+          message: `Technician disconnected from room ${event.payload.roomId}, waiting for reconnect`,
+          sessionRequestId: event.payload.requestId,
+          timestamp: Date.now(),
+          read: false
+        };
+        setNotifications(prev => [newNotification, ...prev]);
+      }
       if (event.type === 'SESSION_ENDED') {
         const newNotification: AdminNotification = {
           id: `notif-${Date.now()}`,
@@ -65,43 +114,64 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
         };
         setNotifications(prev => [newNotification, ...prev]);
       }
-    });
-
-    socket.on('session-requests-update', (requests: SessionRequest[]) => {
-      setSessionRequests(requests);
-    });
-
-    return () => { socket.disconnect(); };
-  }, [userId, userName]);
+    },
+  });
 
   const handleAssign = () => {
-    if (!selectedRequest || !selectedRadiologist || !socketRef.current) return;
+    if (!selectedRequest || !selectedRadiologist) return;
     const radiologist = radiologists.find(r => r.id === selectedRadiologist);
     if (!radiologist) return;
     
-    socketRef.current.emit('assign-radiologist', {
+    emit('assign-radiologist', {
       requestId: selectedRequest.id,
-      radiologistId: selectedRadiologist,
-      radiologistName: radiologist.name
+      radiologistId: selectedRadiologist
     });
     
     setSelectedRequest(null);
     setSelectedRadiologist('');
   };
 
+  const handleInvite = () => {
+    if (!inviteTarget || !selectedRadiologist) return;
+    emit('invite-to-session', {
+      requestId: inviteTarget.request.id,
+      userId: selectedRadiologist
+    });
+
+    setInviteTarget(null);
+    setSelectedRadiologist('');
+  };
+
+  const handleToggleAutoDispatch = () => {
+    emit('set-auto-dispatch', { enabled: !autoDispatch });
+  };
+
   const handleEndSession = (requestId: string) => {
-    if (!socketRef.current) {
+    if (!isConnected) {
       console.error('Socket not connected');
       return;
     }
     console.log('Sending end-session for:', requestId);
-    socketRef.current.emit('end-session', { requestId });
+    emit('end-session', { requestId });
   };
 
   const availableRadiologists = radiologists.filter(r => r.isAvailable);
-  const pendingRequests = sessionRequests.filter(r => r.status === 'PENDING');
-  const assignedRequests = sessionRequests.filter(r => r.status === 'ASSIGNED');
-  const activeRequests = sessionRequests.filter(r => r.status === 'ACTIVE');
+  // Reassigning an unanswered invite offers everyone but the radiologist who already has it
+  const assignCandidates = availableRadiologists.filter(r => r.id !== selectedRequest?.assignedRadiologistId);
+  const formatSubspecialties = (user: User) => (user.subspecialties || []).map(s => EXAM_TYPE_LABELS[s]).join(', ');
+  // Available radiologists can be asked to consult, any connected observer to watch, unless already in the session
+  const inviteCandidates = inviteTarget
+    ? (inviteTarget.sessionRole === 'OBSERVER' ? observers : availableRadiologists)
+        .filter(u => !inviteTarget.request.participants?.some(p => p.userId === u.id))
+    : [];
+  // Most urgent first, then longest waiting
+  const byUrgency = (a: SessionRequest, b: SessionRequest) =>
+    PRIORITIES.indexOf(a.priority || 'ROUTINE') - PRIORITIES.indexOf(b.priority || 'ROUTINE') || a.createdAt - b.createdAt;
+  const pendingRequests = sessionRequests.filter(r => r.status === 'PENDING').sort(byUrgency);
+  // Suspended sessions stay in their column while the technician reconnects
+  const effectiveStatus = (r: SessionRequest) => r.status === 'SUSPENDED' ? r.resumeStatus : r.status;
+  const assignedRequests = sessionRequests.filter(r => effectiveStatus(r) === 'ASSIGNED').sort(byUrgency);
+  const activeRequests = sessionRequests.filter(r => effectiveStatus(r) === 'ACTIVE');
 
   return (
     <div className="min-h-screen bg-rology-950 flex flex-col">
@@ -128,6 +198,12 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
         </div>
       </header>
 
+      {protocolError && (
+        <div className="px-4 py-2 bg-red-500/20 border-b border-red-500/40 text-xs text-red-300">
+          {protocolError}
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
         {/* Left Sidebar - Users */}
@@ -171,7 +247,12 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
                     <div className="w-6 h-6 bg-rology-700 rounded-full flex items-center justify-center text-green-400 text-[10px]">
                       {rad.name.charAt(0).toUpperCase()}
                     </div>
-                    <span className="flex-1 text-white">{rad.name}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white truncate">{rad.name}</p>
+                      {rad.subspecialties && rad.subspecialties.length > 0 && (
+                        <p className="text-[10px] text-gray-500 truncate">{formatSubspecialties(rad)}</p>
+                      )}
+                    </div>
                     <span className={`text-[10px] px-1.5 py-0.5 rounded ${
                       rad.isAvailable ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
                     }`}>
@@ -182,12 +263,43 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
               </div>
             )}
           </div>
+
+          {/* Observers */}
+          <div className="p-3 border-t border-rology-700">
+            <h4 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-2">
+              Observers ({observers.length})
+            </h4>
+            {observers.length === 0 ? (
+              <p className="text-[10px] text-gray-600 italic">No observers online</p>
+            ) : (
+              <div className="space-y-1">
+                {observers.map(observer => (
+                  <div key={observer.id} className="flex items-center gap-2 p-2 bg-rology-800 rounded text-xs">
+                    <div className="w-6 h-6 bg-rology-700 rounded-full flex items-center justify-center text-gray-400 text-[10px]">
+                      {observer.name.charAt(0).toUpperCase()}
+                    </div>
+                    <span className="text-white">{observer.name}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Center - Session Requests */}
         <div className="flex-1 bg-rology-950 flex flex-col">
-          <div className="p-3 border-b border-rology-700 bg-rology-900">
+          <div className="p-3 border-b border-rology-700 bg-rology-900 flex items-center justify-between">
             <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Session Requests</h3>
+            <button
+              onClick={handleToggleAutoDispatch}
+              disabled={!isConnected}
+              title="Route pending requests by subspecialty, load, shift and decline rate"
+              className={`px-3 py-1 text-[10px] font-medium rounded transition-colors ${
+                autoDispatch ? 'bg-green-500/20 text-green-400 hover:bg-green-500/30' : 'bg-rology-700 text-gray-400 hover:bg-rology-600'
+              }`}
+            >
+              Auto-dispatch: {autoDispatch ? 'On' : 'Off'}
+            </button>
           </div>
           
           <div className="flex-1 p-4 overflow-y-auto">
@@ -201,12 +313,30 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   {pendingRequests.map(request => (
-                    <div key={request.id} className="p-4 bg-rology-800 rounded border border-yellow-500/30">
+                    <div key={request.id} className={`p-4 bg-rology-800 rounded border ${request.slaBreachedAt ? 'border-red-500/60' : 'border-yellow-500/30'}`}>
                       <div className="flex items-center justify-between mb-3">
                         <span className="text-white font-medium text-sm">{request.technicianName}</span>
-                        <span className="text-[10px] px-2 py-0.5 bg-yellow-500/20 text-yellow-400 rounded">Pending</span>
+                        <div className="flex items-center gap-1">
+                          <PriorityBadge request={request} />
+                          <span className="text-[10px] px-2 py-0.5 bg-yellow-500/20 text-yellow-400 rounded">Pending</span>
+                        </div>
                       </div>
-                      <p className="text-[10px] text-gray-400 mb-3">Room: <span className="font-mono text-white">{request.roomId}</span></p>
+                      {request.slaDueAt && (
+                        <SlaCountdown createdAt={request.createdAt} dueAt={request.slaDueAt} className="block text-[10px] mb-1" />
+                      )}
+                      <p className="text-[10px] text-gray-400 mb-1">Room: <span className="font-mono text-white">{request.roomId}</span></p>
+                      <p className="text-[10px] text-gray-400 mb-3">
+                        Exam: <span className="text-white">{EXAM_TYPE_LABELS[request.examType || 'GENERAL']}</span>
+                        {request.declinedBy && request.declinedBy.length > 0 && (
+                          <span className="ml-2 text-red-400">Declined by {request.declinedBy.length}</span>
+                        )}
+                      </p>
+                      {request.examContext && (
+                        <ExamContextSummary context={request.examContext} className="text-[10px] mb-3 p-2 bg-rology-850 rounded" />
+                      )}
+                      {request.notes && (
+                        <p className="text-[10px] text-gray-300 italic mb-3 line-clamp-2">"{request.notes}"</p>
+                      )}
                       <button
                         onClick={() => setSelectedRequest(request)}
                         disabled={availableRadiologists.length === 0}
@@ -235,8 +365,36 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
                         <span className="text-white text-sm">{request.technicianName}</span>
                         <span className="text-gray-500 mx-2">↔</span>
                         <span className="text-rology-400 text-sm">{request.assignedRadiologistName}</span>
+                        <PriorityBadge request={request} className="ml-2" />
+                        {request.assignedBy === 'AUTO' && (
+                          <span className="ml-2 text-[10px] px-1.5 py-0.5 bg-purple-500/20 text-purple-400 rounded">Auto</span>
+                        )}
+                        <p className="text-[10px] text-gray-500 mt-1">
+                          {EXAM_TYPE_LABELS[request.examType || 'GENERAL']}
+                          {request.dispatchReason && ` · ${request.dispatchReason}`}
+                        </p>
+                        {request.examContext && (
+                          <ExamContextSummary context={request.examContext} className="text-[10px] mt-1" />
+                        )}
+                        {request.notes && (
+                          <p className="text-[10px] text-gray-300 italic mt-1 line-clamp-2">"{request.notes}"</p>
+                        )}
+                        {request.slaDueAt && (
+                          <SlaCountdown createdAt={request.createdAt} dueAt={request.slaDueAt} className="block text-[10px] mt-1" />
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-gray-500">{request.status === 'SUSPENDED' ? 'Technician reconnecting' : 'Waiting for radiologist'}</span>
+                        {request.status === 'ASSIGNED' && (
+                          <button
+                            onClick={() => setSelectedRequest(request)}
+                            disabled={!availableRadiologists.some(r => r.id !== request.assignedRadiologistId)}
+                            className="px-3 py-1 bg-rology-700 hover:bg-rology-600 disabled:text-gray-500 text-white text-xs rounded transition-colors"
+                          >
+                            Reassign
+                          </button>
+                        )}
                       </div>
-                      <span className="text-[10px] text-gray-500">Waiting for radiologist</span>
                     </div>
                   ))}
                 </div>
@@ -259,9 +417,35 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
                         <span className="text-gray-500 mx-2">↔</span>
                         <span className="text-green-400 text-sm">{request.assignedRadiologistName}</span>
                         <span className="ml-2 text-[10px] text-gray-500 font-mono">{request.roomId}</span>
+                        {(['CONSULTANT', 'OBSERVER'] as const).map(sessionRole => {
+                          const members = request.participants?.filter(p => p.sessionRole === sessionRole) ?? [];
+                          return members.length > 0 && (
+                            <p key={sessionRole} className="text-[10px] text-gray-400 mt-1">
+                              {SESSION_ROLE_LABELS[sessionRole]}s: {members.map(p => p.name).join(', ')}
+                            </p>
+                          );
+                        })}
                       </div>
                       <div className="flex items-center gap-2">
-                        <span className="text-[10px] px-2 py-0.5 bg-green-500/20 text-green-400 rounded">In Progress</span>
+                        {request.status === 'SUSPENDED' ? (
+                          <span className="text-[10px] px-2 py-0.5 bg-yellow-500/20 text-yellow-400 rounded">Reconnecting</span>
+                        ) : (
+                          <span className="text-[10px] px-2 py-0.5 bg-green-500/20 text-green-400 rounded">In Progress</span>
+                        )}
+                        <button
+                          onClick={() => setInviteTarget({ request, sessionRole: 'CONSULTANT' })}
+                          disabled={request.status === 'SUSPENDED' || availableRadiologists.length === 0}
+                          className="px-3 py-1 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white text-xs rounded transition-colors"
+                        >
+                          Invite Consultant
+                        </button>
+                        <button
+                          onClick={() => setInviteTarget({ request, sessionRole: 'OBSERVER' })}
+                          disabled={request.status === 'SUSPENDED' || observers.length === 0}
+                          className="px-3 py-1 bg-rology-700 hover:bg-rology-600 disabled:text-gray-500 text-white text-xs rounded transition-colors"
+                        >
+                          Add Observer
+                        </button>
                         <button
                           onClick={() => handleEndSession(request.id)}
                           className="px-3 py-1 bg-red-600 hover:bg-red-500 text-white text-xs rounded transition-colors"
@@ -318,12 +502,21 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
       {selectedRequest && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
           <div className="bg-rology-800 rounded-lg border border-rology-700 p-6 max-w-md w-full mx-4">
-            <h3 className="text-lg font-bold text-white mb-4">Assign Radiologist</h3>
+            <h3 className="text-lg font-bold text-white mb-4">
+              {selectedRequest.status === 'ASSIGNED' ? 'Reassign Radiologist' : 'Assign Radiologist'}
+            </h3>
             
             <div className="mb-4 p-3 bg-rology-850 rounded border border-rology-700">
               <p className="text-xs text-gray-400">Technician</p>
               <p className="text-white">{selectedRequest.technicianName}</p>
               <p className="text-[10px] text-gray-500 mt-1">Room: {selectedRequest.roomId}</p>
+              <p className="text-[10px] text-gray-500">Exam: {EXAM_TYPE_LABELS[selectedRequest.examType || 'GENERAL']}</p>
+              {selectedRequest.examContext && (
+                <ExamContextSummary context={selectedRequest.examContext} className="text-[10px] mt-2" />
+              )}
+              {selectedRequest.status === 'ASSIGNED' && (
+                <p className="text-[10px] text-yellow-400 mt-1">The invite to {selectedRequest.assignedRadiologistName} will be withdrawn</p>
+              )}
             </div>
             
             <div className="mb-6">
@@ -334,8 +527,10 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
                 className="w-full bg-rology-900 border border-rology-700 rounded px-4 py-2 text-white text-sm"
               >
                 <option value="">Choose a radiologist...</option>
-                {availableRadiologists.map(rad => (
-                  <option key={rad.id} value={rad.id}>{rad.name}</option>
+                {assignCandidates.map(rad => (
+                  <option key={rad.id} value={rad.id}>
+                    {rad.name}{rad.subspecialties?.length ? ` (${formatSubspecialties(rad)})` : ''}
+                  </option>
                 ))}
               </select>
             </div>
@@ -358,6 +553,55 @@ const MedicalAdminDashboard: React.FC<MedicalAdminDashboardProps> = ({ userId, u
           </div>
         </div>
       )}
+
+      {/* Consult / Observer Invite Modal */}
+      {inviteTarget && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+          <div className="bg-rology-800 rounded-lg border border-rology-700 p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-bold text-white mb-4">
+              {inviteTarget.sessionRole === 'OBSERVER' ? 'Add Observer' : 'Invite Consultant'}
+            </h3>
+
+            <div className="mb-4 p-3 bg-rology-850 rounded border border-rology-700">
+              <p className="text-xs text-gray-400">Session</p>
+              <p className="text-white">{inviteTarget.request.technicianName} ↔ {inviteTarget.request.assignedRadiologistName}</p>
+              <p className="text-[10px] text-gray-500 mt-1">Room: {inviteTarget.request.roomId}</p>
+            </div>
+
+            <div className="mb-6">
+              <label className="block text-xs text-gray-400 mb-2">
+                {inviteTarget.sessionRole === 'OBSERVER' ? 'Select Observer' : 'Select Radiologist'}
+              </label>
+              <select
+                value={selectedRadiologist}
+                onChange={(e) => setSelectedRadiologist(e.target.value)}
+                className="w-full bg-rology-900 border border-rology-700 rounded px-4 py-2 text-white text-sm"
+              >
+                <option value="">{inviteCandidates.length === 0 ? 'Nobody else available' : 'Choose...'}</option>
+                {inviteCandidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => { setInviteTarget(null); setSelectedRadiologist(''); }}
+                className="flex-1 px-4 py-2 bg-rology-700 hover:bg-rology-600 text-white rounded transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleInvite}
+                disabled={!selectedRadiologist}
+                className="flex-1 px-4 py-2 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white font-bold rounded transition-colors"
+              >
+                Invite
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
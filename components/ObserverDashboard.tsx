@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from 'react';
+import { ChatMessage, CineState, StudyViewport, Measurement, DicomSeries, RoomAssignment, ScannerControl, UserRole } from '../types';
+import { useRologySession } from '../hooks/useRologySession';
+import { useWebRTCVideo } from '../hooks/useWebRTCVideo';
+import { getImageIds, pickSeries } from '../services/studies';
+import DicomViewer, { DEFAULT_CINE } from './DicomViewer';
+import { DEFAULT_VIEWPORT } from '../utils/viewport';
+import { saveMeasurement } from '../utils/measurements';
+import { useAnnotations } from '../hooks/useAnnotations';
+import VideoAnnotationLayer from './VideoAnnotationLayer';
+import SeriesSelector from './SeriesSelector';
+import ParticipantList from './ParticipantList';
+import ControlHandoff from './ControlHandoff';
+import RemoteVideoGrid from './RemoteVideoGrid';
+
+interface ObserverDashboardProps {
+  userId: string;
+  userName: string;
+  token: string;
+  onLeave: () => void;
+}
+
+type ObserverStatus = 'LOBBY' | 'WATCHING';
+
+/**
+ * Read-only view of a live session for residents and trainees. Study controls,
+ * annotations and chat are followed but cannot be changed; the server refuses
+ * room signals from observers.
+ */
+const ObserverDashboard: React.FC<ObserverDashboardProps> = ({ userId, userName, token, onLeave }) => {
+  const [status, setStatus] = useState<ObserverStatus>('LOBBY');
+  const [roomId, setRoomId] = useState<string>('');
+  const [technicianName, setTechnicianName] = useState<string>('');
+  const [pendingInvite, setPendingInvite] = useState<RoomAssignment | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [lastSession, setLastSession] = useState<string>('');
+
+  // Study state as set by the technician and radiologists
+  const [gain, setGain] = useState(50);
+  const [depth, setDepth] = useState(15);
+  const [frame, setFrame] = useState(0);
+  const [cine, setCine] = useState<CineState>(DEFAULT_CINE);
+  const [viewport, setViewport] = useState<StudyViewport>(DEFAULT_VIEWPORT);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  // Who is driving the study, shown but never requested
+  const [control, setControl] = useState<ScannerControl | null>(null);
+
+  const [series, setSeries] = useState<DicomSeries[]>([]);
+  const [selectedSeriesUid, setSelectedSeriesUid] = useState<string | undefined>();
+  const activeSeries = pickSeries(series, selectedSeriesUid);
+  const imageIds = useMemo(() => getImageIds(roomId, activeSeries), [roomId, activeSeries]);
+  const seriesMeasurements = measurements.filter(m => m.seriesInstanceUid === activeSeries?.seriesInstanceUid);
+
+  const { socket, isConnected: isServerConnected, protocolError, participants, joinRoom, emit } = useRologySession({
+    token,
+    onUnauthorized: onLeave,
+    onRoomInfo: (info) => {
+      setMessages(info.messages || []);
+      setSeries(info.series || []);
+      setSelectedSeriesUid(info.sync?.seriesInstanceUid);
+      if (info.sync?.gain !== undefined) setGain(info.sync.gain);
+      if (info.sync?.depth !== undefined) setDepth(info.sync.depth);
+      if (info.sync?.frame !== undefined) setFrame(info.sync.frame);
+      if (info.sync?.cine) setCine(info.sync.cine);
+      if (info.sync?.viewport) setViewport(info.sync.viewport);
+      setMeasurements(info.measurements || []);
+      setControl(info.control || null);
+      annotationSession.load(info.annotations || []);
+      // Receive-only calls with everyone already in the room; later joiners call us
+      startVideo(info.users.map(u => u.socketId).filter(id => id !== socket?.id));
+    },
+    onJoinRoom: ({ roomId, technicianName }) => {
+      setRoomId(roomId);
+      if (technicianName) setTechnicianName(technicianName);
+      setStatus('WATCHING');
+      joinRoom(roomId);
+    },
+    onSignal: (event) => {
+      if (event.type === 'ROOM_INVITE') {
+        setPendingInvite(event.payload);
+      }
+      if (event.type === 'INVITE_EXPIRED') {
+        setPendingInvite(prev => prev?.id === event.payload.assignmentId ? null : prev);
+        setLastSession(`Missed an invite from ${event.payload.technicianName}`);
+      }
+      if (event.type === 'SESSION_ENDED') {
+        stopVideo();
+        setStatus('LOBBY');
+        setRoomId('');
+        setTechnicianName('');
+        setMessages([]);
+        setSeries([]);
+        setSelectedSeriesUid(undefined);
+        setMeasurements([]);
+        setControl(null);
+        annotationSession.load([]);
+        setPendingInvite(null);
+        setLastSession(event.payload.reason || 'Session ended');
+      }
+      if (event.type === 'LEAVE') {
+        closePeer(event.payload.socketId);
+      }
+      if (event.type === 'CHAT') {
+        setMessages(prev => [...prev, event.payload]);
+      }
+      if (event.type === 'SYNC_STATE') {
+        if (event.payload.gain !== undefined) setGain(event.payload.gain);
+        if (event.payload.depth !== undefined) setDepth(event.payload.depth);
+        if (event.payload.frame !== undefined) setFrame(event.payload.frame);
+        if (event.payload.cine) setCine(event.payload.cine);
+        if (event.payload.viewport) setViewport(event.payload.viewport);
+        if (event.payload.seriesInstanceUid !== undefined) setSelectedSeriesUid(event.payload.seriesInstanceUid);
+      }
+      if (event.type === 'CONTROL_UPDATE') {
+        setControl(event.payload);
+      }
+      if (event.type === 'MEASUREMENT_SAVED') {
+        setMeasurements(prev => saveMeasurement(prev, event.payload));
+      }
+      if (event.type === 'MEASUREMENT_REMOVED') {
+        setMeasurements(prev => prev.filter(m => m.id !== event.payload.id));
+      }
+      // Annotations drawn, undone or cleared by others
+      annotationSession.receive(event);
+      if (event.type === 'STUDIES_UPDATED') {
+        setSeries(event.payload.series);
+      }
+    },
+  });
+
+  // Annotations on the study and the technician's video, with this user's undo history
+  const annotationSession = useAnnotations({ userId, userName });
+  const seriesAnnotations = annotationSession.annotations.filter(a => a.layer === 'image' && a.seriesInstanceUid === activeSeries?.seriesInstanceUid);
+  const videoAnnotations = annotationSession.annotations.filter(a => a.layer === 'video');
+
+  const { remoteStreams, startVideo, closePeer, stopVideo } = useWebRTCVideo({
+    socket,
+    isConnected: isServerConnected,
+    role: 'OBSERVER',
+    receiveOnly: true,
+  });
+  const remoteParticipants = participants.filter(p => p.socketId !== socket?.id && p.sessionRole !== 'OBSERVER');
+
+  const handleRespond = (accept: boolean) => {
+    if (!pendingInvite) return;
+    emit('respond-to-assignment', {
+      assignmentId: pendingInvite.id,
+      accept,
+      comment: accept ? undefined : 'Declined by observer'
+    });
+    if (accept) {
+      setRoomId(pendingInvite.roomId);
+      setTechnicianName(pendingInvite.technicianName);
+      setStatus('WATCHING');
+    }
+    setPendingInvite(null);
+  };
+
+  const handleLeaveSession = () => {
+    if (!roomId) return;
+    emit('leave-session', { roomId });
+  };
+
+  return (
+    <div className="min-h-screen bg-rology-950 flex flex-col">
+      {/* Header */}
+      <header className="h-12 bg-rology-800 border-b border-rology-700 flex items-center justify-between px-4">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <div className="w-6 h-6 bg-rology-500 rounded flex items-center justify-center text-white font-bold text-xs">R</div>
+            <span className="text-sm font-bold text-white">ROLOGY</span>
+          </div>
+          <div className="w-px h-6 bg-rology-700"></div>
+          <span className="text-xs text-gray-400">Observer Console</span>
+          <span className="text-[10px] px-2 py-0.5 bg-rology-700 text-gray-300 rounded">Read-only</span>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className={`flex items-center gap-2 text-xs ${isServerConnected ? 'text-green-400' : 'text-red-400'}`}>
+            <div className={`w-2 h-2 rounded-full ${isServerConnected ? 'bg-green-400' : 'bg-red-400'}`} />
+            {isServerConnected ? 'Connected' : 'Disconnected'}
+          </div>
+          <span className="text-sm text-gray-300">{userName}</span>
+          <button onClick={onLeave} className="px-3 py-1 text-xs text-gray-400 hover:text-white transition-colors">
+            Logout
+          </button>
+        </div>
+      </header>
+
+      {protocolError && (
+        <div className="px-4 py-2 bg-red-500/20 border-b border-red-500/40 text-xs text-red-300">
+          {protocolError}
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left Sidebar */}
+        <div className="w-72 bg-rology-900 border-r border-rology-700 flex flex-col shrink-0">
+          <div className="p-4 flex flex-col h-full overflow-hidden">
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">Session</h3>
+            <div className="p-3 bg-rology-800 rounded border border-rology-700 mb-4">
+              <div className="flex items-center gap-2 mb-2">
+                <div className={`w-2 h-2 rounded-full ${status === 'WATCHING' ? 'bg-green-400 animate-pulse' : 'bg-gray-500'}`} />
+                <span className="text-sm text-white">{status === 'WATCHING' ? 'Observing' : 'Waiting'}</span>
+              </div>
+              {status === 'WATCHING' ? (
+                <div className="text-xs text-gray-400 space-y-1">
+                  <p>Room: <span className="text-white font-mono">{roomId}</span></p>
+                  <p>Tech: <span className="text-rology-400">{technicianName}</span></p>
+                  <button onClick={handleLeaveSession}
+                    className="w-full mt-2 px-3 py-1.5 bg-rology-700 hover:bg-rology-600 text-white text-xs rounded transition-colors">
+                    Leave Session
+                  </button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {lastSession ? `${lastSession}. ` : ''}An admin can invite you to watch a live session.
+                </p>
+              )}
+            </div>
+
+            {status === 'WATCHING' && participants.length > 0 && (
+              <ParticipantList participants={participants} selfSocketId={socket?.id} />
+            )}
+
+            {/* Chat log - observers read along but cannot post */}
+            <div className="flex-1 flex flex-col border-t border-rology-700 pt-4 min-h-0">
+              <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 shrink-0">Chat</h3>
+              <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+                {messages.length === 0 ? (
+                  <p className="text-xs text-gray-600 italic">No messages</p>
+                ) : (
+                  messages.map(msg => (
+                    <div key={msg.id} className={`p-2 rounded text-xs ${msg.role === UserRole.TECH ? 'bg-rology-700' : 'bg-rology-800'}`}>
+                      <p className="text-gray-500 text-[10px]">{msg.sender}</p>
+                      <p className="text-white break-words">{msg.text}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Main Viewer Area */}
+        <div className="flex-1 bg-black flex flex-col min-w-0">
+          <div className="h-8 bg-rology-850 border-b border-rology-700 flex items-center justify-between px-4 text-xs shrink-0">
+            <div className="flex items-center gap-4">
+              <span className="text-rology-400 font-semibold">ULTRASOUND LIVE SESSION</span>
+              <span className="text-gray-500">Room: {roomId || 'N/A'}</span>
+              {status === 'WATCHING' && <ControlHandoff control={control} userId={userId} />}
+            </div>
+            {status === 'WATCHING' && (
+              <span className="text-gray-400">Gain {gain} · Depth {depth} cm</span>
+            )}
+          </div>
+
+          <div className="flex-1 flex items-center justify-center relative">
+            {status === 'WATCHING' ? (
+              <div className="w-full h-full flex gap-2 p-2">
+                <div className="relative flex-1 bg-rology-900 rounded-lg overflow-hidden border border-rology-700">
+                  <DicomViewer imageIds={imageIds} token={token} className="w-full h-full" frame={frame} cine={cine} viewport={viewport} measurements={seriesMeasurements} annotations={seriesAnnotations} />
+                  <div className="absolute top-2 left-2 space-y-1">
+                    <SeriesSelector series={series} selected={activeSeries} />
+                    <span className="inline-block px-2 py-1 bg-black/70 rounded text-[10px] text-cyan-400">VIEW ONLY</span>
+                  </div>
+                </div>
+                <RemoteVideoGrid
+                  participants={remoteParticipants}
+                  remoteStreams={remoteStreams}
+                  className="w-1/3"
+                  renderOverlay={(participant, videoRef) => participant.sessionRole === 'TECHNICIAN' && (
+                    <VideoAnnotationLayer videoRef={videoRef} annotations={videoAnnotations} />
+                  )}
+                />
+              </div>
+            ) : (
+              <div className="text-center">
+                <p className="text-gray-500">No Session</p>
+                <p className="text-gray-600 text-sm mt-1">Waiting for an invitation to observe</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Observe Invite Modal */}
+      {pendingInvite && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+          <div className="bg-rology-800 rounded-lg border border-rology-700 p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-bold text-white text-center">Observe Session</h3>
+            <p className="text-gray-400 text-sm mt-1 mb-6 text-center">You've been invited to watch a live session</p>
+
+            <div className="p-4 bg-rology-850 rounded border border-rology-700 mb-6 space-y-2 text-sm">
+              <div><span className="text-gray-400">Technician:</span> <span className="text-white ml-2">{pendingInvite.technicianName}</span></div>
+              <div><span className="text-gray-400">Room:</span> <span className="text-white font-mono ml-2">{pendingInvite.roomId}</span></div>
+            </div>
+
+            <div className="flex gap-3">
+              <button onClick={() => handleRespond(false)}
+                className="flex-1 px-4 py-2 bg-rology-700 hover:bg-rology-600 text-white rounded transition-colors">
+                Decline
+              </button>
+              <button onClick={() => handleRespond(true)}
+                className="flex-1 px-4 py-2 bg-rology-500 hover:bg-rology-400 text-white font-bold rounded transition-colors">
+                Watch
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObserverDashboard;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { RoomParticipant, SessionRole } from '../types';
+
+interface ParticipantListProps {
+  participants: RoomParticipant[];
+  selfSocketId?: string;
+}
+
+export const SESSION_ROLE_LABELS: Record<SessionRole, string> = {
+  TECHNICIAN: 'Technician',
+  PRIMARY: 'Reading radiologist',
+  CONSULTANT: 'Consultant',
+  OBSERVER: 'Observer',
+};
+
+const SESSION_ROLE_COLORS: Record<SessionRole, string> = {
+  TECHNICIAN: 'text-cyan-400',
+  PRIMARY: 'text-rology-400',
+  CONSULTANT: 'text-purple-400',
+  OBSERVER: 'text-gray-400',
+};
+
+const ParticipantList: React.FC<ParticipantListProps> = ({ participants, selfSocketId }) => {
+  return (
+    <div className="mb-4">
+      <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
+        Participants ({participants.length})
+      </h3>
+      <div className="space-y-1">
+        {participants.map(participant => (
+          <div key={participant.socketId} className="flex items-center justify-between p-2 bg-rology-800 rounded border border-rology-700 text-xs">
+            <span className="text-white truncate">
+              {participant.name}
+              {participant.socketId === selfSocketId && <span className="text-gray-500 ml-1">(You)</span>}
+            </span>
+            <span className={`text-[10px] shrink-0 ml-2 ${SESSION_ROLE_COLORS[participant.sessionRole]}`}>
+              {SESSION_ROLE_LABELS[participant.sessionRole]}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantList;
@@ -1,26 +1,47 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { io, Socket } from 'socket.io-client';
-import { UserRole, ChatMessage, RoomAssignment } from '../types';
-import DicomViewer from './DicomViewer';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { UserRole, ChatMessage, RoomAssignment, ExamContext, DicomSeries, CineState, StudyViewport, Measurement, ScannerControl, EXAM_TYPE_LABELS } from '../types';
+import { useRologySession } from '../hooks/useRologySession';
+import { useWebRTCVideo } from '../hooks/useWebRTCVideo';
+import { getImageIds, pickSeries } from '../services/studies';
+import DicomViewer, { DEFAULT_CINE } from './DicomViewer';
+import { DEFAULT_VIEWPORT } from '../utils/viewport';
+import { MeasurementDraft, saveMeasurement } from '../utils/measurements';
+import { AnnotationDraft } from '../utils/annotations';
+import { useAnnotations } from '../hooks/useAnnotations';
+import VideoAnnotationLayer from './VideoAnnotationLayer';
+import VideoTelestrationLayer from './VideoTelestrationLayer';
+import { useTelestration } from '../hooks/useTelestration';
+import { TelestrationInput, TelestrationSurface } from '../utils/telestration';
+import SeriesSelector from './SeriesSelector';
+import ParticipantList from './ParticipantList';
+import ControlHandoff from './ControlHandoff';
+import RemoteVideoGrid from './RemoteVideoGrid';
+import ExamContextSummary from './ExamContextSummary';
+import ReportFormModal from './ReportFormModal';
+import { generateReportPDF, downloadPDF, ReportData } from '../utils/pdfGenerator';
 
 interface RadDashboardProps {
   userId: string;
   userName: string;
+  token: string;
   onLeave: () => void;
 }
 
 type RadStatus = 'LOBBY' | 'ACTIVE';
 
-const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }) => {
+const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, token, onLeave }) => {
   const [radStatus, setRadStatus] = useState<RadStatus>('LOBBY');
   const [isAvailable, setIsAvailable] = useState(true);
   const [roomId, setRoomId] = useState<string>('');
   const [technicianName, setTechnicianName] = useState<string>('');
+  // Patient and order details of the current session, for the report
+  const [examContext, setExamContext] = useState<ExamContext | null>(null);
+  const [showReportForm, setShowReportForm] = useState(false);
   const [pendingInvite, setPendingInvite] = useState<RoomAssignment | null>(null);
+  // Last invite that expired before we answered it
+  const [missedInvite, setMissedInvite] = useState<{ technicianName: string; expiredAt: number } | null>(null);
   const [rejectComment, setRejectComment] = useState('');
   const [showRejectModal, setShowRejectModal] = useState(false);
-  const [isServerConnected, setIsServerConnected] = useState(false);
-  const mainSocketRef = useRef<Socket | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   
@@ -30,67 +51,111 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
 
   // View mode - video or study
   const [viewMode, setViewMode] = useState<'video' | 'study'>('study');
+  // Pointing with the laser instead of using the viewer and annotation tools
+  const [isLaserOn, setIsLaserOn] = useState(false);
 
   // Study controls - synced between tech and rad
   const [gain, setGain] = useState(50);
   const [depth, setDepth] = useState(15);
   const [frame, setFrame] = useState(0);
-
-  const DICOM_FILES = Array.from({ length: 9 }, (_, i) => 
-    `/dicom_viewer_0002/IMG-0001-${String(i + 1).padStart(5, '0')}.dcm`
-  );
+  const [cine, setCine] = useState<CineState>(DEFAULT_CINE);
+  const [viewport, setViewport] = useState<StudyViewport>(DEFAULT_VIEWPORT);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  // Only the holder of the study controls may change them; the technician holds them until handing them over
+  const [control, setControl] = useState<ScannerControl | null>(null);
+  const hasControl = control?.holderId === userId;
+
+  // Series the technician uploaded and the one everyone in the room is looking at
+  const [series, setSeries] = useState<DicomSeries[]>([]);
+  const [selectedSeriesUid, setSelectedSeriesUid] = useState<string | undefined>();
+  const activeSeries = pickSeries(series, selectedSeriesUid);
+  const imageIds = useMemo(() => getImageIds(roomId, activeSeries), [roomId, activeSeries]);
+  const seriesMeasurements = measurements.filter(m => m.seriesInstanceUid === activeSeries?.seriesInstanceUid);
 
   // WebRTC
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
   const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const localStreamRef = useRef<MediaStream | null>(null);
   const [isVideoEnabled, setIsVideoEnabled] = useState(true);
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
-  const [remoteConnected, setRemoteConnected] = useState(false);
-
-  const iceServers = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' }
-    ]
-  };
-
-  useEffect(() => {
-    const defaultServerUrl = `http://${window.location.hostname}:3001`;
-    const serverUrl = import.meta.env.VITE_SIGNALING_SERVER || defaultServerUrl;
-    
-    mainSocketRef.current = io(serverUrl, {
-      reconnection: true,
-      reconnectionAttempts: 10,
-      reconnectionDelay: 1000,
-    });
-
-    const socket = mainSocketRef.current;
-
-    socket.on('connect', () => {
-      setIsServerConnected(true);
-      socket.emit('register', { userId, userName, role: 'RADIOLOGIST' });
-    });
-
-    socket.on('disconnect', () => setIsServerConnected(false));
-
-    socket.on('signal', (event: any) => {
+  // Set while the technician is reconnecting: when the server will give up on them
+  const [suspendedUntil, setSuspendedUntil] = useState<number | null>(null);
+
+  const { socket, isConnected: isServerConnected, protocolError, participants, joinRoom, send, emit } = useRologySession({
+    token,
+    onUnauthorized: onLeave,
+    // Chat history and study controls kept by the server, replayed on every (re)join
+    onRoomInfo: (info) => {
+      setMessages(info.messages || []);
+      setExamContext(info.examContext || null);
+      setSeries(info.series || []);
+      setSelectedSeriesUid(info.sync?.seriesInstanceUid);
+      if (info.sync?.gain !== undefined) setGain(info.sync.gain);
+      if (info.sync?.depth !== undefined) setDepth(info.sync.depth);
+      if (info.sync?.frame !== undefined) setFrame(info.sync.frame);
+      if (info.sync?.cine) setCine(info.sync.cine);
+      if (info.sync?.viewport) setViewport(info.sync.viewport);
+      setMeasurements(info.measurements || []);
+      setControl(info.control || null);
+      annotationSession.load(info.annotations || []);
+      // Whoever joins calls everyone already in the room; this also replaces stale calls after a reconnect
+      startVideo(info.users.map(u => u.socketId).filter(id => id !== socket?.id));
+    },
+    onJoinRoom: ({ roomId, technicianName }) => {
+      setRoomId(roomId);
+      if (technicianName) setTechnicianName(technicianName);
+      setRadStatus('ACTIVE');
+      // Join the socket room for messaging
+      joinRoom(roomId);
+    },
+    onSignal: (event) => {
       if (event.type === 'ROOM_INVITE') {
         setPendingInvite(event.payload);
+        setMissedInvite(null);
+      }
+      // Nobody answered the invite in time; the server sent the request back to the queue
+      if (event.type === 'INVITE_EXPIRED') {
+        const { assignmentId, technicianName, expiredAt } = event.payload;
+        setPendingInvite(prev => prev?.id === assignmentId ? null : prev);
+        setShowRejectModal(false);
+        setMissedInvite({ technicianName, expiredAt });
+      }
+      // An admin reassigned the request before we answered
+      if (event.type === 'INVITE_CANCELLED') {
+        setPendingInvite(prev => prev?.id === event.payload.assignmentId ? null : prev);
+        console.log('Invite withdrawn:', event.payload.reason);
+      }
+      // Availability restored by the server on (re)connect
+      if (event.type === 'AVAILABILITY_UPDATE') {
+        setIsAvailable(event.payload.isAvailable);
       }
       if (event.type === 'SESSION_ENDED') {
         // Session was ended by admin or technician left
-        cleanupWebRTC();
+        stopVideo();
         setRadStatus('LOBBY');
         setRoomId('');
         setTechnicianName('');
+        setExamContext(null);
+        setShowReportForm(false);
         setMessages([]);
-        setRemoteConnected(false);
-        setPendingInvite(null);
+        setSeries([]);
+        setSelectedSeriesUid(undefined);
+        setMeasurements([]);
+        setControl(null);
+        annotationSession.load([]);
+        telestration.clear();
         setPendingInvite(null);
+        setSuspendedUntil(null);
         console.log('Session ended:', event.payload.reason);
       }
+      // Technician dropped: their call is closed by the LEAVE below and they call again on rejoin
+      if (event.type === 'SESSION_SUSPENDED') {
+        setSuspendedUntil(event.payload.graceExpiresAt);
+      }
+      if (event.type === 'SESSION_RESUMED') {
+        setSuspendedUntil(null);
+      }
+      if (event.type === 'LEAVE') {
+        closePeer(event.payload.socketId);
+      }
       if (event.type === 'CHAT') {
         setMessages(prev => [...prev, event.payload]);
       }
@@ -99,31 +164,53 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
         if (event.payload.gain !== undefined) setGain(event.payload.gain);
         if (event.payload.depth !== undefined) setDepth(event.payload.depth);
         if (event.payload.frame !== undefined) setFrame(event.payload.frame);
+        if (event.payload.cine) setCine(event.payload.cine);
+        if (event.payload.viewport) setViewport(event.payload.viewport);
+        if (event.payload.seriesInstanceUid !== undefined) setSelectedSeriesUid(event.payload.seriesInstanceUid);
       }
-      // WebRTC signaling
-      if (event.type === 'OFFER') {
-        handleOffer(event.payload);
+      if (event.type === 'CONTROL_UPDATE') {
+        setControl(event.payload);
       }
-      if (event.type === 'ANSWER') {
-        handleAnswer(event.payload);
+      if (event.type === 'MEASUREMENT_SAVED') {
+        setMeasurements(prev => saveMeasurement(prev, event.payload));
       }
-      if (event.type === 'ICE_CANDIDATE') {
-        handleIceCandidate(event.payload);
+      if (event.type === 'MEASUREMENT_REMOVED') {
+        setMeasurements(prev => prev.filter(m => m.id !== event.payload.id));
       }
-    });
-
-    socket.on('join-room', ({ roomId }: { roomId: string }) => {
-      setRoomId(roomId);
-      setRadStatus('ACTIVE');
-      // Join the socket room for messaging
-      socket.emit('join', { roomId, role: 'RADIOLOGIST' });
-    });
-
-    return () => { 
-      socket.disconnect(); 
-      cleanupWebRTC();
-    };
-  }, [userId, userName]);
+      // Annotations drawn, undone or cleared by others
+      annotationSession.receive(event);
+      if (event.type === 'STUDIES_UPDATED') {
+        setSeries(event.payload.series);
+      }
+    },
+  });
+
+  // Annotations on the study and the technician's video, with this user's undo history
+  const annotationSession = useAnnotations({ userId, userName, send });
+  const seriesAnnotations = annotationSession.annotations.filter(a => a.layer === 'image' && a.seriesInstanceUid === activeSeries?.seriesInstanceUid);
+  const videoAnnotations = annotationSession.annotations.filter(a => a.layer === 'video');
+
+  // The radiologist's laser pointer, streamed over the calls' data channels
+  const telestration = useTelestration();
+  const seriesMarks = telestration.marks.filter(m => m.surface.layer === 'image' && m.surface.seriesInstanceUid === activeSeries?.seriesInstanceUid);
+  const videoMarks = telestration.marks.filter(m => m.surface.layer === 'video');
+
+  // Participants who join after us call us; the hook answers their offers
+  const { remoteStreams, connectedPeers, startVideo, closePeer, stopVideo, localStream, sendData } = useWebRTCVideo({
+    socket,
+    isConnected: isServerConnected,
+    localVideoRef,
+    role: 'RADIOLOGIST',
+  });
+  // Observers only watch, so they get no video tile
+  const remoteParticipants = participants.filter(p => p.socketId !== socket?.id && p.sessionRole !== 'OBSERVER');
+  // Consultants leave on their own; the reading radiologist leaving ends the session
+  const isConsultant = participants.find(p => p.socketId === socket?.id)?.sessionRole === 'CONSULTANT';
+
+  // The preview element only mounts once the session is active
+  useEffect(() => {
+    if (localVideoRef.current) localVideoRef.current.srcObject = localStream;
+  }, [localStream, radStatus]);
 
   // Handle sidebar resize
   useEffect(() => {
@@ -146,114 +233,9 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
     };
   }, [isResizing]);
 
-  // WebRTC Functions
-  const startWebRTC = async (isInitiator: boolean) => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
-      localStreamRef.current = stream;
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
-      }
-
-      const pc = new RTCPeerConnection(iceServers);
-      peerConnectionRef.current = pc;
-
-      stream.getTracks().forEach(track => {
-        pc.addTrack(track, stream);
-      });
-
-      // Handle remote stream
-      pc.ontrack = (event) => {
-        console.log(`[WebRTC] Received remote track: ${event.track.kind}`);
-        if (remoteVideoRef.current && event.streams[0]) {
-          remoteVideoRef.current.srcObject = event.streams[0];
-          remoteVideoRef.current.muted = false; // Ensure not muted
-          remoteVideoRef.current.play().catch(e => console.error('Error playing remote video:', e));
-          setRemoteConnected(true);
-        }
-      };
-
-      pc.onicecandidate = (event) => {
-        if (event.candidate && mainSocketRef.current) {
-          mainSocketRef.current.emit('signal', {
-            type: 'ICE_CANDIDATE',
-            payload: event.candidate
-          });
-        }
-      };
-
-      pc.onconnectionstatechange = () => {
-        if (pc.connectionState === 'connected') {
-          setRemoteConnected(true);
-        } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
-          setRemoteConnected(false);
-        }
-      };
-
-      if (isInitiator) {
-        const offer = await pc.createOffer();
-        await pc.setLocalDescription(offer);
-        mainSocketRef.current?.emit('signal', {
-          type: 'OFFER',
-          payload: offer
-        });
-      }
-    } catch (error: any) {
-      console.error('Error starting WebRTC:', error);
-      if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-        alert('Camera access denied. Please allow camera access in your browser settings.');
-      } else if (window.location.protocol === 'http:' && window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
-        alert('Camera access blocked! Browsers block camera on http:// (remote IP). Please check the instructions provided or use localhost.');
-      } else {
-        alert(`Camera error: ${error.message || 'Could not access camera'}`);
-      }
-    }
-  };
-
-  const handleOffer = async (offer: RTCSessionDescriptionInit) => {
-    if (!peerConnectionRef.current) {
-      await startWebRTC(false);
-    }
-    const pc = peerConnectionRef.current;
-    if (!pc) return;
-
-    await pc.setRemoteDescription(new RTCSessionDescription(offer));
-    const answer = await pc.createAnswer();
-    await pc.setLocalDescription(answer);
-    mainSocketRef.current?.emit('signal', {
-      type: 'ANSWER',
-      payload: answer
-    });
-  };
-
-  const handleAnswer = async (answer: RTCSessionDescriptionInit) => {
-    const pc = peerConnectionRef.current;
-    if (!pc) return;
-    await pc.setRemoteDescription(new RTCSessionDescription(answer));
-  };
-
-  const handleIceCandidate = async (candidate: RTCIceCandidateInit) => {
-    const pc = peerConnectionRef.current;
-    if (!pc) return;
-    try {
-      await pc.addIceCandidate(new RTCIceCandidate(candidate));
-    } catch (error) {
-      console.error('Error adding ICE candidate:', error);
-    }
-  };
-
-  const cleanupWebRTC = () => {
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
-    }
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-    }
-  };
-
   const toggleVideo = () => {
-    if (localStreamRef.current) {
-      const videoTrack = localStreamRef.current.getVideoTracks()[0];
+    if (localStream) {
+      const videoTrack = localStream.getVideoTracks()[0];
       if (videoTrack) {
         videoTrack.enabled = !videoTrack.enabled;
         setIsVideoEnabled(videoTrack.enabled);
@@ -262,8 +244,8 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
   };
 
   const toggleAudio = () => {
-    if (localStreamRef.current) {
-      const audioTrack = localStreamRef.current.getAudioTracks()[0];
+    if (localStream) {
+      const audioTrack = localStream.getAudioTracks()[0];
       if (audioTrack) {
         audioTrack.enabled = !audioTrack.enabled;
         setIsAudioEnabled(audioTrack.enabled);
@@ -273,26 +255,24 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
 
   const handleAvailabilityChange = (available: boolean) => {
     setIsAvailable(available);
-    mainSocketRef.current?.emit('set-availability', { available });
+    emit('set-availability', { available });
   };
 
   const handleAcceptInvite = () => {
-    if (!pendingInvite || !mainSocketRef.current) return;
-    mainSocketRef.current.emit('respond-to-assignment', {
+    if (!pendingInvite) return;
+    emit('respond-to-assignment', {
       assignmentId: pendingInvite.id,
       accept: true
     });
-    setRoomId(pendingInvite.roomId);
     setTechnicianName(pendingInvite.technicianName);
+    setExamContext(pendingInvite.examContext || null);
     setPendingInvite(null);
-    setRadStatus('ACTIVE');
-    // Start WebRTC (radiologist responds to offer)
-    startWebRTC(false);
+    // The session starts with the server's join-room; an expired or reassigned invite never gets one
   };
 
   const handleRejectInvite = () => {
-    if (!pendingInvite || !mainSocketRef.current) return;
-    mainSocketRef.current.emit('respond-to-assignment', {
+    if (!pendingInvite) return;
+    emit('respond-to-assignment', {
       assignmentId: pendingInvite.id,
       accept: false,
       comment: rejectComment || 'No reason provided'
@@ -302,8 +282,62 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
     setRejectComment('');
   };
 
+  // Show a series to everyone in the room, from its first frame, paused and with the default view
+  const handleSelectSeries = (next: DicomSeries) => {
+    setSelectedSeriesUid(next.seriesInstanceUid);
+    setFrame(0);
+    const paused = { ...cine, playing: false };
+    setCine(paused);
+    setViewport(DEFAULT_VIEWPORT);
+    send({ type: 'SYNC_STATE', payload: { studyInstanceUid: next.studyInstanceUid, seriesInstanceUid: next.seriesInstanceUid, frame: 0, cine: paused, viewport: DEFAULT_VIEWPORT } });
+  };
+
+  // Window/level, zoom, pan and orientation, shown the same to everyone
+  const handleViewportChange = (next: StudyViewport) => {
+    setViewport(next);
+    send({ type: 'SYNC_STATE', payload: { viewport: next } });
+  };
+
+  // Measurements taken on the series on screen, shared with the room and fed into the report
+  const handleMeasure = (draft: MeasurementDraft) => {
+    if (!activeSeries) return;
+    const measurement: Measurement = { ...draft, id: `${userId}-${Date.now()}`, seriesInstanceUid: activeSeries.seriesInstanceUid, author: userName };
+    setMeasurements(prev => [...prev, measurement]);
+    send({ type: 'MEASUREMENT_SAVED', payload: measurement });
+  };
+
+  const handleMeasurementChange = (measurement: Measurement) => {
+    setMeasurements(prev => saveMeasurement(prev, measurement));
+    send({ type: 'MEASUREMENT_SAVED', payload: measurement });
+  };
+
+  const handleMeasurementRemove = (measurement: Measurement) => {
+    setMeasurements(prev => prev.filter(m => m.id !== measurement.id));
+    send({ type: 'MEASUREMENT_REMOVED', payload: { id: measurement.id } });
+  };
+
+  // Annotations on the study belong to the series on screen
+  const handleAnnotate = (draft: AnnotationDraft) => {
+    if (draft.layer === 'video') return annotationSession.add(draft);
+    if (activeSeries) annotationSession.add({ ...draft, seriesInstanceUid: activeSeries.seriesInstanceUid });
+  };
+
+  // Laser marks skip the signaling server: they go peer to peer, and are drawn here too
+  const handleTelestrate = (input: TelestrationInput, surface: TelestrationSurface) => {
+    const message = input.kind === 'pointer-out' ? input : { ...input, surface };
+    sendData(message);
+    telestration.receive('self', message);
+  };
+
+  // Start, pause or retime cine playback for everyone, from the frame on screen
+  const handleCineChange = (next: CineState, atFrame: number) => {
+    setCine(next);
+    setFrame(atFrame);
+    send({ type: 'SYNC_STATE', payload: { frame: atFrame, cine: next } });
+  };
+
   const handleSendMessage = () => {
-    if (!newMessage.trim() || !mainSocketRef.current) return;
+    if (!newMessage.trim() || !isServerConnected) return;
     const msg: ChatMessage = {
       id: Date.now().toString(),
       sender: userName,
@@ -312,21 +346,20 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
       timestamp: Date.now()
     };
     setMessages(prev => [...prev, msg]);
-    mainSocketRef.current.emit('signal', { type: 'CHAT', payload: msg });
+    send({ type: 'CHAT', payload: msg });
     setNewMessage('');
   };
 
+  const handleSendReport = async (report: ReportData) => {
+    const pdf = await generateReportPDF(report);
+    downloadPDF(pdf, `report-${report.accessionNumber}.pdf`);
+  };
+
   const handleEndSession = () => {
-    if (!mainSocketRef.current || !pendingInvite && !roomId) return;
-    if (confirm('Are you sure you want to end this session?')) {
-        // Find requestId (not directly stored in RadDashboard state, but room ID is key)
-        // Since we don't have requestId easily, we'll implement a room-based disconnect
-        // For now, simpler to just disconnect which triggers auto-cleanup on server
-        // OR emit 'end-session-by-room' which we need to implement on server
-        // Let's use the existing 'end-session' but we need requestId.
-        // Actually, tech disconnect triggers cleanup. Rad disconnect does too?
-        // Let's implement 'leave-session' event on server for cleaner exit.
-        mainSocketRef.current.emit('leave-session', { roomId });
+    if (!pendingInvite && !roomId) return;
+    if (confirm(isConsultant ? 'Leave this session?' : 'Are you sure you want to end this session?')) {
+        // The radiologist has no request id; the server resolves the session from the room
+        emit('leave-session', { roomId });
     }
   };
 
@@ -368,6 +401,12 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
         </div>
       </header>
 
+      {protocolError && (
+        <div className="px-4 py-2 bg-red-500/20 border-b border-red-500/40 text-xs text-red-300">
+          {protocolError}
+        </div>
+      )}
+
       {/* Toolbar */}
       <div className="h-10 bg-rology-850 border-b border-rology-700 flex items-center px-4 gap-4">
         <button onClick={toggleVideo}
@@ -393,11 +432,6 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
           {isAudioEnabled ? 'Mic On' : 'Mic Off'}
         </button>
         <div className="w-px h-5 bg-rology-700"></div>
-        <button className="flex items-center gap-2 text-xs text-gray-400 hover:text-white transition-colors">
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" /></svg>
-          Zoom
-        </button>
-        <div className="w-px h-5 bg-rology-700"></div>
         <button 
           onClick={handleEndSession}
           disabled={radStatus !== 'ACTIVE'}
@@ -406,7 +440,7 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
           </svg>
-          End Session
+          {isConsultant ? 'Leave Session' : 'End Session'}
         </button>
       </div>
 
@@ -427,15 +461,29 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
                   <div className="text-xs text-gray-400">
                     <p>Room: <span className="text-white font-mono">{roomId}</span></p>
                     <p>Tech: <span className="text-rology-400">{technicianName}</span></p>
+                    {examContext && (
+                      <ExamContextSummary context={examContext} className="pt-2 mt-2 border-t border-rology-700" />
+                    )}
                   </div>
                 ) : (
-                  <p className="text-xs text-gray-500">
-                    {isAvailable ? 'Waiting for assignments...' : 'Marked as unavailable'}
-                  </p>
+                  <>
+                    <p className="text-xs text-gray-500">
+                      {isAvailable ? 'Waiting for assignments...' : 'Marked as unavailable'}
+                    </p>
+                    {missedInvite && (
+                      <p className="text-xs text-yellow-400 mt-2">
+                        Missed invite from {missedInvite.technicianName} at {new Date(missedInvite.expiredAt).toLocaleTimeString()}
+                      </p>
+                    )}
+                  </>
                 )}
               </div>
             </div>
 
+            {radStatus === 'ACTIVE' && participants.length > 0 && (
+              <ParticipantList participants={participants} selfSocketId={socket?.id} />
+            )}
+
             {/* Local Video Preview */}
             {radStatus === 'ACTIVE' && (
               <div className="mb-4">
@@ -451,18 +499,6 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
               </div>
             )}
 
-            {/* Medical Info - Only in Active */}
-            {radStatus === 'ACTIVE' && (
-              <div className="mb-4 pb-4 border-b border-rology-700">
-                <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">Medical Info</h3>
-                <div className="space-y-2 text-xs">
-                  <div className="flex"><span className="text-gray-500 w-20">Name</span><span className="text-white">Demo Patient</span></div>
-                  <div className="flex"><span className="text-gray-500 w-20">Gender</span><span className="text-white">Male</span></div>
-                  <div className="flex"><span className="text-gray-500 w-20">Admission</span><span className="text-red-400">ER</span></div>
-                </div>
-              </div>
-            )}
-
             {/* Chat Section */}
             <div className="flex-1 flex flex-col min-h-0">
               <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 shrink-0">Chat</h3>
@@ -503,6 +539,15 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
             <div className="flex items-center gap-4">
               <span className="text-rology-400 font-semibold">LIVE ULTRASOUND</span>
               <span className="text-gray-500">Room: {roomId || 'N/A'}</span>
+              {radStatus === 'ACTIVE' && (
+                <ControlHandoff
+                  control={control}
+                  userId={userId}
+                  onRequest={() => emit('request-control')}
+                  onRespond={(requesterId, grant) => emit('respond-to-control-request', { userId: requesterId, grant })}
+                  onRelease={() => emit('release-control')}
+                />
+              )}
             </div>
             <div className="flex items-center gap-4">
               {/* View Mode Toggle */}
@@ -520,35 +565,58 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
                   Video
                 </button>
               </div>
-              {remoteConnected && <span className="text-green-400">● Technician Connected</span>}
+              <button
+                onClick={() => setIsLaserOn(!isLaserOn)}
+                title="Point and draw short strokes over the technician's video and the study; they fade out on the technician's screen"
+                className={`px-3 py-1 text-xs rounded transition-colors ${isLaserOn ? 'bg-red-500 text-white' : 'bg-rology-800 text-gray-400 hover:text-white'}`}
+              >
+                Laser
+              </button>
+              {connectedPeers.length > 0 && (
+                <span className="text-green-400">● {connectedPeers.length} participant{connectedPeers.length > 1 ? 's' : ''} connected</span>
+              )}
               <span className="text-gray-500">{new Date().toLocaleDateString()}</span>
             </div>
           </div>
 
           {/* Display Area */}
-          <div className="flex-1 flex items-center justify-center">
+          <div className="flex-1 flex items-center justify-center relative">
+            {radStatus === 'ACTIVE' && suspendedUntil && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 px-3 py-1 bg-yellow-500/20 border border-yellow-500/40 rounded text-xs text-yellow-400">
+                Technician connection lost. Holding the session until {new Date(suspendedUntil).toLocaleTimeString()}
+              </div>
+            )}
             {radStatus === 'ACTIVE' ? (
               <div className="w-full h-full flex gap-2 p-2">
                 {/* DICOM Study Viewer - Always visible in active session */}
                 <div className={`relative bg-rology-900 rounded-lg overflow-hidden border border-rology-700 ${viewMode === 'study' ? 'flex-1' : 'w-1/3'}`}>
                   <DicomViewer 
-                    urls={DICOM_FILES} 
+                    imageIds={imageIds} 
+                    token={token}
                     className="w-full h-full" 
-                    gain={gain} 
-                    depth={depth}
                     frame={frame}
-                    onFrameChange={(newFrame) => {
+                    cine={cine}
+                    viewport={viewport}
+                    onCineChange={hasControl ? handleCineChange : undefined}
+                    onViewportChange={hasControl ? handleViewportChange : undefined}
+                    measurements={seriesMeasurements}
+                    onMeasure={handleMeasure}
+                    onMeasurementChange={handleMeasurementChange}
+                    onMeasurementRemove={handleMeasurementRemove}
+                    annotations={seriesAnnotations}
+                    onAnnotate={handleAnnotate}
+                    annotationControls={annotationSession}
+                    userId={userId}
+                    telestrationMarks={seriesMarks}
+                    telestrationNow={telestration.now}
+                    onTelestrate={isLaserOn ? (input, atFrame) => handleTelestrate(input, { layer: 'image', seriesInstanceUid: activeSeries?.seriesInstanceUid, frame: atFrame }) : undefined}
+                    onFrameChange={hasControl ? (newFrame) => {
                       setFrame(newFrame);
-                      if (mainSocketRef.current) {
-                        mainSocketRef.current.emit('signal', { 
-                          type: 'SYNC_STATE', 
-                          payload: { frame: newFrame } 
-                        });
-                      }
-                    }}
+                      send({ type: 'SYNC_STATE', payload: { frame: newFrame } });
+                    } : undefined}
                   />
-                  <div className="absolute top-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] text-cyan-400">
-                    ULTRASOUND STUDY
+                  <div className="absolute top-2 left-2">
+                    <SeriesSelector series={series} selected={activeSeries} onSelect={hasControl ? handleSelectSeries : undefined} />
                   </div>
                   {/* Study Controls */}
                   <div className="absolute bottom-2 right-2 bg-black/80 rounded p-2 space-y-2">
@@ -562,9 +630,10 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
                         onChange={(e) => {
                           const newGain = parseInt(e.target.value);
                           setGain(newGain);
-                          mainSocketRef.current?.emit('signal', { type: 'SYNC_STATE', payload: { gain: newGain, depth } });
+                          send({ type: 'SYNC_STATE', payload: { gain: newGain, depth } });
                         }}
-                        className="w-20 h-1 accent-cyan-400"
+                        disabled={!hasControl}
+                        className="w-20 h-1 accent-cyan-400 disabled:opacity-50"
                       />
                       <span className="text-[10px] text-white w-6">{gain}</span>
                     </div>
@@ -578,34 +647,29 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
                         onChange={(e) => {
                           const newDepth = parseInt(e.target.value);
                           setDepth(newDepth);
-                          mainSocketRef.current?.emit('signal', { type: 'SYNC_STATE', payload: { gain, depth: newDepth } });
+                          send({ type: 'SYNC_STATE', payload: { gain, depth: newDepth } });
                         }}
-                        className="w-20 h-1 accent-cyan-400"
+                        disabled={!hasControl}
+                        className="w-20 h-1 accent-cyan-400 disabled:opacity-50"
                       />
                       <span className="text-[10px] text-white w-6">{depth}</span>
                     </div>
                   </div>
                 </div>
                 
-                {/* Video Call - Technician */}
-                <div className={`relative bg-rology-900 rounded-lg overflow-hidden border border-rology-700 ${viewMode === 'video' ? 'flex-1' : 'w-1/3'}`}>
-                  <video ref={remoteVideoRef} autoPlay playsInline className="w-full h-full object-cover" />
-                  {!remoteConnected && (
-                    <div className="absolute inset-0 flex items-center justify-center bg-rology-900">
-                      <div className="text-center">
-                        <div className="animate-pulse w-12 h-12 bg-rology-800 rounded-full flex items-center justify-center mx-auto mb-2">
-                          <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
-                          </svg>
-                        </div>
-                        <p className="text-gray-500 text-xs">Connecting...</p>
-                      </div>
-                    </div>
+                {/* Video Calls - technician and other radiologists */}
+                <RemoteVideoGrid
+                  participants={remoteParticipants}
+                  remoteStreams={remoteStreams}
+                  className={viewMode === 'video' ? 'flex-1' : 'w-1/3'}
+                  renderOverlay={(participant, videoRef) => participant.sessionRole === 'TECHNICIAN' && (
+                    <>
+                      <VideoTelestrationLayer videoRef={videoRef} marks={videoMarks} now={telestration.now}
+                        onInput={isLaserOn ? (input) => handleTelestrate(input, { layer: 'video' }) : undefined} />
+                      <VideoAnnotationLayer videoRef={videoRef} annotations={videoAnnotations} onAnnotate={handleAnnotate} controls={annotationSession} userId={userId} />
+                    </>
                   )}
-                  <div className="absolute bottom-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] text-white">
-                    {technicianName || 'Technician'}
-                  </div>
-                </div>
+                />
               </div>
             ) : (
               <div className="text-center">
@@ -637,7 +701,8 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
               Old Studies
             </button>
-            <button className="w-full flex items-center gap-2 p-2 bg-rology-800 hover:bg-rology-700 rounded text-xs text-gray-400 transition-colors">
+            <button onClick={() => setShowReportForm(true)} disabled={radStatus !== 'ACTIVE'}
+              className="w-full flex items-center gap-2 p-2 bg-rology-800 hover:bg-rology-700 disabled:hover:bg-rology-800 disabled:text-gray-600 rounded text-xs text-gray-400 transition-colors">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
               Report
             </button>
@@ -645,6 +710,15 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
         </div>
       </div>
 
+      {showReportForm && (
+        <ReportFormModal
+          examContext={examContext || undefined}
+          measurements={measurements}
+          onClose={() => setShowReportForm(false)}
+          onSendReport={handleSendReport}
+        />
+      )}
+
       {/* Room Invite Modal */}
       {pendingInvite && !showRejectModal && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
@@ -655,13 +729,34 @@ const RadDashboard: React.FC<RadDashboardProps> = ({ userId, userName, onLeave }
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
                 </svg>
               </div>
-              <h3 className="text-lg font-bold text-white">Session Invitation</h3>
-              <p className="text-gray-400 text-sm mt-1">You've been assigned to a session</p>
+              <h3 className="text-lg font-bold text-white">
+                {pendingInvite.sessionRole === 'CONSULTANT' ? 'Consult Invitation' : 'Session Invitation'}
+              </h3>
+              <p className="text-gray-400 text-sm mt-1">
+                {pendingInvite.sessionRole === 'CONSULTANT'
+                  ? "You've been asked to consult on a session in progress"
+                  : "You've been assigned to a session"}
+              </p>
             </div>
             
             <div className="p-4 bg-rology-850 rounded border border-rology-700 mb-6 space-y-2 text-sm">
               <div><span className="text-gray-400">Technician:</span> <span className="text-white ml-2">{pendingInvite.technicianName}</span></div>
               <div><span className="text-gray-400">Room:</span> <span className="text-white font-mono ml-2">{pendingInvite.roomId}</span></div>
+              {pendingInvite.examType && (
+                <div><span className="text-gray-400">Exam:</span> <span className="text-white ml-2">{EXAM_TYPE_LABELS[pendingInvite.examType]}</span></div>
+              )}
+              {pendingInvite.examContext && (
+                <div className="flex">
+                  <span className="text-gray-400">Patient:</span>
+                  <ExamContextSummary context={pendingInvite.examContext} className="ml-2" />
+                </div>
+              )}
+              {pendingInvite.notes && (
+                <div><span className="text-gray-400">Notes:</span> <span className="text-white ml-2 whitespace-pre-wrap">{pendingInvite.notes}</span></div>
+              )}
+              {pendingInvite.expiresAt && (
+                <div><span className="text-gray-400">Respond by:</span> <span className="text-yellow-400 ml-2">{new Date(pendingInvite.expiresAt).toLocaleTimeString()}</span></div>
+              )}
             </div>
             
             <div className="flex gap-3">
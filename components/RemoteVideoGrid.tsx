@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import { RoomParticipant } from '../types';
+import { SESSION_ROLE_LABELS } from './ParticipantList';
+
+interface RemoteVideoGridProps {
+  // Everyone else in the room
+  participants: RoomParticipant[];
+  remoteStreams: Record<string, MediaStream>;
+  className?: string;
+  // Drawn over a participant's video, e.g. the annotations over the technician's
+  renderOverlay?: (participant: RoomParticipant, videoRef: React.RefObject<HTMLVideoElement>) => React.ReactNode;
+}
+
+const RemoteVideo: React.FC<{ participant: RoomParticipant; stream?: MediaStream; renderOverlay?: RemoteVideoGridProps['renderOverlay'] }> = ({ participant, stream, renderOverlay }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream ?? null;
+  }, [stream]);
+
+  return (
+    <div className="relative bg-rology-900 rounded-lg overflow-hidden border border-rology-700 min-h-0">
+      <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />
+      {stream && renderOverlay?.(participant, videoRef)}
+      {!stream && (
+        <div className="absolute inset-0 flex items-center justify-center bg-rology-900">
+          <div className="text-center">
+            <div className="animate-pulse w-12 h-12 bg-rology-800 rounded-full flex items-center justify-center mx-auto mb-2">
+              <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+              </svg>
+            </div>
+            <p className="text-gray-500 text-xs">Connecting...</p>
+          </div>
+        </div>
+      )}
+      <div className="absolute bottom-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] text-white">
+        {participant.name} · {SESSION_ROLE_LABELS[participant.sessionRole]}
+      </div>
+    </div>
+  );
+};
+
+// One tile per remote participant; tiles stack as more people join
+const RemoteVideoGrid: React.FC<RemoteVideoGridProps> = ({ participants, remoteStreams, className = '', renderOverlay }) => {
+  if (participants.length === 0) {
+    return (
+      <div className={`relative bg-rology-900 rounded-lg border border-rology-700 flex items-center justify-center ${className}`}>
+        <p className="text-gray-500 text-xs">Waiting for participants...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`grid gap-2 auto-rows-fr ${participants.length > 2 ? 'grid-cols-2' : 'grid-cols-1'} ${className}`}>
+      {participants.map(participant => (
+        <RemoteVideo key={participant.socketId} participant={participant} stream={remoteStreams[participant.socketId]} renderOverlay={renderOverlay} />
+      ))}
+    </div>
+  );
+};
+
+export default RemoteVideoGrid;
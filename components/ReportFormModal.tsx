@@ -1,24 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import html2canvas from 'html2canvas';
 import { generateReportPDF, ReportData } from '../utils/pdfGenerator';
+import { ExamContext, Measurement } from '../types';
+import { formatMeasurementsForReport } from '../utils/measurements';
+import { formatPatientDemographics } from './ExamContextSummary';
 
 interface ReportFormModalProps {
     onClose: () => void;
     onSendReport: (reportData: ReportData) => void;
     ultrasoundCanvasRef?: React.RefObject<HTMLCanvasElement>;
+    // Patient and order details of the session being reported
+    examContext?: ExamContext;
+    // Calibrated measurements taken in the study viewer, in the order they were taken
+    measurements?: Measurement[];
 }
 
-const ReportFormModal: React.FC<ReportFormModalProps> = ({ onClose, onSendReport, ultrasoundCanvasRef }) => {
+const ReportFormModal: React.FC<ReportFormModalProps> = ({ onClose, onSendReport, ultrasoundCanvasRef, examContext, measurements: takenMeasurements = [] }) => {
     const [isGenerating, setIsGenerating] = useState(false);
     const [isSending, setIsSending] = useState(false);
 
-    const [title, setTitle] = useState('Transthoracic Echocardiogram');
+    const [title, setTitle] = useState(examContext?.procedureDescription || 'Transthoracic Echocardiogram');
     const [findings, setFindings] = useState('');
-    const [measurements, setMeasurements] = useState('');
+    const [measurements, setMeasurements] = useState(() => formatMeasurementsForReport(takenMeasurements));
     const [conclusion, setConclusion] = useState('');
 
     const date = new Date().toLocaleDateString();
-    const accessionNumber = `#${Math.floor(Math.random() * 9000000) + 1000000}`;
+    const accessionNumber = examContext?.accessionNumber || 'N/A';
 
     // Simulate AI report generation
     const generateAIReport = async () => {
@@ -30,9 +37,12 @@ const ReportFormModal: React.FC<ReportFormModalProps> = ({ onClose, onSendReport
         setFindings(
             'Left ventricle is normal in size. Wall thickness is normal. Global systolic function is preserved with estimated LVEF 60-65%. No regional wall motion abnormalities detected. Right ventricle is normal in size and function. Both atria are normal. No pericardial effusion.'
         );
-        setMeasurements(
-            '• LVIDd: 4.6 cm\n• LVIDs: 3.0 cm\n• IVSd: 0.9 cm\n• LVPWd: 0.9 cm\n• LA Vol Index: 28 ml/m²\n• Ao Root: 3.1 cm\n• LVEF: 62%'
-        );
+        // Measurements taken in the viewer are kept
+        if (takenMeasurements.length === 0) {
+            setMeasurements(
+                '• LVIDd: 4.6 cm\n• LVIDs: 3.0 cm\n• IVSd: 0.9 cm\n• LVPWd: 0.9 cm\n• LA Vol Index: 28 ml/m²\n• Ao Root: 3.1 cm\n• LVEF: 62%'
+            );
+        }
         setConclusion(
             'Normal LV systolic function. No significant valvular disease. Normal cardiac chamber sizes.'
         );
@@ -70,6 +80,7 @@ const ReportFormModal: React.FC<ReportFormModalProps> = ({ onClose, onSendReport
                 title,
                 date,
                 accessionNumber,
+                examContext,
                 findings,
                 measurements,
                 conclusion,
@@ -117,6 +128,17 @@ const ReportFormModal: React.FC<ReportFormModalProps> = ({ onClose, onSendReport
                                 placeholder="Report Title"
                             />
                             <p className="text-slate-500 text-sm mt-1">Date: {date} | Acc: {accessionNumber}</p>
+                            {examContext && (
+                                <div className="text-slate-600 text-sm mt-1">
+                                    <p>
+                                        <span className="font-semibold">{examContext.patientName}</span>
+                                        <span className="font-mono ml-2">{examContext.patientId}</span>
+                                        {formatPatientDemographics(examContext) && <span className="ml-2">· {formatPatientDemographics(examContext)}</span>}
+                                    </p>
+                                    {examContext.referringPhysician && <p>Referring: {examContext.referringPhysician}</p>}
+                                    {examContext.indication && <p className="italic">Indication: {examContext.indication}</p>}
+                                </div>
+                            )}
                         </div>
                         <button
                             onClick={generateAIReport}
@@ -1,9 +1,16 @@
 import React, { useState, useRef } from 'react';
 import { ReportData } from '../utils/pdfGenerator';
+import { ExamContext, Measurement } from '../types';
+import { formatMeasurementsForReport } from '../utils/measurements';
+import { formatPatientDemographics } from './ExamContextSummary';
 
 interface ReportSidebarProps {
     onClose: () => void;
     onSendReport: (reportData: ReportData) => void;
+    // Patient and order details of the session being reported
+    examContext?: ExamContext;
+    // Calibrated measurements taken in the study viewer, in the order they were taken
+    measurements?: Measurement[];
 }
 
 interface AdvancedTextAreaProps {
@@ -120,17 +127,17 @@ const AdvancedTextArea: React.FC<AdvancedTextAreaProps> = ({ label, value, onCha
     );
 };
 
-const ReportSidebar: React.FC<ReportSidebarProps> = ({ onClose, onSendReport }) => {
+const ReportSidebar: React.FC<ReportSidebarProps> = ({ onClose, onSendReport, examContext, measurements: takenMeasurements = [] }) => {
     const [isGenerating, setIsGenerating] = useState(false);
     const [isSending, setIsSending] = useState(false);
 
-    const [title, setTitle] = useState('Transthoracic Echocardiogram');
+    const [title, setTitle] = useState(examContext?.procedureDescription || 'Transthoracic Echocardiogram');
     const [findings, setFindings] = useState('');
-    const [measurements, setMeasurements] = useState('');
+    const [measurements, setMeasurements] = useState(() => formatMeasurementsForReport(takenMeasurements));
     const [conclusion, setConclusion] = useState('');
 
     const date = new Date().toLocaleDateString();
-    const accessionNumber = `#${Math.floor(Math.random() * 9000000) + 1000000}`;
+    const accessionNumber = examContext?.accessionNumber || 'N/A';
 
     const generateAIReport = async () => {
         setIsGenerating(true);
@@ -139,9 +146,12 @@ const ReportSidebar: React.FC<ReportSidebarProps> = ({ onClose, onSendReport })
         setFindings(
             'Left ventricle is normal in size. Wall thickness is normal. Global systolic function is preserved with estimated LVEF 60-65%. No regional wall motion abnormalities. Right ventricle normal. No pericardial effusion.'
         );
-        setMeasurements(
-            '• LVIDd: 4.6 cm\n• LVIDs: 3.0 cm\n• IVSd: 0.9 cm\n• LVPWd: 0.9 cm\n• LA Vol Index: 28 ml/m²\n• LVEF: 62%'
-        );
+        // Measurements taken in the viewer are kept
+        if (takenMeasurements.length === 0) {
+            setMeasurements(
+                '• LVIDd: 4.6 cm\n• LVIDs: 3.0 cm\n• IVSd: 0.9 cm\n• LVPWd: 0.9 cm\n• LA Vol Index: 28 ml/m²\n• LVEF: 62%'
+            );
+        }
         setConclusion('Normal LV systolic function. No significant valvular disease.');
         setIsGenerating(false);
     };
@@ -167,6 +177,7 @@ const ReportSidebar: React.FC<ReportSidebarProps> = ({ onClose, onSendReport })
             title,
             date,
             accessionNumber,
+            examContext,
             findings,
             measurements,
             conclusion,
@@ -218,6 +229,16 @@ const ReportSidebar: React.FC<ReportSidebarProps> = ({ onClose, onSendReport })
                 </div>
 
                 <p className="text-slate-500 text-xs">{date} | Acc: {accessionNumber}</p>
+                {examContext && (
+                    <div className="text-slate-400 text-xs space-y-0.5">
+                        <p>
+                            <span className="text-white">{examContext.patientName}</span>
+                            <span className="font-mono ml-2">{examContext.patientId}</span>
+                        </p>
+                        {formatPatientDemographics(examContext) && <p>{formatPatientDemographics(examContext)}</p>}
+                        {examContext.indication && <p className="italic">{examContext.indication}</p>}
+                    </div>
+                )}
 
                 {/* Advanced Text Areas */}
                 <AdvancedTextArea
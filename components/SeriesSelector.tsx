@@ -0,0 +1,69 @@
+import React, { useRef } from 'react';
+import { DicomSeries } from '../types';
+
+interface SeriesSelectorProps {
+  series: DicomSeries[];
+  selected: DicomSeries;
+  // Omit for viewers that follow the room's selection
+  onSelect?: (series: DicomSeries) => void;
+  // Omit where the user cannot upload (everyone but the technician, and the offline demo)
+  onUpload?: (files: File[]) => void;
+  isUploading?: boolean;
+  uploadError?: string | null;
+}
+
+// "US · Carotid long axis · 96 frames"
+const describeSeries = (series: DicomSeries, index: number) => {
+  const frames = series.instances.reduce((total, instance) => total + instance.numberOfFrames, 0);
+  return [
+    series.modality,
+    series.seriesDescription || series.studyDescription || `Series ${index + 1}`,
+    `${frames} frame${frames === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * Series shown in the study viewer. Everyone in the room sees the same series;
+ * the technician adds series by uploading DICOM files.
+ */
+const SeriesSelector: React.FC<SeriesSelectorProps> = ({ series, selected, onSelect, onUpload, isUploading, uploadError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Until a study is uploaded the viewer shows the bundled sample series
+  const options = series.includes(selected) ? series : [selected, ...series];
+
+  return (
+    <div className="bg-black/70 rounded px-2 py-1 text-[10px] space-y-1 max-w-xs">
+      <div className="flex items-center gap-2">
+        <span className="text-cyan-400 shrink-0">STUDY</span>
+        {onSelect && options.length > 1 ? (
+          <select value={selected.seriesInstanceUid}
+            onChange={(e) => onSelect(options.find(s => s.seriesInstanceUid === e.target.value))}
+            className="min-w-0 flex-1 bg-rology-800 border border-rology-700 rounded text-white px-1 py-0.5 focus:outline-none">
+            {options.map((s, i) => (
+              <option key={s.seriesInstanceUid} value={s.seriesInstanceUid}>{describeSeries(s, i)}</option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-white truncate">{describeSeries(selected, options.indexOf(selected))}</span>
+        )}
+        {onUpload && (
+          <>
+            <button onClick={() => fileInputRef.current?.click()} disabled={isUploading}
+              className="px-2 py-0.5 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white rounded shrink-0 transition-colors">
+              {isUploading ? 'Uploading...' : 'Upload'}
+            </button>
+            <input ref={fileInputRef} type="file" multiple accept=".dcm,.DCM,application/dicom" className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                if (files.length > 0) onUpload(files);
+              }} />
+          </>
+        )}
+      </div>
+      {uploadError && <p className="text-red-400">{uploadError}</p>}
+    </div>
+  );
+};
+
+export default SeriesSelector;
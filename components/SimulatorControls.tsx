@@ -0,0 +1,65 @@
+import React from 'react';
+import { ExamType } from '../types';
+import { SIMULATOR_PRESETS, SimulatorSettings, TGC_RANGE_DB, getDefaultSettings } from '../utils/ultrasoundSimulator';
+
+interface SimulatorControlsProps {
+  settings: SimulatorSettings;
+  onChange: (settings: SimulatorSettings) => void;
+  // Shared imaging depth, the deepest the focus can go
+  depth: number;
+  frozen: boolean;
+  onFreezeChange: (frozen: boolean) => void;
+  playingClip: boolean;
+  // Omit when the series on screen is not a clip
+  onPlayingClipChange?: (playing: boolean) => void;
+}
+
+const buttonClass = (active: boolean) =>
+  `px-2 py-0.5 rounded transition-colors disabled:opacity-40 ${active ? 'bg-rology-500 text-white' : 'bg-rology-800 hover:bg-rology-700 text-gray-300'}`;
+
+/**
+ * Probe preset, focal zone and time-gain compensation of the simulator, and
+ * switching between the phantom and playback of the clip on screen. Gain and
+ * depth are the room's shared controls.
+ */
+const SimulatorControls: React.FC<SimulatorControlsProps> = ({ settings, onChange, depth, frozen, onFreezeChange, playingClip, onPlayingClipChange }) => (
+  <div className="bg-black/70 rounded p-2 text-[10px] space-y-2 w-48">
+    <select title="Probe and phantom" value={settings.preset}
+      onChange={(e) => onChange(getDefaultSettings(e.target.value as ExamType))}
+      disabled={playingClip}
+      className="w-full bg-rology-800 border border-rology-700 rounded text-white px-1 py-0.5 focus:outline-none disabled:opacity-40">
+      {Object.entries(SIMULATOR_PRESETS).map(([examType, preset]) => (
+        <option key={examType} value={examType}>{preset.label}</option>
+      ))}
+    </select>
+    <div className="flex items-center gap-2">
+      <label className="text-gray-400 w-10">Focus</label>
+      <input type="range" min="0.5" max={depth} step="0.5" value={Math.min(settings.focus, depth)}
+        onChange={(e) => onChange({ ...settings, focus: Number(e.target.value) })}
+        disabled={playingClip}
+        className="flex-1 h-1 accent-cyan-400 disabled:opacity-50" />
+      <span className="text-white w-8">{Math.min(settings.focus, depth)}cm</span>
+    </div>
+    <div>
+      <div className="flex items-center justify-between text-gray-400 mb-1">
+        <span>TGC (shallow → deep)</span>
+        <button title="Reset TGC" onClick={() => onChange({ ...settings, tgc: settings.tgc.map(() => 0) })} className="hover:text-white">Reset</button>
+      </div>
+      {settings.tgc.map((db, band) => (
+        <input key={band} type="range" min={-TGC_RANGE_DB} max={TGC_RANGE_DB} value={db}
+          title={`Band ${band + 1}: ${db > 0 ? '+' : ''}${db} dB`}
+          onChange={(e) => onChange({ ...settings, tgc: settings.tgc.map((v, i) => i === band ? Number(e.target.value) : v) })}
+          className="block w-full h-1 my-1 accent-cyan-400" />
+      ))}
+    </div>
+    <div className="flex items-center gap-1">
+      <button onClick={() => onFreezeChange(!frozen)} className={buttonClass(frozen)}>Freeze</button>
+      <button title="Play the series on screen back as the probe feed" onClick={() => onPlayingClipChange?.(!playingClip)}
+        disabled={!onPlayingClipChange} className={buttonClass(playingClip)}>
+        Clip
+      </button>
+    </div>
+  </div>
+);
+
+export default SimulatorControls;
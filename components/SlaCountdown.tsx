@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+
+interface SlaCountdownProps {
+  createdAt: number;
+  dueAt: number;
+  className?: string;
+}
+
+// m:ss, or h:mm:ss from an hour up
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/**
+ * Live wait time of a session request and the time left on its SLA.
+ * Turns yellow in the last minute and red once the deadline has passed.
+ */
+const SlaCountdown: React.FC<SlaCountdownProps> = ({ createdAt, dueAt, className = '' }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = dueAt - now;
+  const color = remaining < 0 ? 'text-red-400' : remaining < 60 * 1000 ? 'text-yellow-400' : 'text-gray-400';
+
+  return (
+    <span className={`font-mono ${color} ${className}`}>
+      Waiting {formatDuration(now - createdAt)} · {remaining < 0 ? `SLA missed by ${formatDuration(-remaining)}` : `${formatDuration(remaining)} left`}
+    </span>
+  );
+};
+
+export default SlaCountdown;
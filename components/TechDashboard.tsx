@@ -1,22 +1,50 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { io, Socket } from 'socket.io-client';
-import { UserRole, ChatMessage, SessionRequest } from '../types';
-import DicomViewer from './DicomViewer';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { UserRole, ChatMessage, SessionRequest, ExamType, ExamContextInput, Priority, WorklistEntry, DicomSeries, CineState, StudyViewport, Measurement, ScannerControl, EXAM_TYPE_LABELS, PRIORITY_LABELS } from '../types';
+import { useRologySession } from '../hooks/useRologySession';
+import { useWebRTCVideo } from '../hooks/useWebRTCVideo';
+import { canUploadStudies, getImageIds, pickSeries, uploadInstances } from '../services/studies';
+import DicomViewer, { DEFAULT_CINE } from './DicomViewer';
+import { DEFAULT_VIEWPORT } from '../utils/viewport';
+import { MeasurementDraft, saveMeasurement } from '../utils/measurements';
+import { AnnotationDraft } from '../utils/annotations';
+import { useAnnotations } from '../hooks/useAnnotations';
+import VideoAnnotationLayer from './VideoAnnotationLayer';
+import VideoTelestrationLayer from './VideoTelestrationLayer';
+import { useTelestration } from '../hooks/useTelestration';
+import { isTelestrationMessage } from '../utils/telestration';
+import SeriesSelector from './SeriesSelector';
+import UltrasoundCanvas from './UltrasoundCanvas';
+import SimulatorControls from './SimulatorControls';
+import { SimulatorSettings, getDefaultSettings } from '../utils/ultrasoundSimulator';
+import ExamContextForm, { EMPTY_EXAM_CONTEXT, isExamContextComplete } from './ExamContextForm';
+import ExamContextSummary from './ExamContextSummary';
+import WorklistPanel from './WorklistPanel';
+import ParticipantList from './ParticipantList';
+import ControlHandoff from './ControlHandoff';
+import RemoteVideoGrid from './RemoteVideoGrid';
 
 interface TechDashboardProps {
   userId: string;
   userName: string;
+  token: string;
   onLeave: () => void;
 }
 
 type SessionStatus = 'IDLE' | 'PENDING' | 'ASSIGNED' | 'ACTIVE';
 
-const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave }) => {
+const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, token, onLeave }) => {
   const [sessionStatus, setSessionStatus] = useState<SessionStatus>('IDLE');
   const [currentRequest, setCurrentRequest] = useState<SessionRequest | null>(null);
   const [roomId, setRoomId] = useState<string>('');
-  const [isServerConnected, setIsServerConnected] = useState(false);
-  const mainSocketRef = useRef<Socket | null>(null);
+  const [examType, setExamType] = useState<ExamType>('GENERAL');
+  const [priority, setPriority] = useState<Priority>('ROUTINE');
+  const [examContext, setExamContext] = useState<ExamContextInput>(EMPTY_EXAM_CONTEXT);
+  // Start from a scheduled exam, or type the patient details in for walk-ins
+  const [requestSource, setRequestSource] = useState<'worklist' | 'manual'>('worklist');
+  // Edits to a request that is waiting for its radiologist
+  const [draftNotes, setDraftNotes] = useState('');
+  const [draftExamType, setDraftExamType] = useState<ExamType>('GENERAL');
+  const [draftExamContext, setDraftExamContext] = useState<ExamContextInput>(EMPTY_EXAM_CONTEXT);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   
@@ -25,83 +53,98 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
   const [isResizing, setIsResizing] = useState(false);
 
   // View mode - video or study
-  const [viewMode, setViewMode] = useState<'video' | 'study'>('study');
+  const [viewMode, setViewMode] = useState<'video' | 'study' | 'probe'>('study');
+
+  // Simulated probe feed for training and demos, seen by the technician only
+  const [simulatorSettings, setSimulatorSettings] = useState<SimulatorSettings>(getDefaultSettings('GENERAL'));
+  const [isProbeFrozen, setIsProbeFrozen] = useState(false);
+  const [isPlayingClip, setIsPlayingClip] = useState(false);
 
   // Study controls - synced between tech and rad
   const [gain, setGain] = useState(50);
   const [depth, setDepth] = useState(15);
   const [frame, setFrame] = useState(0);
-
-  const DICOM_FILES = Array.from({ length: 9 }, (_, i) => 
-    `/dicom_viewer_0002/IMG-0001-${String(i + 1).padStart(5, '0')}.dcm`
-  );
+  const [cine, setCine] = useState<CineState>(DEFAULT_CINE);
+  const [viewport, setViewport] = useState<StudyViewport>(DEFAULT_VIEWPORT);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  // Only the holder of the study controls may change them; we hold them until handing them over
+  const [control, setControl] = useState<ScannerControl | null>(null);
+  const hasControl = control?.holderId === userId;
+
+  // Series uploaded to the session and the one everyone in the room is looking at
+  const [series, setSeries] = useState<DicomSeries[]>([]);
+  const [selectedSeriesUid, setSelectedSeriesUid] = useState<string | undefined>();
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const activeSeries = pickSeries(series, selectedSeriesUid);
+  const imageIds = useMemo(() => getImageIds(roomId, activeSeries), [roomId, activeSeries]);
+  const seriesMeasurements = measurements.filter(m => m.seriesInstanceUid === activeSeries?.seriesInstanceUid);
 
   // WebRTC
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
   const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const localStreamRef = useRef<MediaStream | null>(null);
   const [isVideoEnabled, setIsVideoEnabled] = useState(true);
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
-  const [remoteConnected, setRemoteConnected] = useState(false);
-
-  // ICE servers configuration
-  const iceServers = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' }
-    ]
-  };
-
-  useEffect(() => {
-    const defaultServerUrl = `http://${window.location.hostname}:3001`;
-    const serverUrl = import.meta.env.VITE_SIGNALING_SERVER || defaultServerUrl;
-    
-    mainSocketRef.current = io(serverUrl, {
-      reconnection: true,
-      reconnectionAttempts: 10,
-      reconnectionDelay: 1000,
-    });
 
-    const socket = mainSocketRef.current;
-
-    socket.on('connect', () => {
-      setIsServerConnected(true);
-      socket.emit('register', { userId, userName, role: 'TECH' });
-    });
-
-    socket.on('disconnect', () => setIsServerConnected(false));
-
-    socket.on('signal', (event: any) => {
+  const { socket, isConnected: isServerConnected, protocolError, participants, joinRoom, send, emit } = useRologySession({
+    token,
+    onUnauthorized: onLeave,
+    // Chat history and study controls kept by the server, replayed on every (re)join
+    onRoomInfo: (info) => {
+      setMessages(info.messages || []);
+      setSeries(info.series || []);
+      setSelectedSeriesUid(info.sync?.seriesInstanceUid);
+      if (info.sync?.gain !== undefined) setGain(info.sync.gain);
+      if (info.sync?.depth !== undefined) setDepth(info.sync.depth);
+      if (info.sync?.frame !== undefined) setFrame(info.sync.frame);
+      if (info.sync?.cine) setCine(info.sync.cine);
+      if (info.sync?.viewport) setViewport(info.sync.viewport);
+      setMeasurements(info.measurements || []);
+      setControl(info.control || null);
+      annotationSession.load(info.annotations || []);
+      // Whoever joins calls everyone already in the room; this also replaces stale calls after a reconnect
+      startVideo(info.users.map(u => u.socketId).filter(id => id !== socket?.id));
+    },
+    onSignal: (event) => {
       if (event.type === 'SESSION_REQUEST') {
         setCurrentRequest(event.payload);
         setSessionStatus('PENDING');
+        setDraftNotes(event.payload.notes || '');
+        setDraftExamType(event.payload.examType || 'GENERAL');
+        setDraftExamContext(event.payload.examContext || EMPTY_EXAM_CONTEXT);
       }
       if (event.type === 'SESSION_ASSIGNED') {
         setCurrentRequest(event.payload);
+        setSimulatorSettings(getDefaultSettings(event.payload.examType || 'GENERAL'));
         setSessionStatus('ASSIGNED');
         setRoomId(event.payload.roomId);
+        setDraftNotes(event.payload.notes || '');
+        setDraftExamType(event.payload.examType || 'GENERAL');
+        setDraftExamContext(event.payload.examContext || EMPTY_EXAM_CONTEXT);
       }
       if (event.type === 'ROOM_ACCEPTED') {
         setSessionStatus('ACTIVE');
         // Join the socket room for messaging - use roomId from event payload
         const sessionRoomId = event.payload.roomId || currentRequest?.roomId;
-        if (mainSocketRef.current && sessionRoomId) {
-          mainSocketRef.current.emit('join', { roomId: sessionRoomId, role: 'TECH' });
-        }
-        // Start WebRTC as initiator (technician initiates)
-        startWebRTC(true);
+        if (sessionRoomId) joinRoom(sessionRoomId);
+      }
+      // The participant's socket is gone; they call again when they rejoin
+      if (event.type === 'LEAVE') {
+        closePeer(event.payload.socketId);
       }
       if (event.type === 'SESSION_ENDED') {
         // Session was ended by admin or radiologist left
-        cleanupWebRTC();
+        stopVideo();
         setSessionStatus('IDLE');
         setCurrentRequest(null);
         setRoomId('');
         setMessages([]);
-        setRemoteConnected(false);
-        setMessages([]);
-        setRemoteConnected(false);
+        setSeries([]);
+        setSelectedSeriesUid(undefined);
+        setMeasurements([]);
+        setControl(null);
+        annotationSession.load([]);
+        telestration.clear();
+        setUploadError(null);
         console.log('Session ended:', event.payload.reason);
       }
       if (event.type === 'CHAT') {
@@ -112,24 +155,56 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
         if (event.payload.gain !== undefined) setGain(event.payload.gain);
         if (event.payload.depth !== undefined) setDepth(event.payload.depth);
         if (event.payload.frame !== undefined) setFrame(event.payload.frame);
+        if (event.payload.cine) setCine(event.payload.cine);
+        if (event.payload.viewport) setViewport(event.payload.viewport);
+        if (event.payload.seriesInstanceUid !== undefined) setSelectedSeriesUid(event.payload.seriesInstanceUid);
       }
-      // WebRTC signaling
-      if (event.type === 'OFFER') {
-        handleOffer(event.payload);
+      if (event.type === 'CONTROL_UPDATE') {
+        setControl(event.payload);
       }
-      if (event.type === 'ANSWER') {
-        handleAnswer(event.payload);
+      if (event.type === 'MEASUREMENT_SAVED') {
+        setMeasurements(prev => saveMeasurement(prev, event.payload));
       }
-      if (event.type === 'ICE_CANDIDATE') {
-        handleIceCandidate(event.payload);
+      if (event.type === 'MEASUREMENT_REMOVED') {
+        setMeasurements(prev => prev.filter(m => m.id !== event.payload.id));
       }
-    });
-
-    return () => { 
-      socket.disconnect(); 
-      cleanupWebRTC();
-    };
-  }, [userId, userName]);
+      // Annotations drawn, undone or cleared by others
+      annotationSession.receive(event);
+      if (event.type === 'STUDIES_UPDATED') {
+        setSeries(event.payload.series);
+      }
+    },
+  });
+
+  // Annotations on the study and the technician's video, with this user's undo history
+  const annotationSession = useAnnotations({ userId, userName, send });
+  const seriesAnnotations = annotationSession.annotations.filter(a => a.layer === 'image' && a.seriesInstanceUid === activeSeries?.seriesInstanceUid);
+  const videoAnnotations = annotationSession.annotations.filter(a => a.layer === 'video');
+
+  // The radiologist's laser pointer, streamed over the calls' data channels
+  const telestration = useTelestration();
+  const seriesMarks = telestration.marks.filter(m => m.surface.layer === 'image' && m.surface.seriesInstanceUid === activeSeries?.seriesInstanceUid);
+  const videoMarks = telestration.marks.filter(m => m.surface.layer === 'video');
+
+  const { remoteStreams, connectedPeers, startVideo, closePeer, stopVideo, localStream } = useWebRTCVideo({
+    socket,
+    isConnected: isServerConnected,
+    localVideoRef,
+    role: 'TECH',
+    // The radiologists' laser pointer; observers call in too, but may not point
+    onData: (peerId, data) => {
+      const sender = participants.find(p => p.socketId === peerId);
+      const isRadiologist = sender?.sessionRole === 'PRIMARY' || sender?.sessionRole === 'CONSULTANT';
+      if (isRadiologist && isTelestrationMessage(data)) telestration.receive(peerId, data);
+    },
+  });
+  // Observers only watch, so they get no video tile
+  const remoteParticipants = participants.filter(p => p.socketId !== socket?.id && p.sessionRole !== 'OBSERVER');
+
+  // The preview element only mounts once the session is active
+  useEffect(() => {
+    if (localVideoRef.current) localVideoRef.current.srcObject = localStream;
+  }, [localStream, sessionStatus]);
 
   // Handle sidebar resize
   useEffect(() => {
@@ -152,147 +227,122 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
     };
   }, [isResizing]);
 
-  // WebRTC Functions
-  const startWebRTC = async (isInitiator: boolean) => {
-    try {
-      // Get local media
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
-      localStreamRef.current = stream;
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
+  const toggleVideo = () => {
+    if (localStream) {
+      const videoTrack = localStream.getVideoTracks()[0];
+      if (videoTrack) {
+        videoTrack.enabled = !videoTrack.enabled;
+        setIsVideoEnabled(videoTrack.enabled);
       }
+    }
+  };
 
-      // Create peer connection
-      const pc = new RTCPeerConnection(iceServers);
-      peerConnectionRef.current = pc;
-
-      // Add local tracks
-      stream.getTracks().forEach(track => {
-        pc.addTrack(track, stream);
-      });
-
-      // Handle remote stream
-      // Handle remote stream
-      pc.ontrack = (event) => {
-        console.log(`[WebRTC] Received remote track: ${event.track.kind}`);
-        if (remoteVideoRef.current && event.streams[0]) {
-          remoteVideoRef.current.srcObject = event.streams[0];
-          remoteVideoRef.current.muted = false; // Ensure not muted
-          remoteVideoRef.current.play().catch(e => console.error('Error playing remote video:', e));
-          setRemoteConnected(true);
-        }
-      };
-
-      // Handle ICE candidates
-      pc.onicecandidate = (event) => {
-        if (event.candidate && mainSocketRef.current) {
-          mainSocketRef.current.emit('signal', {
-            type: 'ICE_CANDIDATE',
-            payload: event.candidate
-          });
-        }
-      };
-
-      pc.onconnectionstatechange = () => {
-        if (pc.connectionState === 'connected') {
-          setRemoteConnected(true);
-        } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
-          setRemoteConnected(false);
-        }
-      };
-
-      // If initiator, create and send offer
-      if (isInitiator) {
-        const offer = await pc.createOffer();
-        await pc.setLocalDescription(offer);
-        mainSocketRef.current?.emit('signal', {
-          type: 'OFFER',
-          payload: offer
-        });
-      }
-    } catch (error: any) {
-      console.error('Error starting WebRTC:', error);
-      if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-        alert('Camera access denied. Please allow camera access in your browser settings.');
-      } else if (window.location.protocol === 'http:' && window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
-        alert('Camera access blocked! Browsers block camera on http:// (remote IP). Please check the instructions provided or use localhost.');
-      } else {
-        alert(`Camera error: ${error.message || 'Could not access camera'}`);
+  const toggleAudio = () => {
+    if (localStream) {
+      const audioTrack = localStream.getAudioTracks()[0];
+      if (audioTrack) {
+        audioTrack.enabled = !audioTrack.enabled;
+        setIsAudioEnabled(audioTrack.enabled);
       }
     }
   };
 
-  const handleOffer = async (offer: RTCSessionDescriptionInit) => {
-    if (!peerConnectionRef.current) {
-      await startWebRTC(false);
-    }
-    const pc = peerConnectionRef.current;
-    if (!pc) return;
-
-    await pc.setRemoteDescription(new RTCSessionDescription(offer));
-    const answer = await pc.createAnswer();
-    await pc.setLocalDescription(answer);
-    mainSocketRef.current?.emit('signal', {
-      type: 'ANSWER',
-      payload: answer
+  const handleRequestSession = () => {
+    emit('create-session-request', { examType, priority, examContext });
+    // The next patient starts from a blank form
+    setExamContext(EMPTY_EXAM_CONTEXT);
+  };
+
+  // Patient, order details, exam type and priority all come from the worklist entry
+  const handleStartWorklistEntry = (entry: WorklistEntry) => {
+    emit('create-session-request', { worklistEntryId: entry.id });
+  };
+
+  const isDraftChanged = currentRequest && (
+    draftNotes !== (currentRequest.notes || '')
+    || draftExamType !== (currentRequest.examType || 'GENERAL')
+    || JSON.stringify(draftExamContext) !== JSON.stringify(currentRequest.examContext || EMPTY_EXAM_CONTEXT)
+  );
+
+  const handleUpdateRequest = () => {
+    if (!currentRequest) return;
+    emit('update-session-request', {
+      requestId: currentRequest.id,
+      notes: draftNotes,
+      examType: draftExamType,
+      examContext: draftExamContext
     });
   };
 
-  const handleAnswer = async (answer: RTCSessionDescriptionInit) => {
-    const pc = peerConnectionRef.current;
-    if (!pc) return;
-    await pc.setRemoteDescription(new RTCSessionDescription(answer));
+  const handleCancelRequest = () => {
+    if (!currentRequest) return;
+    emit('cancel-session-request', { requestId: currentRequest.id });
   };
 
-  const handleIceCandidate = async (candidate: RTCIceCandidateInit) => {
-    const pc = peerConnectionRef.current;
-    if (!pc) return;
-    try {
-      await pc.addIceCandidate(new RTCIceCandidate(candidate));
-    } catch (error) {
-      console.error('Error adding ICE candidate:', error);
-    }
+  // Show a series to everyone in the room, from its first frame, paused and with the default view
+  const handleSelectSeries = (next: Pick<DicomSeries, 'studyInstanceUid' | 'seriesInstanceUid'>) => {
+    setSelectedSeriesUid(next.seriesInstanceUid);
+    setFrame(0);
+    const paused = { ...cine, playing: false };
+    setCine(paused);
+    setViewport(DEFAULT_VIEWPORT);
+    send({ type: 'SYNC_STATE', payload: { studyInstanceUid: next.studyInstanceUid, seriesInstanceUid: next.seriesInstanceUid, frame: 0, cine: paused, viewport: DEFAULT_VIEWPORT } });
   };
 
-  const cleanupWebRTC = () => {
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
-    }
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-    }
+  // Window/level, zoom, pan and orientation, shown the same to everyone
+  const handleViewportChange = (next: StudyViewport) => {
+    setViewport(next);
+    send({ type: 'SYNC_STATE', payload: { viewport: next } });
   };
 
-  const toggleVideo = () => {
-    if (localStreamRef.current) {
-      const videoTrack = localStreamRef.current.getVideoTracks()[0];
-      if (videoTrack) {
-        videoTrack.enabled = !videoTrack.enabled;
-        setIsVideoEnabled(videoTrack.enabled);
-      }
-    }
+  // Measurements taken on the series on screen, shared with the room and fed into the report
+  const handleMeasure = (draft: MeasurementDraft) => {
+    if (!activeSeries) return;
+    const measurement: Measurement = { ...draft, id: `${userId}-${Date.now()}`, seriesInstanceUid: activeSeries.seriesInstanceUid, author: userName };
+    setMeasurements(prev => [...prev, measurement]);
+    send({ type: 'MEASUREMENT_SAVED', payload: measurement });
   };
 
-  const toggleAudio = () => {
-    if (localStreamRef.current) {
-      const audioTrack = localStreamRef.current.getAudioTracks()[0];
-      if (audioTrack) {
-        audioTrack.enabled = !audioTrack.enabled;
-        setIsAudioEnabled(audioTrack.enabled);
-      }
-    }
+  const handleMeasurementChange = (measurement: Measurement) => {
+    setMeasurements(prev => saveMeasurement(prev, measurement));
+    send({ type: 'MEASUREMENT_SAVED', payload: measurement });
   };
 
-  const handleRequestSession = () => {
-    if (!mainSocketRef.current) return;
-    mainSocketRef.current.emit('create-session-request', {
-      technicianId: userId,
-      technicianName: userName
-    });
+  const handleMeasurementRemove = (measurement: Measurement) => {
+    setMeasurements(prev => prev.filter(m => m.id !== measurement.id));
+    send({ type: 'MEASUREMENT_REMOVED', payload: { id: measurement.id } });
+  };
+
+  // Annotations on the study belong to the series on screen
+  const handleAnnotate = (draft: AnnotationDraft) => {
+    if (draft.layer === 'video') return annotationSession.add(draft);
+    if (activeSeries) annotationSession.add({ ...draft, seriesInstanceUid: activeSeries.seriesInstanceUid });
+  };
+
+  // Start, pause or retime cine playback for everyone, from the frame on screen
+  const handleCineChange = (next: CineState, atFrame: number) => {
+    setCine(next);
+    setFrame(atFrame);
+    send({ type: 'SYNC_STATE', payload: { frame: atFrame, cine: next } });
+  };
+
+  // All files go in one STOW-RS request; the last series stored is shown to the room while we have control
+  const handleUploadStudy = async (files: File[]) => {
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const { series: stored, failed } = await uploadInstances(token, roomId, files);
+      if (stored && hasControl) handleSelectSeries(stored);
+      if (failed > 0) setUploadError(`${failed} of ${files.length} file(s) were not stored: not a DICOM image the server can read`);
+    } catch (e) {
+      setUploadError(e instanceof Error ? e.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
   };
 
   const handleSendMessage = () => {
-    if (!newMessage.trim() || !mainSocketRef.current) return;
+    if (!newMessage.trim() || !isServerConnected) return;
     const msg: ChatMessage = {
       id: Date.now().toString(),
       sender: userName,
@@ -301,14 +351,14 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
       timestamp: Date.now()
     };
     setMessages(prev => [...prev, msg]);
-    mainSocketRef.current.emit('signal', { type: 'CHAT', payload: msg });
+    send({ type: 'CHAT', payload: msg });
     setNewMessage('');
   };
 
   const handleEndSession = () => {
-    if (!mainSocketRef.current || !currentRequest) return;
+    if (!currentRequest) return;
     if (confirm('Are you sure you want to end this session?')) {
-      mainSocketRef.current.emit('end-session', { requestId: currentRequest.id });
+      emit('end-session', { requestId: currentRequest.id });
     }
   };
 
@@ -337,6 +387,12 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
         </div>
       </header>
 
+      {protocolError && (
+        <div className="px-4 py-2 bg-red-500/20 border-b border-red-500/40 text-xs text-red-300">
+          {protocolError}
+        </div>
+      )}
+
       {/* Toolbar */}
       <div className="h-10 bg-rology-850 border-b border-rology-700 flex items-center px-4 gap-4">
         <button 
@@ -404,18 +460,74 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
               {currentRequest && (
                 <div className="text-xs text-gray-400 space-y-1">
                   <p>Room: <span className="text-white font-mono">{currentRequest.roomId}</span></p>
+                  {currentRequest.examType && (
+                    <p>Exam: <span className="text-white">{EXAM_TYPE_LABELS[currentRequest.examType]}</span></p>
+                  )}
+                  {currentRequest.priority && (
+                    <p>Priority: <span className={currentRequest.priority === 'STAT' ? 'text-red-400' : 'text-white'}>{PRIORITY_LABELS[currentRequest.priority]}</span></p>
+                  )}
                   {currentRequest.assignedRadiologistName && (
                     <p>Radiologist: <span className="text-rology-400">{currentRequest.assignedRadiologistName}</span></p>
                   )}
+                  {currentRequest.examContext && (
+                    <ExamContextSummary context={currentRequest.examContext} className="pt-2 mt-2 border-t border-rology-700" />
+                  )}
                 </div>
               )}
             </div>
 
             {sessionStatus === 'IDLE' && (
-              <button onClick={handleRequestSession} disabled={!isServerConnected}
-                className="w-full px-4 py-2 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white text-sm font-medium rounded transition-colors">
-                Request Session
-              </button>
+              <div className="flex gap-1 mb-3">
+                {(['worklist', 'manual'] as const).map(source => (
+                  <button key={source} onClick={() => setRequestSource(source)}
+                    className={`flex-1 px-2 py-1 text-xs rounded border transition-colors ${
+                      requestSource === source ? 'bg-rology-500 border-rology-400 text-white' : 'bg-rology-800 border-rology-700 text-gray-400 hover:text-white'
+                    }`}>
+                    {source === 'worklist' ? 'Worklist' : 'Manual entry'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {sessionStatus === 'IDLE' && requestSource === 'worklist' && (
+              <div className="flex-1 min-h-0 overflow-y-auto">
+                <WorklistPanel token={token} disabled={!isServerConnected} onStart={handleStartWorklistEntry} />
+              </div>
+            )}
+
+            {sessionStatus === 'IDLE' && requestSource === 'manual' && (
+              <div className="flex-1 min-h-0 overflow-y-auto">
+                {/* Radiologists see these details on the invite before they accept */}
+                <div className="mb-3">
+                  <ExamContextForm value={examContext} onChange={setExamContext} />
+                </div>
+                {/* The exam type routes the request to a radiologist with the matching subspecialty */}
+                <label className="block text-xs text-gray-400 mb-1">Exam type</label>
+                <select value={examType} onChange={(e) => setExamType(e.target.value as ExamType)}
+                  className="w-full mb-3 px-2 py-1.5 bg-rology-800 border border-rology-700 rounded text-sm text-white focus:outline-none focus:border-rology-500">
+                  {(Object.keys(EXAM_TYPE_LABELS) as ExamType[]).map(type => (
+                    <option key={type} value={type}>{EXAM_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                {/* STAT requests jump the admin queue and have the shortest SLA */}
+                <label className="block text-xs text-gray-400 mb-1">Priority</label>
+                <div className="flex gap-1 mb-3">
+                  {(Object.keys(PRIORITY_LABELS) as Priority[]).map(level => (
+                    <button key={level} onClick={() => setPriority(level)}
+                      className={`flex-1 px-2 py-1 text-xs rounded border transition-colors ${
+                        priority === level
+                          ? (level === 'STAT' ? 'bg-red-600 border-red-500 text-white' : 'bg-rology-500 border-rology-400 text-white')
+                          : 'bg-rology-800 border-rology-700 text-gray-400 hover:text-white'
+                      }`}>
+                      {PRIORITY_LABELS[level]}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={handleRequestSession} disabled={!isServerConnected || !isExamContextComplete(examContext)}
+                  className="w-full px-4 py-2 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white text-sm font-medium rounded transition-colors">
+                  Request Session
+                </button>
+              </div>
             )}
 
             {sessionStatus === 'PENDING' && (
@@ -436,12 +548,51 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
               </div>
             )}
 
+            {/* Until the radiologist joins, the request can still be edited or withdrawn */}
+            {(sessionStatus === 'PENDING' || sessionStatus === 'ASSIGNED') && currentRequest && (
+              <div className="flex-1 min-h-0 overflow-y-auto mb-4 space-y-2">
+                <ExamContextForm value={draftExamContext} onChange={setDraftExamContext} />
+                <label className="block text-xs text-gray-400">Exam type</label>
+                <select value={draftExamType} onChange={(e) => setDraftExamType(e.target.value as ExamType)}
+                  className="w-full px-2 py-1.5 bg-rology-800 border border-rology-700 rounded text-sm text-white focus:outline-none focus:border-rology-500">
+                  {(Object.keys(EXAM_TYPE_LABELS) as ExamType[]).map(type => (
+                    <option key={type} value={type}>{EXAM_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <label className="block text-xs text-gray-400">Notes for the radiologist</label>
+                <textarea value={draftNotes} onChange={(e) => setDraftNotes(e.target.value)} maxLength={1000}
+                  placeholder="e.g., Patient cannot lie flat"
+                  className="w-full h-16 px-2 py-1.5 bg-rology-800 border border-rology-700 rounded text-xs text-white resize-none focus:outline-none focus:border-rology-500" />
+                <div className="flex gap-2">
+                  <button onClick={handleCancelRequest} disabled={!isServerConnected}
+                    className="flex-1 px-3 py-1.5 bg-rology-700 hover:bg-red-600 disabled:text-gray-500 text-white text-xs rounded transition-colors">
+                    Cancel Request
+                  </button>
+                  <button onClick={handleUpdateRequest}
+                    disabled={!isServerConnected || !isDraftChanged || !isExamContextComplete(draftExamContext)}
+                    className="flex-1 px-3 py-1.5 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white text-xs rounded transition-colors">
+                    Save Changes
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {sessionStatus === 'ACTIVE' && participants.length > 0 && (
+              <ParticipantList participants={participants} selfSocketId={socket?.id} />
+            )}
+
             {/* Local Video Preview */}
             {sessionStatus === 'ACTIVE' && (
               <div className="mb-4">
                 <h4 className="text-xs text-gray-500 mb-2">Your Camera</h4>
                 <div className="relative aspect-video bg-black rounded border border-rology-700 overflow-hidden">
                   <video ref={localVideoRef} autoPlay muted playsInline className="w-full h-full object-cover" />
+                  {isVideoEnabled && (
+                    <VideoTelestrationLayer videoRef={localVideoRef} marks={videoMarks} now={telestration.now} />
+                  )}
+                  {isVideoEnabled && (
+                    <VideoAnnotationLayer videoRef={localVideoRef} annotations={videoAnnotations} onAnnotate={handleAnnotate} controls={annotationSession} userId={userId} />
+                  )}
                   {!isVideoEnabled && (
                     <div className="absolute inset-0 bg-rology-800 flex items-center justify-center">
                       <span className="text-xs text-gray-500">Camera Off</span>
@@ -491,6 +642,15 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
             <div className="flex items-center gap-4">
               <span className="text-rology-400 font-semibold">ULTRASOUND LIVE SESSION</span>
               <span className="text-gray-500">Room: {roomId || 'N/A'}</span>
+              {sessionStatus === 'ACTIVE' && (
+                <ControlHandoff
+                  control={control}
+                  userId={userId}
+                  onRequest={() => emit('request-control')}
+                  onRespond={(requesterId, grant) => emit('respond-to-control-request', { userId: requesterId, grant })}
+                  requestLabel="Take back control"
+                />
+              )}
             </div>
             <div className="flex items-center gap-4">
               {/* View Mode Toggle */}
@@ -507,37 +667,91 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
                 >
                   Video
                 </button>
+                <button
+                  onClick={() => setViewMode('probe')}
+                  title="Simulated probe feed"
+                  className={`px-3 py-1 text-xs transition-colors ${viewMode === 'probe' ? 'bg-rology-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  Probe
+                </button>
               </div>
-              {remoteConnected && <span className="text-green-400">● Radiologist Connected</span>}
+              {connectedPeers.length > 0 && (
+                <span className="text-green-400">● {connectedPeers.length} participant{connectedPeers.length > 1 ? 's' : ''} connected</span>
+              )}
               <span className="text-gray-500">{new Date().toLocaleDateString()}</span>
             </div>
           </div>
 
           {/* Display Area */}
-          <div className="flex-1 flex items-center justify-center">
+          <div className="flex-1 flex items-center justify-center relative">
+            {sessionStatus === 'ACTIVE' && !isServerConnected && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 px-3 py-1 bg-yellow-500/20 border border-yellow-500/40 rounded text-xs text-yellow-400">
+                Connection lost. Reconnecting, your session is being held...
+              </div>
+            )}
             {sessionStatus === 'ACTIVE' ? (
               <div className="w-full h-full flex gap-2 p-2">
-                {/* DICOM Study Viewer - Always visible in active session */}
-                <div className={`relative bg-rology-900 rounded-lg overflow-hidden border border-rology-700 ${viewMode === 'study' ? 'flex-1' : 'w-1/3'}`}>
-                  <DicomViewer 
-                    urls={DICOM_FILES} 
-                    className="w-full h-full" 
-                    gain={gain} 
-                    depth={depth}
-                    frame={frame}
-                    onFrameChange={(newFrame) => {
-                      setFrame(newFrame);
-                      if (mainSocketRef.current) {
-                        mainSocketRef.current.emit('signal', { 
-                          type: 'SYNC_STATE', 
-                          payload: { frame: newFrame } 
-                        });
-                      }
-                    }}
-                  />
-                  <div className="absolute top-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] text-cyan-400">
-                    ULTRASOUND STUDY
-                  </div>
+                {/* DICOM Study Viewer, or the simulated probe feed - Always visible in active session */}
+                <div className={`relative bg-rology-900 rounded-lg overflow-hidden border border-rology-700 ${viewMode === 'video' ? 'w-1/3' : 'flex-1'}`}>
+                  {viewMode === 'probe' ? (
+                    <>
+                      <UltrasoundCanvas
+                        gain={gain}
+                        depth={depth}
+                        frozen={isProbeFrozen}
+                        settings={simulatorSettings}
+                        clip={isPlayingClip && imageIds.length > 1 ? imageIds : undefined}
+                      />
+                      <div className="absolute top-2 left-2">
+                        <SimulatorControls
+                          settings={simulatorSettings}
+                          onChange={setSimulatorSettings}
+                          depth={depth}
+                          frozen={isProbeFrozen}
+                          onFreezeChange={setIsProbeFrozen}
+                          playingClip={isPlayingClip && imageIds.length > 1}
+                          onPlayingClipChange={imageIds.length > 1 ? setIsPlayingClip : undefined}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <DicomViewer 
+                        imageIds={imageIds} 
+                        token={token}
+                        className="w-full h-full" 
+                        frame={frame}
+                        cine={cine}
+                        viewport={viewport}
+                        onCineChange={hasControl ? handleCineChange : undefined}
+                        onViewportChange={hasControl ? handleViewportChange : undefined}
+                        measurements={seriesMeasurements}
+                        onMeasure={handleMeasure}
+                        onMeasurementChange={handleMeasurementChange}
+                        onMeasurementRemove={handleMeasurementRemove}
+                        annotations={seriesAnnotations}
+                        onAnnotate={handleAnnotate}
+                        annotationControls={annotationSession}
+                        userId={userId}
+                        telestrationMarks={seriesMarks}
+                        telestrationNow={telestration.now}
+                        onFrameChange={hasControl ? (newFrame) => {
+                          setFrame(newFrame);
+                          send({ type: 'SYNC_STATE', payload: { frame: newFrame } });
+                        } : undefined}
+                      />
+                      <div className="absolute top-2 left-2">
+                        <SeriesSelector
+                          series={series}
+                          selected={activeSeries}
+                          onSelect={hasControl ? handleSelectSeries : undefined}
+                          onUpload={canUploadStudies() ? handleUploadStudy : undefined}
+                          isUploading={isUploading}
+                          uploadError={uploadError}
+                        />
+                      </div>
+                    </>
+                  )}
                   {/* Study Controls */}
                   <div className="absolute bottom-2 right-2 bg-black/80 rounded p-2 space-y-2">
                     <div className="flex items-center gap-2">
@@ -550,9 +764,10 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
                         onChange={(e) => {
                           const newGain = parseInt(e.target.value);
                           setGain(newGain);
-                          mainSocketRef.current?.emit('signal', { type: 'SYNC_STATE', payload: { gain: newGain, depth } });
+                          send({ type: 'SYNC_STATE', payload: { gain: newGain, depth } });
                         }}
-                        className="w-20 h-1 accent-cyan-400"
+                        disabled={!hasControl}
+                        className="w-20 h-1 accent-cyan-400 disabled:opacity-50"
                       />
                       <span className="text-[10px] text-white w-6">{gain}</span>
                     </div>
@@ -566,34 +781,22 @@ const TechDashboard: React.FC<TechDashboardProps> = ({ userId, userName, onLeave
                         onChange={(e) => {
                           const newDepth = parseInt(e.target.value);
                           setDepth(newDepth);
-                          mainSocketRef.current?.emit('signal', { type: 'SYNC_STATE', payload: { gain, depth: newDepth } });
+                          send({ type: 'SYNC_STATE', payload: { gain, depth: newDepth } });
                         }}
-                        className="w-20 h-1 accent-cyan-400"
+                        disabled={!hasControl}
+                        className="w-20 h-1 accent-cyan-400 disabled:opacity-50"
                       />
                       <span className="text-[10px] text-white w-6">{depth}</span>
                     </div>
                   </div>
                 </div>
                 
-                {/* Video Call - Radiologist */}
-                <div className={`relative bg-rology-900 rounded-lg overflow-hidden border border-rology-700 ${viewMode === 'video' ? 'flex-1' : 'w-1/3'}`}>
-                  <video ref={remoteVideoRef} autoPlay playsInline className="w-full h-full object-cover" />
-                  {!remoteConnected && (
-                    <div className="absolute inset-0 flex items-center justify-center bg-rology-900">
-                      <div className="text-center">
-                        <div className="animate-pulse w-12 h-12 bg-rology-800 rounded-full flex items-center justify-center mx-auto mb-2">
-                          <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                          </svg>
-                        </div>
-                        <p className="text-gray-500 text-xs">Connecting...</p>
-                      </div>
-                    </div>
-                  )}
-                  <div className="absolute bottom-2 left-2 px-2 py-1 bg-black/70 rounded text-[10px] text-white">
-                    {currentRequest?.assignedRadiologistName || 'Radiologist'}
-                  </div>
-                </div>
+                {/* Video Calls - radiologists */}
+                <RemoteVideoGrid
+                  participants={remoteParticipants}
+                  remoteStreams={remoteStreams}
+                  className={viewMode === 'video' ? 'flex-1' : 'w-1/3'}
+                />
               </div>
             ) : (
               <div className="text-center">
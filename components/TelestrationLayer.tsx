@@ -0,0 +1,71 @@
+import React, { useRef } from 'react';
+import { Point } from '../utils/measurements';
+import { TELESTRATION_FADE_MS, TelestrationInput, TelestrationMark } from '../utils/telestration';
+
+interface TelestrationLayerProps {
+  // Marks of the surface on screen
+  marks: TelestrationMark[];
+  // Time the marks fade from
+  now: number;
+  // Surface point (image pixel or video fraction) to element pixel
+  toScreen: (point: Point) => Point;
+  // Omit these to only show the marks: with them, the layer takes the pointer
+  fromClient?: (clientX: number, clientY: number) => Point;
+  onInput?: (input: TelestrationInput) => void;
+}
+
+const LASER_COLOR = '#ef4444';
+
+/**
+ * The radiologist's laser pointer and short strokes, fading out shortly after
+ * they stop moving. Hovering moves the laser dot, dragging draws a stroke.
+ */
+const TelestrationLayer: React.FC<TelestrationLayerProps> = ({ marks, now, toScreen, fromClient, onInput }) => {
+  const strokeRef = useRef<string | null>(null);
+  const sending = Boolean(fromClient && onInput);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!sending || e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    strokeRef.current = `${Date.now()}`;
+    onInput({ kind: 'stroke', strokeId: strokeRef.current, ...fromClient(e.clientX, e.clientY) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!sending) return;
+    const point = fromClient(e.clientX, e.clientY);
+    onInput(strokeRef.current ? { kind: 'stroke', strokeId: strokeRef.current, ...point } : { kind: 'pointer', ...point });
+  };
+
+  const handlePointerUp = () => {
+    strokeRef.current = null;
+  };
+
+  return (
+    <svg
+      className={`absolute inset-0 w-full h-full ${sending ? 'cursor-none' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => sending && onInput({ kind: 'pointer-out' })}
+    >
+      {marks.map(mark => {
+        const opacity = Math.max(1 - (now - mark.updatedAt) / TELESTRATION_FADE_MS, 0);
+        const screen = mark.points.map(toScreen);
+        return mark.isPointer ? (
+          <g key={mark.id} opacity={opacity}>
+            <circle cx={screen[0].x} cy={screen[0].y} r={10} fill={LASER_COLOR} opacity={0.3} />
+            <circle cx={screen[0].x} cy={screen[0].y} r={4} fill={LASER_COLOR} />
+          </g>
+        ) : (
+          <polyline key={mark.id} points={screen.map(p => `${p.x},${p.y}`).join(' ')} opacity={opacity}
+            fill="none" stroke={LASER_COLOR} strokeWidth={3} strokeLinecap="round" strokeLinejoin="round" />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default TelestrationLayer;
@@ -1,28 +1,93 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
+import * as cornerstone from 'cornerstone-core';
+import { SIMULATOR_PRESETS, SimulatorSettings, applyGain, createScanGeometry, gainToDb, getDefaultSettings, renderScan } from '../utils/ultrasoundSimulator';
+import { getFrameTime, loadImage } from './DicomViewer';
 
 interface UltrasoundCanvasProps {
   gain: number;
   depth: number;
   frozen?: boolean;
+  // Probe, phantom, focus and TGC; defaults to the abdominal preset
+  settings?: SimulatorSettings;
+  // Frames of a loaded clip, played back as the probe feed instead of the phantom
+  clip?: string[];
 }
 
-const UltrasoundCanvas: React.FC<UltrasoundCanvasProps> = ({ gain, depth, frozen = false }) => {
+// The phantom is rendered at this size, then scaled up to the canvas
+const SCAN_WIDTH = 400;
+const SCAN_HEIGHT = 300;
+
+const DEFAULT_SETTINGS = getDefaultSettings('GENERAL');
+
+// A clip being played back: its frames as they load, and when playback started
+interface ClipPlayback {
+  imageIds: string[];
+  images: Map<string, any>;
+  frameTime: number;
+  startedAt: number;
+}
+
+/**
+ * Simulated B-mode probe feed: a phantom scanned with a linear, curvilinear or
+ * phased-array probe, with attenuation, gain, TGC and focusing; or a loaded
+ * DICOM clip played back in a loop as if it came from the probe.
+ */
+const UltrasoundCanvas: React.FC<UltrasoundCanvasProps> = ({ gain, depth, frozen = false, settings = DEFAULT_SETTINGS, clip }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
+  const preset = SIMULATOR_PRESETS[settings.preset];
+
+  // Where every scan pixel is in the body; only worked out again when the probe, depth or focus change
+  const geometry = useMemo(
+    () => createScanGeometry(preset.probe, preset.phantom, depth, settings.focus, SCAN_WIDTH, SCAN_HEIGHT),
+    [preset, depth, settings.focus],
+  );
 
   // Use refs to access current values without restarting animation
   const gainRef = useRef(gain);
   const depthRef = useRef(depth);
-  const offsetRef = useRef(0);
+  const settingsRef = useRef(settings);
+  const geometryRef = useRef(geometry);
+  const clipRef = useRef<ClipPlayback | null>(null);
+  // Draws one frame; a frozen image is drawn again whenever what it shows changes
+  const renderRef = useRef<(() => void) | null>(null);
 
   // Update refs when props change (no re-render, no animation restart)
   useEffect(() => {
     gainRef.current = gain;
-  }, [gain]);
+    depthRef.current = depth;
+    settingsRef.current = settings;
+    geometryRef.current = geometry;
+    if (frozen) renderRef.current?.();
+  }, [gain, depth, settings, geometry]);
 
+  // Load the clip's frames in order; playback shows each one once it is there
   useEffect(() => {
-    depthRef.current = depth;
-  }, [depth]);
+    if (!clip || clip.length === 0) {
+      clipRef.current = null;
+      return;
+    }
+    const playback: ClipPlayback = { imageIds: clip, images: new Map(), frameTime: 1000 / 15, startedAt: performance.now() };
+    clipRef.current = playback;
+    let cancelled = false;
+    (async () => {
+      for (const imageId of clip) {
+        if (cancelled) return;
+        try {
+          const image = await loadImage(imageId);
+          if (playback.images.size === 0) playback.frameTime = getFrameTime(image, imageId);
+          playback.images.set(imageId, image);
+          // Frozen playback shows nothing until the first frame is there
+          if (playback.images.size === 1) renderRef.current?.();
+        } catch (e) {
+          console.warn('[UltrasoundCanvas] Could not load clip frame', imageId, e);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [clip]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -30,77 +95,103 @@ const UltrasoundCanvas: React.FC<UltrasoundCanvasProps> = ({ gain, depth, frozen
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const draw = () => {
-      const width = canvas.width;
-      const height = canvas.height;
-      const currentGain = gainRef.current;
-      const currentDepth = depthRef.current;
-
-      // Background
+    const scanCanvas = document.createElement('canvas');
+    scanCanvas.width = SCAN_WIDTH;
+    scanCanvas.height = SCAN_HEIGHT;
+    const scanCtx = scanCanvas.getContext('2d');
+    const scanImage = scanCtx.createImageData(SCAN_WIDTH, SCAN_HEIGHT);
+    // Last clip frame rendered, kept until the next one has loaded
+    const frameCanvas = document.createElement('canvas');
+    let shownFrameId: string | null = null;
+    // A frozen image keeps the moment it was frozen, whatever is redrawn over it
+    const frozenAt = performance.now();
+
+    // Clip frame due now, fitted into the canvas, with gain and TGC applied
+    const drawClip = (playback: ClipPlayback, now: number) => {
+      const { width, height } = canvas;
+      const index = Math.floor((now - playback.startedAt) / playback.frameTime) % playback.imageIds.length;
+      const image = playback.images.get(playback.imageIds[index]);
+      if (image && playback.imageIds[index] !== shownFrameId) {
+        cornerstone.renderToCanvas(frameCanvas, image);
+        shownFrameId = playback.imageIds[index];
+      }
       ctx.fillStyle = '#000000';
       ctx.fillRect(0, 0, width, height);
+      if (!shownFrameId) return;
+      const scale = Math.min(width / frameCanvas.width, height / frameCanvas.height);
+      const w = Math.round(frameCanvas.width * scale);
+      const h = Math.round(frameCanvas.height * scale);
+      const x = Math.round((width - w) / 2);
+      const y = Math.round((height - h) / 2);
+      ctx.drawImage(frameCanvas, x, y, w, h);
+      const pixels = ctx.getImageData(x, y, w, h);
+      applyGain(pixels, gainToDb(gainRef.current), settingsRef.current.tgc);
+      ctx.putImageData(pixels, x, y);
+    };
 
-      // Create the "Sector" clipping mask
-      ctx.save();
+    // Depth scale in cm and the focal zone marker, along the right of the field
+    const drawScale = () => {
+      const { scale, origin } = geometryRef.current;
+      const ratio = canvas.height / SCAN_HEIGHT;
+      const x = canvas.width - 24;
+      ctx.fillStyle = '#06b6d4';
+      for (let cm = 0; cm <= depthRef.current; cm++) {
+        const y = (origin.y + cm * scale) * ratio;
+        ctx.fillRect(x, y, cm % 5 === 0 ? 8 : 4, 1);
+      }
+      const focusY = (origin.y + settingsRef.current.focus * scale) * ratio;
       ctx.beginPath();
-      ctx.moveTo(width / 2, 0);
-      ctx.arc(width / 2, 0, height - 10, 0.5, Math.PI - 0.5); // Fan shape
-      ctx.lineTo(width / 2, 0);
-      ctx.clip();
-
-      // Generate Noise (The ultrasound tissue texture)
-      const imageData = ctx.createImageData(width, height);
-      const data = imageData.data;
-
-      // Simulation parameters derived from props
-      const brightness = currentGain * 2.5; // Gain controls brightness
-      const density = 0.05 + (currentDepth / 200); // Depth controls texture density slightly
-
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          const index = (y * width + x) * 4;
-
-          // Simple procedural noise
-          const noise = Math.random();
-          // Simulate structure (bands)
-          const structure = Math.sin((y + offsetRef.current) * 0.05) * Math.cos((x) * 0.02);
-
-          let value = (noise * brightness) + (structure * 40);
-
-          // Falloff at edges of depth
-          if (y > height * 0.8) value *= 0.5;
+      ctx.moveTo(x - 2, focusY);
+      ctx.lineTo(x - 10, focusY - 5);
+      ctx.lineTo(x - 10, focusY + 5);
+      ctx.fill();
+    };
 
-          data[index] = value;     // R
-          data[index + 1] = value; // G
-          data[index + 2] = value; // B
-          data[index + 3] = 255;   // Alpha
-        }
+    const render = () => {
+      const width = canvas.width;
+      const height = canvas.height;
+      const currentGain = gainRef.current;
+      const currentDepth = depthRef.current;
+      const currentPreset = SIMULATOR_PRESETS[settingsRef.current.preset];
+      const now = frozen ? frozenAt : performance.now();
+      const playback = clipRef.current;
+
+      if (playback) {
+        drawClip(playback, now);
+      } else {
+        renderScan(scanImage, geometryRef.current, currentPreset, currentDepth, gainToDb(currentGain), settingsRef.current.tgc, now);
+        scanCtx.putImageData(scanImage, 0, 0);
+        ctx.imageSmoothingEnabled = true;
+        ctx.drawImage(scanCanvas, 0, 0, width, height);
+        drawScale();
       }
 
-      ctx.putImageData(imageData, 0, 0);
-      ctx.restore();
-
       // Overlay Info
       ctx.fillStyle = '#06b6d4'; // Cyan
       ctx.font = '12px monospace';
       ctx.fillText(`MI: 0.7  TIS: 0.2`, 20, 30);
       ctx.fillText(`GAIN: ${currentGain}`, 20, 50);
       ctx.fillText(`DEPTH: ${currentDepth}cm`, 20, 70);
-      ctx.fillText(`FREQ: 4.5MHz`, width - 100, 30);
+      ctx.fillText(playback ? 'CLIP' : `FREQ: ${currentPreset.probe.frequency}MHz`, width - 100, 30);
+      ctx.fillText(playback ? 'Clip playback' : currentPreset.label, 20, height - 20);
+      if (frozen) ctx.fillText('FROZEN', width - 100, 50);
+    };
 
-      // Moving Scan Line
+    const draw = () => {
+      render();
       if (!frozen) {
-        offsetRef.current += 2;
         animationRef.current = requestAnimationFrame(draw);
       }
     };
 
+    renderRef.current = render;
     draw();
 
     return () => {
+      renderRef.current = null;
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [frozen]); // Only restart animation when frozen changes
+  }, [frozen, clip]); // Only restart animation when frozen or the clip changes
 
   return (
     <canvas
@@ -112,4 +203,4 @@ const UltrasoundCanvas: React.FC<UltrasoundCanvasProps> = ({ gain, depth, frozen
   );
 };
 
-export default UltrasoundCanvas;
\ No newline at end of file
+export default UltrasoundCanvas;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Annotation, AnnotationShape } from '../types';
+import { AnnotationControls } from '../hooks/useAnnotations';
+import { useVideoMapping } from '../hooks/useVideoMapping';
+import { AnnotationDraft, getAuthorColor } from '../utils/annotations';
+import AnnotationLayer from './AnnotationLayer';
+import AnnotationTools from './AnnotationTools';
+
+interface VideoAnnotationLayerProps {
+  // The technician's video, shown `object-cover`
+  videoRef: React.RefObject<HTMLVideoElement>;
+  // Annotations of the video layer
+  annotations: Annotation[];
+  // Omit these to only show the annotations; `userId` picks the color of the user's drawings
+  onAnnotate?: (annotation: AnnotationDraft) => void;
+  controls?: AnnotationControls;
+  userId?: string;
+}
+
+/**
+ * Annotations over the technician's live video, with their tools. Points are
+ * fractions of the video frame, so annotations stay on the same spot whatever
+ * the size of each tile.
+ */
+const VideoAnnotationLayer: React.FC<VideoAnnotationLayerProps> = ({ videoRef, annotations, onAnnotate, controls, userId = '' }) => {
+  const [tool, setTool] = useState<AnnotationShape | null>(null);
+  const mapping = useVideoMapping(videoRef);
+  if (!mapping) return null;
+  const { toScreen, fromClient } = mapping;
+  return (
+    <>
+      <AnnotationLayer
+        annotations={annotations}
+        toScreen={toScreen}
+        tool={onAnnotate ? tool : null}
+        color={getAuthorColor(userId)}
+        fromClient={fromClient}
+        onDraw={(shape, points, text) => onAnnotate?.({ shape, layer: 'video', points, text })}
+      />
+      {onAnnotate && controls && (
+        <div className="absolute top-2 right-2">
+          <AnnotationTools tool={tool} onToolChange={setTool} controls={controls} />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default VideoAnnotationLayer;
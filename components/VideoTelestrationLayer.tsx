@@ -0,0 +1,23 @@
+import React from 'react';
+import { useVideoMapping } from '../hooks/useVideoMapping';
+import { TelestrationInput, TelestrationMark } from '../utils/telestration';
+import TelestrationLayer from './TelestrationLayer';
+
+interface VideoTelestrationLayerProps {
+  // The technician's video, shown `object-cover`
+  videoRef: React.RefObject<HTMLVideoElement>;
+  // Marks of the video layer
+  marks: TelestrationMark[];
+  now: number;
+  // Omit to only show the marks
+  onInput?: (input: TelestrationInput) => void;
+}
+
+// Laser pointer over the technician's live video, in fractions of the video frame
+const VideoTelestrationLayer: React.FC<VideoTelestrationLayerProps> = ({ videoRef, marks, now, onInput }) => {
+  const mapping = useVideoMapping(videoRef);
+  if (!mapping) return null;
+  return <TelestrationLayer marks={marks} now={now} toScreen={mapping.toScreen} fromClient={mapping.fromClient} onInput={onInput} />;
+};
+
+export default VideoTelestrationLayer;
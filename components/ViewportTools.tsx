@@ -0,0 +1,52 @@
+import React from 'react';
+import { StudyViewport } from '../types';
+import { DEFAULT_VIEWPORT, ViewportTool, VoiPreset } from '../utils/viewport';
+
+interface ViewportToolsProps {
+  // Null while a measurement tool is selected
+  tool: ViewportTool | null;
+  onToolChange: (tool: ViewportTool) => void;
+  viewport: StudyViewport;
+  presets: VoiPreset[];
+  onChange: (viewport: StudyViewport) => void;
+}
+
+const TOOLS: { tool: ViewportTool; label: string; title: string }[] = [
+  { tool: 'window', label: 'W/L', title: 'Drag to change window width (left/right) and level (up/down)' },
+  { tool: 'pan', label: 'Pan', title: 'Drag to move the image' },
+  { tool: 'zoom', label: 'Zoom', title: 'Drag up to zoom in, down to zoom out' },
+];
+
+const buttonClass = (active: boolean) =>
+  `px-1.5 py-0.5 rounded transition-colors ${active ? 'bg-rology-500 text-white' : 'bg-rology-800 hover:bg-rology-700 text-gray-300'}`;
+
+/**
+ * Mouse tools and display settings of the study viewer. The tool is each
+ * user's own; everything else is the room's shared viewport.
+ */
+const ViewportTools: React.FC<ViewportToolsProps> = ({ tool, onToolChange, viewport, presets, onChange }) => (
+  <div className="bg-black/70 rounded px-2 py-1 text-[10px] flex items-center gap-1">
+    {TOOLS.map(t => (
+      <button key={t.tool} title={t.title} onClick={() => onToolChange(t.tool)} className={buttonClass(tool === t.tool)}>{t.label}</button>
+    ))}
+    <span className="w-px h-4 bg-rology-700 mx-0.5" />
+    <button title="Invert" onClick={() => onChange({ ...viewport, invert: !viewport.invert })} className={buttonClass(viewport.invert)}>Inv</button>
+    <button title="Rotate 90° clockwise" onClick={() => onChange({ ...viewport, rotation: (viewport.rotation + 90) % 360 })} className={buttonClass(false)}>⟳</button>
+    <button title="Flip horizontally" onClick={() => onChange({ ...viewport, hflip: !viewport.hflip })} className={buttonClass(viewport.hflip)}>⇆</button>
+    <button title="Flip vertically" onClick={() => onChange({ ...viewport, vflip: !viewport.vflip })} className={buttonClass(viewport.vflip)}>⇅</button>
+    <select title="Window presets" value=""
+      onChange={(e) => {
+        const preset = presets[Number(e.target.value)];
+        if (preset) onChange({ ...viewport, voi: { windowWidth: preset.windowWidth, windowCenter: preset.windowCenter } });
+      }}
+      className="bg-rology-800 border border-rology-700 rounded text-white px-1 py-0.5 focus:outline-none">
+      <option value="">Window…</option>
+      {presets.map((preset, i) => (
+        <option key={i} value={i}>{preset.label} ({Math.round(preset.windowWidth)}/{Math.round(preset.windowCenter)})</option>
+      ))}
+    </select>
+    <button title="Reset the view (or double-click the image)" onClick={() => onChange(DEFAULT_VIEWPORT)} className={buttonClass(false)}>Reset</button>
+  </div>
+);
+
+export default ViewportTools;
@@ -0,0 +1,84 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { WorklistEntry, EXAM_TYPE_LABELS, PRIORITY_LABELS } from '../types';
+import { fetchWorklist } from '../services/worklist';
+
+interface WorklistPanelProps {
+  token: string;
+  disabled?: boolean;
+  onStart: (entry: WorklistEntry) => void;
+}
+
+// Orders come in during the day; picked-up exams drop off the list
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Today's scheduled exams from the modality worklist. Starting one requests a
+ * session with the patient and order details of the entry.
+ */
+const WorklistPanel: React.FC<WorklistPanelProps> = ({ token, disabled, onStart }) => {
+  const [entries, setEntries] = useState<WorklistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await fetchWorklist(token));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load the worklist');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-400">Today ({entries.length})</span>
+        <button onClick={refresh} disabled={isLoading} className="text-[10px] text-rology-400 hover:text-white disabled:text-gray-600">
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+      {error && <p className="text-[10px] text-red-400 mb-2">{error}</p>}
+      {!error && entries.length === 0 && !isLoading && (
+        <p className="text-xs text-gray-600 italic">No exams scheduled</p>
+      )}
+      <div className="space-y-2">
+        {entries.map(entry => (
+          <div key={entry.id} className="p-2 bg-rology-800 rounded border border-rology-700 text-[10px]">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-mono text-white">
+                {new Date(entry.scheduledAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <span className="text-gray-500">{entry.station}</span>
+            </div>
+            <p className="text-sm text-white">{entry.patientName}</p>
+            <p className="text-gray-500 font-mono">{entry.patientId} · {entry.accessionNumber}</p>
+            <p className="text-gray-300 mt-1">{entry.procedureDescription || EXAM_TYPE_LABELS[entry.examType]}</p>
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-gray-400">
+                {EXAM_TYPE_LABELS[entry.examType]}
+                {entry.priority && entry.priority !== 'ROUTINE' && (
+                  <span className={`ml-2 ${entry.priority === 'STAT' ? 'text-red-400' : 'text-orange-400'}`}>{PRIORITY_LABELS[entry.priority]}</span>
+                )}
+              </span>
+              <button onClick={() => onStart(entry)} disabled={disabled}
+                className="px-2 py-1 bg-rology-500 hover:bg-rology-400 disabled:bg-rology-700 disabled:text-gray-500 text-white rounded transition-colors">
+                Start
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WorklistPanel;
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Annotation, SignalingEvent } from '../types';
+import { OutgoingSignal } from '../shared/protocol';
+import { AnnotationDraft, getAuthorColor } from '../utils/annotations';
+
+interface UseAnnotationsOptions {
+    userId: string;
+    userName: string;
+    // Omit for users who only watch
+    send?: (event: OutgoingSignal) => void;
+}
+
+// One undoable action of this user: what it drew and what it erased
+interface AnnotationChange {
+    added: Annotation[];
+    removed: Annotation[];
+}
+
+// What the annotation toolbars need
+export interface AnnotationControls {
+    // Every annotation of the room, on every layer
+    annotations: Annotation[];
+    // Erase everything an author drew, on every layer
+    clearAuthor: (authorId: string) => void;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+interface UseAnnotationsReturn extends AnnotationControls {
+    add: (draft: AnnotationDraft) => void;
+    // Replace the annotations with the room's, e.g. from room-info; forgets the undo history
+    load: (annotations: Annotation[]) => void;
+    // Apply an ANNOTATION or ANNOTATION_REMOVED signal from the room
+    receive: (event: SignalingEvent) => void;
+}
+
+/**
+ * The room's annotations and this user's undo/redo history. Undo and redo
+ * only replay this user's own actions, and are sent to the room like any
+ * other change: re-added annotations keep their id.
+ */
+export function useAnnotations({ userId, userName, send }: UseAnnotationsOptions): UseAnnotationsReturn {
+    const [annotations, setAnnotations] = useState<Annotation[]>([]);
+    const [undoStack, setUndoStack] = useState<AnnotationChange[]>([]);
+    const [redoStack, setRedoStack] = useState<AnnotationChange[]>([]);
+
+    // Apply a change here and in the room
+    const apply = ({ added, removed }: AnnotationChange) => {
+        const removedIds = removed.map(a => a.id);
+        setAnnotations(prev => [...prev.filter(a => !removedIds.includes(a.id)), ...added.filter(a => !prev.some(p => p.id === a.id))]);
+        if (removed.length > 0) send?.({ type: 'ANNOTATION_REMOVED', payload: { ids: removedIds } });
+        added.forEach(a => send?.({ type: 'ANNOTATION', payload: a }));
+    };
+
+    const commit = (change: AnnotationChange) => {
+        apply(change);
+        setUndoStack(prev => [...prev, change]);
+        setRedoStack([]);
+    };
+
+    const add = (draft: AnnotationDraft) => {
+        const annotation: Annotation = { ...draft, id: `${userId}-${Date.now()}`, color: getAuthorColor(userId), authorId: userId, authorName: userName };
+        commit({ added: [annotation], removed: [] });
+    };
+
+    const clearAuthor = (authorId: string) => {
+        const removed = annotations.filter(a => a.authorId === authorId);
+        if (removed.length > 0) commit({ added: [], removed });
+    };
+
+    const undo = () => {
+        const change = undoStack[undoStack.length - 1];
+        if (!change) return;
+        apply({ added: change.removed, removed: change.added });
+        setUndoStack(prev => prev.slice(0, -1));
+        setRedoStack(prev => [...prev, change]);
+    };
+
+    const redo = () => {
+        const change = redoStack[redoStack.length - 1];
+        if (!change) return;
+        apply(change);
+        setRedoStack(prev => prev.slice(0, -1));
+        setUndoStack(prev => [...prev, change]);
+    };
+
+    const load = (next: Annotation[]) => {
+        setAnnotations(next);
+        setUndoStack([]);
+        setRedoStack([]);
+    };
+
+    const receive = (event: SignalingEvent) => {
+        if (event.type === 'ANNOTATION') {
+            setAnnotations(prev => prev.some(a => a.id === event.payload.id) ? prev : [...prev, event.payload]);
+        }
+        if (event.type === 'ANNOTATION_REMOVED') {
+            setAnnotations(prev => prev.filter(a => !event.payload.ids.includes(a.id)));
+        }
+    };
+
+    return {
+        annotations,
+        add,
+        clearAuthor,
+        undo,
+        redo,
+        canUndo: undoStack.length > 0,
+        canRedo: redoStack.length > 0,
+        load,
+        receive,
+    };
+}
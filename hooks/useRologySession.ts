@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import RealSignalingService from '../services/realSignaling';
+import { SignalingTransport } from '../services/signalingTransport';
+import { SignalingEvent, RoomInfo, RoomParticipant, SessionRequest } from '../types';
+import { OutgoingSignal, ServerToClientEvents, ClientToServerEvents, ClientEventName } from '../shared/protocol';
+
+interface UseRologySessionOptions {
+    token: string;
+    onSignal?: (event: SignalingEvent) => void;
+    onRoomInfo?: (info: RoomInfo) => void;
+    onJoinRoom?: ServerToClientEvents['join-room'];
+    onSessionRequests?: (requests: SessionRequest[]) => void;
+    // Token expired or revoked: the user has to sign in again
+    onUnauthorized?: () => void;
+}
+
+interface UseRologySessionReturn {
+    socket: SignalingTransport | null;
+    isConnected: boolean;
+    protocolError: string | null;
+    // Who is in the joined session room, one entry per socket (including this one)
+    participants: RoomParticipant[];
+    joinRoom: (roomId: string) => void;
+    send: (event: OutgoingSignal) => void;
+    emit: <E extends ClientEventName>(event: E, ...args: Parameters<ClientToServerEvents[E]>) => void;
+}
+
+/**
+ * The signed-in user's connection to the signaling server, shared by every
+ * dashboard. Handlers are read from a ref, so callers can pass inline
+ * closures over their latest state without reconnecting.
+ */
+export function useRologySession(options: UseRologySessionOptions): UseRologySessionReturn {
+    const { token } = options;
+    const [service, setService] = useState<RealSignalingService | null>(null);
+    const [isConnected, setIsConnected] = useState(false);
+    const [protocolError, setProtocolError] = useState<string | null>(null);
+    const [participants, setParticipants] = useState<RoomParticipant[]>([]);
+
+    const handlersRef = useRef(options);
+    handlersRef.current = options;
+
+    useEffect(() => {
+        const session = new RealSignalingService(token);
+        setService(session);
+
+        // room-info gives the full list on every (re)join; JOIN/LEAVE keep it current
+        const trackParticipants = (event: SignalingEvent) => {
+            if (event.type === 'JOIN') {
+                const { socketId, userId, userName, role, sessionRole } = event.payload;
+                setParticipants(prev => [
+                    ...prev.filter(p => p.socketId !== socketId),
+                    { socketId, userId, name: userName, role, sessionRole, joinedAt: Date.now() },
+                ]);
+            }
+            if (event.type === 'LEAVE') {
+                setParticipants(prev => prev.filter(p => p.socketId !== event.payload.socketId));
+            }
+            if (event.type === 'SESSION_ENDED') {
+                setParticipants([]);
+            }
+        };
+
+        const unsubscribers = [
+            session.onConnectionChange(setIsConnected),
+            session.onConnectionError((error) => {
+                if (error.kind === 'UNAUTHORIZED') handlersRef.current.onUnauthorized?.();
+                // Client and server builds disagree on the wire protocol
+                if (error.kind === 'PROTOCOL_MISMATCH') setProtocolError(error.message);
+            }),
+            session.subscribe((event) => {
+                trackParticipants(event);
+                handlersRef.current.onSignal?.(event);
+            }),
+            session.on('room-info', (info) => {
+                setParticipants(info.users);
+                handlersRef.current.onRoomInfo?.(info);
+            }),
+            session.on('join-room', (payload) => handlersRef.current.onJoinRoom?.(payload)),
+            session.on('session-requests-update', (requests) => handlersRef.current.onSessionRequests?.(requests)),
+        ];
+
+        return () => {
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+            session.close();
+            setService(null);
+            setIsConnected(false);
+            setParticipants([]);
+        };
+    }, [token]);
+
+    const joinRoom = useCallback((roomId: string) => {
+        service?.joinRoom(roomId);
+    }, [service]);
+
+    const send = useCallback((event: OutgoingSignal) => {
+        service?.send(event);
+    }, [service]);
+
+    const emit = useCallback(<E extends ClientEventName>(event: E, ...args: Parameters<ClientToServerEvents[E]>) => {
+        service?.emit(event, ...args);
+    }, [service]);
+
+    return {
+        socket: service?.getSocket() ?? null,
+        isConnected,
+        protocolError,
+        participants,
+        joinRoom,
+        send,
+        emit,
+    };
+}
+
+export default useRologySession;
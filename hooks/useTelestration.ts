@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { TELESTRATION_FADE_MS, TelestrationMark, TelestrationMessage } from '../utils/telestration';
+
+interface UseTelestrationReturn {
+    // Marks still visible, with the time they are drawn at
+    marks: TelestrationMark[];
+    now: number;
+    // Apply a laser message from a participant (or from this user, to see their own marks)
+    receive: (senderId: string, message: TelestrationMessage) => void;
+    clear: () => void;
+}
+
+/**
+ * Transient laser pointer and strokes. Nothing is kept: marks fade out
+ * TELESTRATION_FADE_MS after their last move, and are redrawn every
+ * animation frame while any are visible.
+ */
+export function useTelestration(): UseTelestrationReturn {
+    const [marks, setMarks] = useState<TelestrationMark[]>([]);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        if (marks.length === 0) return;
+        const frame = requestAnimationFrame(() => {
+            const time = Date.now();
+            setNow(time);
+            if (marks.some(m => time - m.updatedAt > TELESTRATION_FADE_MS)) {
+                setMarks(prev => prev.filter(m => time - m.updatedAt <= TELESTRATION_FADE_MS));
+            }
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [marks, now]);
+
+    const receive = (senderId: string, message: TelestrationMessage) => {
+        const updatedAt = Date.now();
+        const pointerId = `${senderId}-pointer`;
+        if (message.kind === 'pointer-out') {
+            setMarks(prev => prev.filter(m => m.id !== pointerId));
+            return;
+        }
+        const point = { x: message.x, y: message.y };
+        if (message.kind === 'pointer') {
+            const pointer = { id: pointerId, surface: message.surface, points: [point], isPointer: true, updatedAt };
+            setMarks(prev => [...prev.filter(m => m.id !== pointerId), pointer]);
+            return;
+        }
+        // Strokes grow point by point; the laser dot follows their tip
+        const strokeId = `${senderId}-${message.strokeId}`;
+        setMarks(prev => {
+            const stroke = prev.find(m => m.id === strokeId);
+            const others = prev.filter(m => m.id !== strokeId && m.id !== pointerId);
+            return [
+                ...others,
+                { id: strokeId, surface: message.surface, points: [...(stroke?.points ?? []), point], isPointer: false, updatedAt },
+                { id: pointerId, surface: message.surface, points: [point], isPointer: true, updatedAt },
+            ];
+        });
+    };
+
+    return { marks, now, receive, clear: () => setMarks([]) };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { getVideoMapping } from '../utils/annotations';
+
+/**
+ * Mapping between element pixels and video frame fractions of an
+ * `object-cover` video, recomputed when the element is resized or the
+ * stream changes resolution. Null until the video element is mounted.
+ */
+export function useVideoMapping(videoRef: React.RefObject<HTMLVideoElement>) {
+    const [, setLayoutCount] = useState(0);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        const relayout = () => setLayoutCount(count => count + 1);
+        const observer = new ResizeObserver(relayout);
+        observer.observe(video);
+        video.addEventListener('resize', relayout);
+        return () => {
+            observer.disconnect();
+            video.removeEventListener('resize', relayout);
+        };
+    }, [videoRef]);
+
+    return videoRef.current ? getVideoMapping(videoRef.current) : null;
+}
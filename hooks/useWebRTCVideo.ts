@@ -1,43 +1,92 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Socket } from 'socket.io-client';
+import { SignalingTransport } from '../services/signalingTransport';
+import { onServerEvent } from '../services/signalingSocket';
+import { fetchIceConfig } from '../services/iceConfig';
 
 interface UseWebRTCVideoOptions {
-    socket: Socket | null;
+    socket: SignalingTransport | null;
     isConnected: boolean;
     localVideoRef?: React.RefObject<HTMLVideoElement | null>;
-    remoteVideoRef?: React.RefObject<HTMLVideoElement | null>;
-    role: 'TECH' | 'RADIOLOGIST'; // Each role has their own camera
+    role: 'TECH' | 'RADIOLOGIST' | 'OBSERVER'; // Used to tag log lines
+    // Watch the other participants without opening the camera or microphone
+    receiveOnly?: boolean;
+    // Message received on a call's data channel (parsed JSON), e.g. the radiologist's laser pointer
+    onData?: (peerId: string, data: unknown) => void;
 }
 
 interface UseWebRTCVideoReturn {
     isVideoActive: boolean;
+    // True while at least one participant's call is up
     isRemoteConnected: boolean;
-    startVideo: () => Promise<void>;
+    // Remote camera streams by participant socket id
+    remoteStreams: Record<string, MediaStream>;
+    // Socket ids of the participants whose call is connected
+    connectedPeers: string[];
+    startVideo: (peerIds: string[]) => Promise<void>;
+    closePeer: (peerId: string) => void;
     stopVideo: () => void;
     localStream: MediaStream | null;
+    // Send a message to every participant whose data channel is open; it is dropped rather than resent when late
+    sendData: (data: unknown) => void;
 }
 
-const ICE_SERVERS = [
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    { urls: 'stun:stun2.l.google.com:19302' },
-    { urls: 'stun:stun3.l.google.com:19302' },
-];
+// One call per remote participant socket. `pc` is null while the ICE configuration is fetched.
+interface PeerCall {
+    pc: RTCPeerConnection | null;
+    channel: RTCDataChannel | null;
+    pendingCandidates: RTCIceCandidateInit[];
+}
 
+// Data channel of every call. Both ends create it with the same id, so it needs no signaling of its own;
+// it keeps messages in order but never retransmits them, so a lost pointer position is skipped, not delayed.
+const DATA_CHANNEL_OPTIONS: RTCDataChannelInit = { negotiated: true, id: 0, ordered: true, maxRetransmits: 0 };
+
+const VIDEO_CONSTRAINTS: MediaStreamConstraints = {
+    video: {
+        width: { ideal: 1280 },
+        height: { ideal: 720 }
+    },
+    audio: true
+};
+
+// Explain why the camera could not be opened
+const alertMediaError = (error: any) => {
+    if (error?.name === 'NotAllowedError' || error?.name === 'PermissionDeniedError') {
+        alert('Camera access denied. Please allow camera access in your browser settings.');
+    } else if (window.location.protocol === 'http:' && window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1') {
+        alert('Camera access blocked! Browsers block camera on http:// (remote IP). Please check the instructions provided or use localhost.');
+    } else {
+        alert(`Camera error: ${error?.message || 'Could not access camera'}`);
+    }
+};
+
+/**
+ * Video calls with every other participant of a session room (a full mesh).
+ * Whoever joins a room calls the participants already in it (`startVideo`);
+ * everyone else answers incoming offers. Calls are keyed by socket id, so a
+ * participant who reconnects gets a fresh call and the stale one is closed
+ * when their old socket leaves (`closePeer`).
+ */
 export function useWebRTCVideo({
     socket,
     isConnected,
     localVideoRef,
-    remoteVideoRef,
     role,
+    receiveOnly = false,
+    onData,
 }: UseWebRTCVideoOptions): UseWebRTCVideoReturn {
     const [isVideoActive, setIsVideoActive] = useState(false);
-    const [isRemoteConnected, setIsRemoteConnected] = useState(false);
+    const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+    const [connectedPeers, setConnectedPeers] = useState<string[]>([]);
     const [localStream, setLocalStream] = useState<MediaStream | null>(null);
 
-    const peerConnection = useRef<RTCPeerConnection | null>(null);
+    const peers = useRef(new Map<string, PeerCall>());
+    // Candidates that arrive before we have set up the call they belong to
+    const earlyCandidates = useRef(new Map<string, RTCIceCandidateInit[]>());
     const localStreamRef = useRef<MediaStream | null>(null);
-    const pendingCandidates = useRef<RTCIceCandidate[]>([]);
+    // Read from a ref so callers can pass an inline closure
+    const onDataRef = useRef(onData);
+    onDataRef.current = onData;
 
     // Cleanup on unmount
     useEffect(() => {
@@ -46,85 +95,132 @@ export function useWebRTCVideo({
         };
     }, []);
 
-    const createPeerConnection = useCallback(() => {
-        const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const setPeerConnected = (peerId: string, connected: boolean) => {
+        setConnectedPeers(prev => {
+            const others = prev.filter(id => id !== peerId);
+            return connected ? [...others, peerId] : others;
+        });
+    };
+
+    // Camera and microphone, opened once and shared by every call; none when receive-only
+    const getLocalStream = useCallback(async (): Promise<MediaStream | null> => {
+        if (receiveOnly) return null;
+        let stream = localStreamRef.current;
+        if (!stream) {
+            stream = await navigator.mediaDevices.getUserMedia(VIDEO_CONSTRAINTS);
+            localStreamRef.current = stream;
+            setLocalStream(stream);
+        }
+        if (localVideoRef?.current) {
+            localVideoRef.current.srcObject = stream;
+        }
+        return stream;
+    }, [localVideoRef, receiveOnly]);
+
+    const closePeer = useCallback((peerId: string) => {
+        const call = peers.current.get(peerId);
+        if (!call) return;
+        console.log(`[WebRTC Video ${role}] Closing call with ${peerId}`);
+        call.pc?.close();
+        peers.current.delete(peerId);
+        setRemoteStreams(prev => {
+            const { [peerId]: _closed, ...rest } = prev;
+            return rest;
+        });
+        setPeerConnected(peerId, false);
+    }, [role]);
+
+    // Replaces any previous call with the same peer (e.g. one that died with a network drop)
+    const createPeerConnection = useCallback(async (peerId: string, stream: MediaStream | null) => {
+        // Candidates the replaced call had not applied yet belong to the same negotiation
+        const carried = peers.current.get(peerId)?.pendingCandidates ?? [];
+        closePeer(peerId);
+        const call: PeerCall = { pc: null, channel: null, pendingCandidates: [...carried, ...(earlyCandidates.current.get(peerId) ?? [])] };
+        earlyCandidates.current.delete(peerId);
+        // Registered before the await so candidates arriving meanwhile are queued
+        peers.current.set(peerId, call);
+
+        // STUN/TURN servers come from the signaling server; TURN credentials are short-lived
+        const config = socket ? await fetchIceConfig(socket) : {};
+        // A newer call with this peer was started while we waited
+        if (peers.current.get(peerId) !== call) throw new Error(`Call with ${peerId} was replaced`);
+        const pc = new RTCPeerConnection(config);
+        call.pc = pc;
+        call.channel = pc.createDataChannel('data', DATA_CHANNEL_OPTIONS);
+        call.channel.onmessage = (event) => {
+            try {
+                onDataRef.current?.(peerId, JSON.parse(event.data));
+            } catch (error) {
+                console.warn(`[WebRTC Video ${role}] Dropped data channel message from ${peerId}:`, error);
+            }
+        };
 
         pc.onicecandidate = (event) => {
             if (event.candidate && socket) {
-                console.log(`[WebRTC Video ${role}] Sending ICE candidate`);
-                socket.emit('webrtc-video-ice-candidate', { candidate: event.candidate, role });
+                socket.emit('webrtc-video-ice-candidate', { candidate: event.candidate.toJSON(), to: peerId });
             }
         };
 
         pc.ontrack = (event) => {
-            console.log(`[WebRTC Video ${role}] Remote track received:`, event.track.kind);
-            if (remoteVideoRef?.current && event.streams[0]) {
-                remoteVideoRef.current.srcObject = event.streams[0];
-                setIsRemoteConnected(true);
+            console.log(`[WebRTC Video ${role}] Remote track from ${peerId}:`, event.track.kind);
+            const [remoteStream] = event.streams;
+            if (remoteStream) {
+                setRemoteStreams(prev => ({ ...prev, [peerId]: remoteStream }));
             }
         };
 
         pc.onconnectionstatechange = () => {
-            console.log(`[WebRTC Video ${role}] Connection state:`, pc.connectionState);
+            console.log(`[WebRTC Video ${role}] Connection state with ${peerId}:`, pc.connectionState);
             if (pc.connectionState === 'connected') {
-                setIsRemoteConnected(true);
+                setPeerConnected(peerId, true);
             } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
-                setIsRemoteConnected(false);
+                setPeerConnected(peerId, false);
             }
         };
 
-        pc.oniceconnectionstatechange = () => {
-            console.log(`[WebRTC Video ${role}] ICE connection state:`, pc.iceConnectionState);
-        };
-
-        return pc;
-    }, [socket, remoteVideoRef, role]);
+        if (stream) {
+            stream.getTracks().forEach(track => pc.addTrack(track, stream));
+        } else {
+            // Nothing to send, but the offer still has to ask for the peer's audio and video
+            pc.addTransceiver('audio', { direction: 'recvonly' });
+            pc.addTransceiver('video', { direction: 'recvonly' });
+        }
+        return { pc, call };
+    }, [socket, role, closePeer]);
+
+    // Queued candidates can only be applied once the remote description is known
+    const flushCandidates = async (pc: RTCPeerConnection, call: PeerCall) => {
+        const candidates = call.pendingCandidates;
+        call.pendingCandidates = [];
+        for (const candidate of candidates) {
+            // Candidates left over from a previous call with the same peer are expected to fail
+            await pc.addIceCandidate(candidate).catch(error => console.warn(`[WebRTC Video ${role}] Dropped ICE candidate:`, error));
+        }
+    };
 
-    const startVideo = useCallback(async () => {
-        if (!socket || !isConnected) {
+    const startVideo = useCallback(async (peerIds: string[]) => {
+        // The state can lag behind the socket when called straight from a signal handler
+        if (!socket || !(isConnected || socket.connected)) {
             console.error(`[WebRTC Video ${role}] Socket not connected`);
             return;
         }
 
         try {
-            // Get camera access - both roles share their camera
-            const stream = await navigator.mediaDevices.getUserMedia({
-                video: {
-                    width: { ideal: 1280 },
-                    height: { ideal: 720 }
-                },
-                audio: true
-            });
-            localStreamRef.current = stream;
-            setLocalStream(stream);
+            const stream = await getLocalStream();
+            setIsVideoActive(true);
 
-            // Show local preview
-            if (localVideoRef?.current) {
-                localVideoRef.current.srcObject = stream;
+            for (const peerId of peerIds) {
+                const { pc } = await createPeerConnection(peerId, stream);
+                const offer = await pc.createOffer();
+                await pc.setLocalDescription(offer);
+                socket.emit('webrtc-video-offer', { offer, to: peerId });
+                console.log(`[WebRTC Video ${role}] Offer sent to ${peerId}`);
             }
-
-            // Create peer connection
-            const pc = createPeerConnection();
-            peerConnection.current = pc;
-
-            // Add local tracks
-            stream.getTracks().forEach(track => {
-                console.log(`[WebRTC Video ${role}] Adding track:`, track.kind);
-                pc.addTrack(track, stream);
-            });
-
-            // Create and send offer
-            const offer = await pc.createOffer();
-            await pc.setLocalDescription(offer);
-
-            socket.emit('webrtc-video-offer', { offer, role });
-            setIsVideoActive(true);
-            console.log(`[WebRTC Video ${role}] Video started, offer sent`);
         } catch (error) {
             console.error(`[WebRTC Video ${role}] Failed to start video:`, error);
-            alert('Could not access camera. Please check permissions.');
+            alertMediaError(error);
         }
-    }, [socket, isConnected, role, createPeerConnection, localVideoRef]);
+    }, [socket, isConnected, role, getLocalStream, createPeerConnection]);
 
     const stopVideo = useCallback(() => {
         // Stop local tracks
@@ -132,140 +228,110 @@ export function useWebRTCVideo({
         localStreamRef.current = null;
         setLocalStream(null);
 
-        // Close peer connection
-        peerConnection.current?.close();
-        peerConnection.current = null;
+        // Close every call
+        peers.current.forEach(call => call.pc?.close());
+        peers.current.clear();
+        earlyCandidates.current.clear();
 
         // Clear video elements
         if (localVideoRef?.current) {
             localVideoRef.current.srcObject = null;
         }
-        if (remoteVideoRef?.current) {
-            remoteVideoRef.current.srcObject = null;
-        }
 
         setIsVideoActive(false);
-        setIsRemoteConnected(false);
-        pendingCandidates.current = [];
-    }, [localVideoRef, remoteVideoRef]);
+        setRemoteStreams({});
+        setConnectedPeers([]);
+    }, [localVideoRef]);
+
+    const sendData = useCallback((data: unknown) => {
+        const message = JSON.stringify(data);
+        peers.current.forEach(call => {
+            if (call.channel?.readyState === 'open') call.channel.send(message);
+        });
+    }, []);
 
     // Handle incoming WebRTC events
     useEffect(() => {
         if (!socket) return;
 
         const handleVideoOffer = async ({ offer, from, senderRole }: { offer: RTCSessionDescriptionInit; from: string; senderRole: string }) => {
-            // Only handle offers from the OTHER role
-            if (senderRole === role) return;
-
             console.log(`[WebRTC Video ${role}] Received video offer from ${senderRole}:`, from);
 
             try {
-                // Get our own camera to send back
-                let stream = localStreamRef.current;
-                if (!stream) {
-                    stream = await navigator.mediaDevices.getUserMedia({
-                        video: {
-                            width: { ideal: 1280 },
-                            height: { ideal: 720 }
-                        },
-                        audio: true
-                    });
-                    localStreamRef.current = stream;
-                    setLocalStream(stream);
-
-                    // Show local preview
-                    if (localVideoRef?.current) {
-                        localVideoRef.current.srcObject = stream;
-                    }
-                }
-
-                // Create peer connection
-                const pc = createPeerConnection();
-                peerConnection.current = pc;
-
-                // Add our local tracks so the other side can see us
-                stream.getTracks().forEach(track => {
-                    console.log(`[WebRTC Video ${role}] Adding track to answer:`, track.kind);
-                    pc.addTrack(track, stream);
-                });
+                // Send our own camera back; a new offer replaces any previous call with this peer
+                const stream = await getLocalStream();
+                const { pc, call } = await createPeerConnection(from, stream);
 
-                // Set remote description
                 await pc.setRemoteDescription(new RTCSessionDescription(offer));
+                await flushCandidates(pc, call);
 
-                // Apply pending ICE candidates
-                for (const candidate of pendingCandidates.current) {
-                    await pc.addIceCandidate(candidate);
-                }
-                pendingCandidates.current = [];
-
-                // Create and send answer
                 const answer = await pc.createAnswer();
                 await pc.setLocalDescription(answer);
 
-                socket.emit('webrtc-video-answer', { answer, to: from, role });
+                socket.emit('webrtc-video-answer', { answer, to: from });
                 setIsVideoActive(true);
-                console.log(`[WebRTC Video ${role}] Video answer sent`);
+                console.log(`[WebRTC Video ${role}] Video answer sent to ${from}`);
             } catch (error) {
                 console.error(`[WebRTC Video ${role}] Failed to handle video offer:`, error);
             }
         };
 
         const handleVideoAnswer = async ({ answer, from, senderRole }: { answer: RTCSessionDescriptionInit; from: string; senderRole: string }) => {
-            // Only handle answers from the OTHER role
-            if (senderRole === role) return;
-
             console.log(`[WebRTC Video ${role}] Received video answer from ${senderRole}:`, from);
 
-            if (peerConnection.current) {
+            const call = peers.current.get(from);
+            if (call?.pc) {
                 try {
-                    await peerConnection.current.setRemoteDescription(new RTCSessionDescription(answer));
-
-                    // Apply pending ICE candidates
-                    for (const candidate of pendingCandidates.current) {
-                        await peerConnection.current.addIceCandidate(candidate);
-                    }
-                    pendingCandidates.current = [];
-                    console.log(`[WebRTC Video ${role}] Remote description set`);
+                    await call.pc.setRemoteDescription(new RTCSessionDescription(answer));
+                    await flushCandidates(call.pc, call);
+                    console.log(`[WebRTC Video ${role}] Remote description set for ${from}`);
                 } catch (error) {
                     console.error(`[WebRTC Video ${role}] Failed to set remote description:`, error);
                 }
             }
         };
 
-        const handleVideoIceCandidate = async ({ candidate, from, senderRole }: { candidate: RTCIceCandidateInit; from: string; senderRole: string }) => {
-            // Only handle ICE from the OTHER role
-            if (senderRole === role) return;
+        const handleVideoIceCandidate = async ({ candidate, from }: { candidate: RTCIceCandidateInit; from: string }) => {
+            const call = peers.current.get(from);
+            if (!call) {
+                // The offer that goes with it is still being handled (camera prompt, ICE config)
+                earlyCandidates.current.set(from, [...(earlyCandidates.current.get(from) ?? []), candidate]);
+                return;
+            }
 
-            console.log(`[WebRTC Video ${role}] Received ICE candidate from ${senderRole}`);
-            if (peerConnection.current && peerConnection.current.remoteDescription) {
+            if (call.pc?.remoteDescription) {
                 try {
-                    await peerConnection.current.addIceCandidate(new RTCIceCandidate(candidate));
+                    await call.pc.addIceCandidate(new RTCIceCandidate(candidate));
                 } catch (error) {
                     console.error(`[WebRTC Video ${role}] Failed to add ICE candidate:`, error);
                 }
             } else {
                 // Queue candidate if remote description not set yet
-                pendingCandidates.current.push(new RTCIceCandidate(candidate));
+                call.pendingCandidates.push(candidate);
             }
         };
 
-        socket.on('webrtc-video-offer', handleVideoOffer);
-        socket.on('webrtc-video-answer', handleVideoAnswer);
-        socket.on('webrtc-video-ice-candidate', handleVideoIceCandidate);
+        const unsubscribers = [
+            onServerEvent(socket, 'webrtc-video-offer', handleVideoOffer),
+            onServerEvent(socket, 'webrtc-video-answer', handleVideoAnswer),
+            onServerEvent(socket, 'webrtc-video-ice-candidate', handleVideoIceCandidate),
+        ];
 
         return () => {
-            socket.off('webrtc-video-offer', handleVideoOffer);
-            socket.off('webrtc-video-answer', handleVideoAnswer);
-            socket.off('webrtc-video-ice-candidate', handleVideoIceCandidate);
+            unsubscribers.forEach(unsubscribe => unsubscribe());
         };
-    }, [socket, createPeerConnection, role, localVideoRef]);
+    }, [socket, createPeerConnection, getLocalStream, role]);
 
     return {
         isVideoActive,
-        isRemoteConnected,
+        isRemoteConnected: connectedPeers.length > 0,
+        remoteStreams,
+        connectedPeers,
         startVideo,
+        closePeer,
         stopVideo,
         localStream,
+        sendData,
     };
 }
 
@@ -1,8 +1,10 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Socket } from 'socket.io-client';
+import { SignalingTransport } from '../services/signalingTransport';
+import { onServerEvent } from '../services/signalingSocket';
+import { fetchIceConfig } from '../services/iceConfig';
 
 interface UseWebRTCVoiceOptions {
-    socket: Socket | null;
+    socket: SignalingTransport | null;
     isConnected: boolean;
 }
 
@@ -10,37 +12,31 @@ interface UseWebRTCVoiceReturn {
     isVoiceActive: boolean;
     isMuted: boolean;
     isRemoteConnected: boolean;
-    startVoice: () => Promise<void>;
+    startVoice: (peerIds: string[]) => Promise<void>;
+    closePeer: (peerId: string) => void;
     stopVoice: () => void;
     toggleMute: () => void;
 }
 
-const ICE_SERVERS = [
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-];
+// One audio call per remote participant socket. `pc` is null while the ICE configuration is fetched.
+interface PeerCall {
+    pc: RTCPeerConnection | null;
+    audio: HTMLAudioElement;
+    pendingCandidates: RTCIceCandidateInit[];
+}
 
+/**
+ * Audio-only calls with every other participant of a session room, set up
+ * like useWebRTCVideo: the joiner calls, the others answer.
+ */
 export function useWebRTCVoice({ socket, isConnected }: UseWebRTCVoiceOptions): UseWebRTCVoiceReturn {
     const [isVoiceActive, setIsVoiceActive] = useState(false);
     const [isMuted, setIsMuted] = useState(false);
-    const [isRemoteConnected, setIsRemoteConnected] = useState(false);
+    const [connectedPeers, setConnectedPeers] = useState<string[]>([]);
 
-    const peerConnection = useRef<RTCPeerConnection | null>(null);
+    const peers = useRef(new Map<string, PeerCall>());
+    const earlyCandidates = useRef(new Map<string, RTCIceCandidateInit[]>());
     const localStream = useRef<MediaStream | null>(null);
-    const remoteAudio = useRef<HTMLAudioElement | null>(null);
-    const pendingCandidates = useRef<RTCIceCandidate[]>([]);
-
-    // Create audio element for remote audio playback
-    useEffect(() => {
-        if (!remoteAudio.current) {
-            remoteAudio.current = new Audio();
-            remoteAudio.current.autoplay = true;
-        }
-        return () => {
-            remoteAudio.current?.pause();
-            remoteAudio.current = null;
-        };
-    }, []);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -49,85 +45,122 @@ export function useWebRTCVoice({ socket, isConnected }: UseWebRTCVoiceOptions):
         };
     }, []);
 
-    const createPeerConnection = useCallback(() => {
-        const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const setPeerConnected = (peerId: string, connected: boolean) => {
+        setConnectedPeers(prev => {
+            const others = prev.filter(id => id !== peerId);
+            return connected ? [...others, peerId] : others;
+        });
+    };
+
+    // Microphone, opened once and shared by every call
+    const getLocalStream = useCallback(async () => {
+        if (!localStream.current) {
+            localStream.current = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+        }
+        return localStream.current;
+    }, []);
+
+    const closePeer = useCallback((peerId: string) => {
+        const call = peers.current.get(peerId);
+        if (!call) return;
+        call.pc?.close();
+        call.audio.pause();
+        call.audio.srcObject = null;
+        peers.current.delete(peerId);
+        setPeerConnected(peerId, false);
+    }, []);
+
+    // Replaces any previous call with the same peer
+    const createPeerConnection = useCallback(async (peerId: string, stream: MediaStream) => {
+        // Candidates the replaced call had not applied yet belong to the same negotiation
+        const carried = peers.current.get(peerId)?.pendingCandidates ?? [];
+        closePeer(peerId);
+        const audio = new Audio();
+        audio.autoplay = true;
+        const call: PeerCall = { pc: null, audio, pendingCandidates: [...carried, ...(earlyCandidates.current.get(peerId) ?? [])] };
+        earlyCandidates.current.delete(peerId);
+        peers.current.set(peerId, call);
+
+        // STUN/TURN servers come from the signaling server; TURN credentials are short-lived
+        const config = socket ? await fetchIceConfig(socket) : {};
+        if (peers.current.get(peerId) !== call) throw new Error(`Call with ${peerId} was replaced`);
+        const pc = new RTCPeerConnection(config);
+        call.pc = pc;
 
         pc.onicecandidate = (event) => {
             if (event.candidate && socket) {
-                socket.emit('webrtc-ice-candidate', { candidate: event.candidate });
+                socket.emit('webrtc-ice-candidate', { candidate: event.candidate.toJSON(), to: peerId });
             }
         };
 
         pc.ontrack = (event) => {
-            console.log('[WebRTC] Remote track received');
-            if (remoteAudio.current && event.streams[0]) {
-                remoteAudio.current.srcObject = event.streams[0];
-                setIsRemoteConnected(true);
+            console.log(`[WebRTC] Remote track received from ${peerId}`);
+            if (event.streams[0]) {
+                audio.srcObject = event.streams[0];
+                setPeerConnected(peerId, true);
             }
         };
 
         pc.onconnectionstatechange = () => {
-            console.log('[WebRTC] Connection state:', pc.connectionState);
+            console.log(`[WebRTC] Connection state with ${peerId}:`, pc.connectionState);
             if (pc.connectionState === 'connected') {
-                setIsRemoteConnected(true);
+                setPeerConnected(peerId, true);
             } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
-                setIsRemoteConnected(false);
+                setPeerConnected(peerId, false);
             }
         };
 
-        return pc;
-    }, [socket]);
+        stream.getTracks().forEach(track => pc.addTrack(track, stream));
+        return { pc, call };
+    }, [socket, closePeer]);
+
+    const flushCandidates = async (pc: RTCPeerConnection, call: PeerCall) => {
+        const candidates = call.pendingCandidates;
+        call.pendingCandidates = [];
+        for (const candidate of candidates) {
+            await pc.addIceCandidate(candidate).catch(error => console.warn('[WebRTC] Dropped ICE candidate:', error));
+        }
+    };
 
-    const startVoice = useCallback(async () => {
+    const startVoice = useCallback(async (peerIds: string[]) => {
         if (!socket || !isConnected) {
             console.error('[WebRTC] Socket not connected');
             return;
         }
 
         try {
-            // Get microphone access
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-            localStream.current = stream;
-
-            // Create peer connection
-            const pc = createPeerConnection();
-            peerConnection.current = pc;
-
-            // Add local audio track
-            stream.getTracks().forEach(track => {
-                pc.addTrack(track, stream);
-            });
-
-            // Create and send offer
-            const offer = await pc.createOffer();
-            await pc.setLocalDescription(offer);
-
-            socket.emit('webrtc-offer', offer);
+            const stream = await getLocalStream();
             setIsVoiceActive(true);
-            console.log('[WebRTC] Voice started, offer sent');
+
+            for (const peerId of peerIds) {
+                const { pc } = await createPeerConnection(peerId, stream);
+                const offer = await pc.createOffer();
+                await pc.setLocalDescription(offer);
+                socket.emit('webrtc-offer', { offer, to: peerId });
+                console.log(`[WebRTC] Voice offer sent to ${peerId}`);
+            }
         } catch (error) {
             console.error('[WebRTC] Failed to start voice:', error);
             alert('Could not access microphone. Please check permissions.');
         }
-    }, [socket, isConnected, createPeerConnection]);
+    }, [socket, isConnected, getLocalStream, createPeerConnection]);
 
     const stopVoice = useCallback(() => {
         // Stop local tracks
         localStream.current?.getTracks().forEach(track => track.stop());
         localStream.current = null;
 
-        // Close peer connection
-        peerConnection.current?.close();
-        peerConnection.current = null;
-
-        // Clear remote audio
-        if (remoteAudio.current) {
-            remoteAudio.current.srcObject = null;
-        }
+        // Close every call and its audio element
+        peers.current.forEach(call => {
+            call.pc?.close();
+            call.audio.pause();
+            call.audio.srcObject = null;
+        });
+        peers.current.clear();
+        earlyCandidates.current.clear();
 
         setIsVoiceActive(false);
-        setIsRemoteConnected(false);
-        pendingCandidates.current = [];
+        setConnectedPeers([]);
     }, []);
 
     const toggleMute = useCallback(() => {
@@ -148,34 +181,18 @@ export function useWebRTCVoice({ socket, isConnected }: UseWebRTCVoiceOptions):
             console.log('[WebRTC] Received offer from:', from);
 
             try {
-                // Get microphone access
-                const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-                localStream.current = stream;
-
-                // Create peer connection
-                const pc = createPeerConnection();
-                peerConnection.current = pc;
+                const stream = await getLocalStream();
+                const { pc, call } = await createPeerConnection(from, stream);
 
-                // Add local audio track
-                stream.getTracks().forEach(track => {
-                    pc.addTrack(track, stream);
-                });
-
-                // Set remote description and create answer
                 await pc.setRemoteDescription(new RTCSessionDescription(offer));
-
-                // Apply pending ICE candidates
-                for (const candidate of pendingCandidates.current) {
-                    await pc.addIceCandidate(candidate);
-                }
-                pendingCandidates.current = [];
+                await flushCandidates(pc, call);
 
                 const answer = await pc.createAnswer();
                 await pc.setLocalDescription(answer);
 
                 socket.emit('webrtc-answer', { answer, to: from });
                 setIsVoiceActive(true);
-                console.log('[WebRTC] Answer sent');
+                console.log(`[WebRTC] Answer sent to ${from}`);
             } catch (error) {
                 console.error('[WebRTC] Failed to handle offer:', error);
             }
@@ -184,15 +201,11 @@ export function useWebRTCVoice({ socket, isConnected }: UseWebRTCVoiceOptions):
         const handleAnswer = async ({ answer, from }: { answer: RTCSessionDescriptionInit; from: string }) => {
             console.log('[WebRTC] Received answer from:', from);
 
-            if (peerConnection.current) {
+            const call = peers.current.get(from);
+            if (call?.pc) {
                 try {
-                    await peerConnection.current.setRemoteDescription(new RTCSessionDescription(answer));
-
-                    // Apply pending ICE candidates
-                    for (const candidate of pendingCandidates.current) {
-                        await peerConnection.current.addIceCandidate(candidate);
-                    }
-                    pendingCandidates.current = [];
+                    await call.pc.setRemoteDescription(new RTCSessionDescription(answer));
+                    await flushCandidates(call.pc, call);
                     console.log('[WebRTC] Remote description set');
                 } catch (error) {
                     console.error('[WebRTC] Failed to set remote description:', error);
@@ -201,34 +214,42 @@ export function useWebRTCVoice({ socket, isConnected }: UseWebRTCVoiceOptions):
         };
 
         const handleIceCandidate = async ({ candidate, from }: { candidate: RTCIceCandidateInit; from: string }) => {
-            if (peerConnection.current && peerConnection.current.remoteDescription) {
+            const call = peers.current.get(from);
+            if (!call) {
+                // The offer that goes with it is still being handled
+                earlyCandidates.current.set(from, [...(earlyCandidates.current.get(from) ?? []), candidate]);
+                return;
+            }
+
+            if (call.pc?.remoteDescription) {
                 try {
-                    await peerConnection.current.addIceCandidate(new RTCIceCandidate(candidate));
+                    await call.pc.addIceCandidate(new RTCIceCandidate(candidate));
                 } catch (error) {
                     console.error('[WebRTC] Failed to add ICE candidate:', error);
                 }
             } else {
                 // Queue candidate if remote description not set yet
-                pendingCandidates.current.push(new RTCIceCandidate(candidate));
+                call.pendingCandidates.push(candidate);
             }
         };
 
-        socket.on('webrtc-offer', handleOffer);
-        socket.on('webrtc-answer', handleAnswer);
-        socket.on('webrtc-ice-candidate', handleIceCandidate);
+        const unsubscribers = [
+            onServerEvent(socket, 'webrtc-offer', handleOffer),
+            onServerEvent(socket, 'webrtc-answer', handleAnswer),
+            onServerEvent(socket, 'webrtc-ice-candidate', handleIceCandidate),
+        ];
 
         return () => {
-            socket.off('webrtc-offer', handleOffer);
-            socket.off('webrtc-answer', handleAnswer);
-            socket.off('webrtc-ice-candidate', handleIceCandidate);
+            unsubscribers.forEach(unsubscribe => unsubscribe());
         };
-    }, [socket, createPeerConnection]);
+    }, [socket, createPeerConnection, getLocalStream]);
 
     return {
         isVoiceActive,
         isMuted,
-        isRemoteConnected,
+        isRemoteConnected: connectedPeers.length > 0,
         startVoice,
+        closePeer,
         stopVoice,
         toggleMute,
     };
@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import express from 'express';
+
+// ============================================
+// PASSWORD HASHING
+// ============================================
+
+// Hashes are stored as `scrypt$<salt>$<hash>` (both hex encoded)
+const SCRYPT_KEYLEN = 64;
+
+export const hashPassword = (password) => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+};
+
+export const verifyPassword = (password, stored) => {
+    const [scheme, salt, hash] = (stored || '').split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+};
+
+// ============================================
+// USER STORE
+// ============================================
+
+// Local user store backed by a JSON file (see data/users.json)
+const loadUsers = (usersFile) => {
+    try {
+        return JSON.parse(fs.readFileSync(usersFile, 'utf8'));
+    } catch (error) {
+        console.error(`[AUTH] Could not read user store ${usersFile}: ${error.message}`);
+        return [];
+    }
+};
+
+// Public view of a user record (never expose the password hash)
+const toProfile = (user) => ({ id: user.id, name: user.name, role: user.role });
+
+// Staffing data used for routing: subspecialties (e.g. CARDIAC, OB, VASCULAR) and duty hours
+const toStaffProfile = (user) => ({
+    ...toProfile(user),
+    subspecialties: user.subspecialties || [],
+    shift: user.shift || null
+});
+
+// ============================================
+// SESSION TOKENS
+// ============================================
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const decode = (value) => JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+/**
+ * Creates the authentication service: credential checks against the local
+ * user store, HMAC-signed session tokens, an Express router for
+ * login/logout and a Socket.IO handshake middleware.
+ */
+export const createAuth = ({ usersFile, secret, tokenTtlMs, onLogout }) => {
+    const users = loadUsers(usersFile);
+    const revokedTokens = new Map(); // tokenId -> expiresAt
+
+    if (!secret) {
+        secret = crypto.randomBytes(32).toString('hex');
+        console.warn('[AUTH] AUTH_SECRET not set, using a random secret (sessions will not survive a restart)');
+    }
+
+    const sign = (data) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+    const issueToken = (user) => {
+        const now = Date.now();
+        const claims = {
+            jti: crypto.randomUUID(),
+            sub: user.id,
+            name: user.name,
+            role: user.role,
+            iat: now,
+            exp: now + tokenTtlMs
+        };
+        const body = encode(claims);
+        return { token: `${body}.${sign(body)}`, claims };
+    };
+
+    // Returns the token claims, or null if the token is malformed, forged, expired or revoked
+    const verifyToken = (token) => {
+        if (typeof token !== 'string') return null;
+        const [body, signature] = token.split('.');
+        if (!body || !signature) return null;
+
+        const expected = Buffer.from(sign(body));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        let claims;
+        try {
+            claims = decode(body);
+        } catch (e) {
+            return null;
+        }
+
+        if (!claims.exp || claims.exp < Date.now()) return null;
+        if (revokedTokens.has(claims.jti)) return null;
+        return claims;
+    };
+
+    const revokeToken = (claims) => {
+        revokedTokens.set(claims.jti, claims.exp);
+
+        // Drop revocations that would have expired anyway
+        const now = Date.now();
+        for (const [tokenId, expiresAt] of revokedTokens) {
+            if (expiresAt < now) revokedTokens.delete(tokenId);
+        }
+    };
+
+    const readBearerToken = (req) => {
+        const header = req.headers.authorization || '';
+        return header.startsWith('Bearer ') ? header.slice(7) : null;
+    };
+
+    // Express middleware: rejects requests without a valid bearer token
+    const requireAuth = (req, res, next) => {
+        const claims = verifyToken(readBearerToken(req));
+        if (!claims) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+        req.auth = claims;
+        next();
+    };
+
+    // Socket.IO middleware: the handshake must carry a valid token in `auth.token`
+    const socketMiddleware = (socket, next) => {
+        const claims = verifyToken(socket.handshake.auth?.token);
+        if (!claims) {
+            console.log(`[AUTH] Rejected socket ${socket.id}: missing or invalid token`);
+            return next(new Error('UNAUTHORIZED'));
+        }
+        socket.data.auth = claims;
+        socket.data.user = { id: claims.sub, name: claims.name, role: claims.role };
+        next();
+    };
+
+    // ----------------------------------------
+    // REST ENDPOINTS
+    // ----------------------------------------
+    const router = express.Router();
+
+    router.post('/login', (req, res) => {
+        const { username, password, role } = req.body || {};
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            return res.status(400).json({ error: 'Username and password are required' });
+        }
+
+        const user = users.find(u => u.username === username);
+        // Same response for unknown users, wrong passwords and role mismatches
+        if (!user || !verifyPassword(password, user.passwordHash) || (role && role !== user.role)) {
+            console.log(`[AUTH] Failed login for ${username}`);
+            return res.status(401).json({ error: 'Invalid credentials or role mismatch' });
+        }
+
+        const { token, claims } = issueToken(user);
+        console.log(`[AUTH] ${user.name} logged in as ${user.role}`);
+        res.json({ token, expiresAt: claims.exp, user: toProfile(user) });
+    });
+
+    router.post('/logout', requireAuth, (req, res) => {
+        revokeToken(req.auth);
+        console.log(`[AUTH] ${req.auth.name} logged out`);
+        onLogout?.(req.auth);
+        res.status(204).end();
+    });
+
+    router.get('/me', requireAuth, (req, res) => {
+        res.json({ user: { id: req.auth.sub, name: req.auth.name, role: req.auth.role }, expiresAt: req.auth.exp });
+    });
+
+    // Directory lookup for the signaling server's auto-dispatch
+    const getStaffProfile = (userId) => {
+        const user = users.find(u => u.id === userId);
+        return user ? toStaffProfile(user) : null;
+    };
+
+    return { router, requireAuth, socketMiddleware, verifyToken, getStaffProfile };
+};
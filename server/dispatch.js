@@ -0,0 +1,76 @@
+// ============================================
+// AUTO-DISPATCH RANKING
+// ============================================
+
+// Radiologist subspecialty needed to read each exam type (GENERAL needs none)
+export const SUBSPECIALTY_BY_EXAM = {
+    GENERAL: null,
+    CARDIAC: 'CARDIAC',
+    OB: 'OB',
+    VASCULAR: 'VASCULAR'
+};
+
+// Score weights: a subspecialty match outweighs load, which outweighs a poor decline record
+const MATCH_SCORE = 100;
+const LOAD_PENALTY = 20;
+const DECLINE_PENALTY = 50;
+
+// "HH:MM" -> minutes since midnight
+const toMinutes = (time) => {
+    const [hours, minutes] = String(time).split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+};
+
+/**
+ * True when `now` falls inside the shift, in server local time. Shifts may
+ * run past midnight (e.g. 20:00-08:00). No shift means always on duty.
+ */
+export const isOnShift = (shift, now = new Date()) => {
+    if (!shift?.start || !shift?.end) return true;
+    const start = toMinutes(shift.start);
+    const end = toMinutes(shift.end);
+    const current = now.getHours() * 60 + now.getMinutes();
+    return start <= end
+        ? current >= start && current < end
+        : current >= start || current < end;
+};
+
+// Share of invites declined (0 for radiologists who have never been invited)
+export const declineRate = ({ invites = 0, declines = 0 } = {}) => (invites > 0 ? declines / invites : 0);
+
+/**
+ * Orders the radiologists who can take a session request, best first.
+ * Off-shift, unavailable, fully loaded radiologists and those who already
+ * declined this request are left out.
+ *
+ * @param {object} request - the session request (`examType`, `declinedBy`)
+ * @param {Array<{ user, profile, load, stats }>} candidates - connected radiologists with their
+ *   directory profile (`subspecialties`, `shift`), number of sessions in progress and invite stats
+ * @param {object} [options]
+ * @param {number} [options.maxLoad] - sessions a radiologist may hold at once
+ * @param {Date} [options.now]
+ * @returns {Array<{ user, score: number, reason: string }>}
+ */
+export const rankRadiologists = (request, candidates, { maxLoad = 1, now = new Date() } = {}) => {
+    const needed = SUBSPECIALTY_BY_EXAM[request.examType] ?? null;
+    const declinedBy = request.declinedBy || [];
+
+    return candidates
+        .filter(({ user, profile, load }) =>
+            user.isAvailable
+            && !declinedBy.includes(user.id)
+            && load < maxLoad
+            && isOnShift(profile?.shift, now))
+        .map(({ user, profile, load, stats }) => {
+            const matches = Boolean(needed && profile?.subspecialties?.includes(needed));
+            const rate = declineRate(stats);
+            const score = (matches ? MATCH_SCORE : 0) - load * LOAD_PENALTY - rate * DECLINE_PENALTY;
+
+            const reasons = [];
+            if (matches) reasons.push(`${needed.toLowerCase()} subspecialty`);
+            reasons.push(`${load} session${load === 1 ? '' : 's'} in progress`);
+            if (stats?.invites) reasons.push(`declined ${stats.declines || 0}/${stats.invites} invites`);
+            return { user, score, reason: reasons.join(', ') };
+        })
+        .sort((a, b) => b.score - a.score);
+};
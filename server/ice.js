@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+
+// ============================================
+// ICE / TURN CONFIGURATION
+// ============================================
+
+// Used when ICE_STUN_URLS is not set at all (set it empty for networks without internet)
+export const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'];
+
+// Comma-separated list from the environment; undefined means "use the default"
+export const parseUrlList = (value, fallback = []) => {
+    if (value === undefined) return fallback;
+    return value.split(',').map(url => url.trim()).filter(Boolean);
+};
+
+/**
+ * Creates the ICE configuration service handed to clients before they open
+ * an RTCPeerConnection.
+ *
+ * TURN credentials follow the TURN REST API convention understood by coturn
+ * (`use-auth-secret`): the username is `<expiry unix seconds>:<user id>` and
+ * the password is base64(HMAC-SHA1(secret, username)), so the TURN server can
+ * check them without talking to us. Static credentials are accepted for TURN
+ * servers that cannot do this, but never expire.
+ *
+ * @param {object} options
+ * @param {string[]} [options.stunUrls]
+ * @param {string[]} [options.turnUrls]
+ * @param {string} [options.turnSecret] - shared secret with the TURN server
+ * @param {string} [options.turnUsername] - static credentials, if no secret is configured
+ * @param {string} [options.turnCredential]
+ * @param {number} [options.credentialTtlMs] - lifetime of issued TURN credentials
+ * @param {'all'|'relay'} [options.transportPolicy] - 'relay' forces every call through TURN
+ */
+export const createIceConfig = ({
+    stunUrls = DEFAULT_STUN_URLS,
+    turnUrls = [],
+    turnSecret,
+    turnUsername,
+    turnCredential,
+    credentialTtlMs = 60 * 60 * 1000,
+    transportPolicy = 'all'
+} = {}) => {
+    if (turnUrls.length > 0 && !turnSecret && !(turnUsername && turnCredential)) {
+        console.warn('[ICE] TURN_URLS is set without TURN_SECRET or static credentials; TURN will not be offered');
+    }
+    if (transportPolicy === 'relay' && turnUrls.length === 0) {
+        console.warn('[ICE] ICE_TRANSPORT_POLICY=relay without TURN_URLS; calls will not connect');
+    }
+
+    const issueTurnCredentials = (userId) => {
+        if (turnSecret) {
+            const expiresAt = Date.now() + credentialTtlMs;
+            const username = `${Math.floor(expiresAt / 1000)}:${userId}`;
+            const credential = crypto.createHmac('sha1', turnSecret).update(username).digest('base64');
+            return { username, credential, expiresAt };
+        }
+        if (turnUsername && turnCredential) {
+            return { username: turnUsername, credential: turnCredential, expiresAt: null };
+        }
+        return null;
+    };
+
+    /**
+     * RTCConfiguration for one user, with freshly issued TURN credentials.
+     * `expiresAt` tells the client when to fetch a new one (null: never).
+     */
+    const issue = (user) => {
+        const iceServers = [];
+        if (stunUrls.length > 0) {
+            iceServers.push({ urls: stunUrls });
+        }
+
+        let expiresAt = null;
+        const turn = turnUrls.length > 0 ? issueTurnCredentials(user.id) : null;
+        if (turn) {
+            iceServers.push({ urls: turnUrls, username: turn.username, credential: turn.credential });
+            expiresAt = turn.expiresAt;
+        }
+
+        return { iceServers, iceTransportPolicy: transportPolicy, expiresAt };
+    };
+
+    return { issue };
+};
@@ -0,0 +1,111 @@
+import { PROTOCOL_VERSION, PROTOCOL_MISMATCH, ErrorCode, validateClientEvent } from '../shared/protocol.js';
+
+export { ErrorCode };
+
+// ============================================
+// EVENT PERMISSION MATRIX
+// ============================================
+
+const TECH = 'TECH';
+const RADIOLOGIST = 'RADIOLOGIST';
+const MEDICAL_ADMIN = 'MEDICAL_ADMIN';
+const OBSERVER = 'OBSERVER';
+
+// Roles allowed to emit each client event. Events missing from this table are denied.
+export const EVENT_PERMISSIONS = {
+    'register': [TECH, RADIOLOGIST, MEDICAL_ADMIN, OBSERVER],
+    'set-availability': [RADIOLOGIST],
+    'create-session-request': [TECH],
+    // Technicians may only change their own requests, and only until the radiologist joins (checked in the handler)
+    'cancel-session-request': [TECH],
+    'update-session-request': [TECH],
+    'assign-radiologist': [MEDICAL_ADMIN],
+    'respond-to-assignment': [RADIOLOGIST, OBSERVER],
+    'leave-session': [TECH, RADIOLOGIST, OBSERVER],
+    // Technicians may only end their own session (checked in the handler)
+    'end-session': [TECH, MEDICAL_ADMIN],
+    'get-users': [MEDICAL_ADMIN],
+    'get-session-requests': [MEDICAL_ADMIN],
+    'get-available-radiologists': [MEDICAL_ADMIN],
+    'get-ice-config': [TECH, RADIOLOGIST, OBSERVER],
+    'invite-to-session': [MEDICAL_ADMIN],
+    'set-auto-dispatch': [MEDICAL_ADMIN],
+    // Room traffic additionally requires membership of the room (checked in the handler)
+    'join': [TECH, RADIOLOGIST, OBSERVER],
+    // Only the holder may grant or release control (checked in the handler)
+    'request-control': [TECH, RADIOLOGIST],
+    'respond-to-control-request': [TECH, RADIOLOGIST],
+    'release-control': [TECH, RADIOLOGIST],
+    // Observers only receive room signals: no chat, study controls, annotations or reports
+    'signal': [TECH, RADIOLOGIST],
+    'webrtc-offer': [TECH, RADIOLOGIST],
+    'webrtc-answer': [TECH, RADIOLOGIST],
+    'webrtc-ice-candidate': [TECH, RADIOLOGIST],
+    // Observers negotiate receive-only video calls
+    'webrtc-video-offer': [TECH, RADIOLOGIST, OBSERVER],
+    'webrtc-video-answer': [TECH, RADIOLOGIST, OBSERVER],
+    'webrtc-video-ice-candidate': [TECH, RADIOLOGIST, OBSERVER],
+};
+
+export const isEventAllowed = (role, event) => {
+    const roles = EVENT_PERMISSIONS[event];
+    return Boolean(roles && roles.includes(role));
+};
+
+// ============================================
+// ERROR REPORTING
+// ============================================
+
+/**
+ * Logs a rejected client event and tells the sender why, via a structured
+ * `request-error` event: { event, code, message }.
+ */
+export const rejectEvent = (socket, event, code, message) => {
+    const user = socket.data.user;
+    console.log(`[DENIED] ${event} from ${user?.name} (${user?.role}, ${socket.id}): ${code} - ${message}`);
+    socket.emit('request-error', { event, code, message });
+};
+
+/**
+ * Socket.IO packet middleware enforcing EVENT_PERMISSIONS on every incoming
+ * event, based on the role carried by the verified session token.
+ */
+export const authorizeEvents = (socket) => ([event], next) => {
+    const role = socket.data.user?.role;
+    if (!isEventAllowed(role, event)) {
+        return rejectEvent(socket, event, ErrorCode.FORBIDDEN, `Role ${role} may not emit ${event}`);
+    }
+    next();
+};
+
+// ============================================
+// PROTOCOL ENFORCEMENT
+// ============================================
+
+/**
+ * Socket.IO handshake middleware refusing clients built against another
+ * protocol version. The client receives a PROTOCOL_MISMATCH connect_error
+ * carrying both versions in `err.data`.
+ */
+export const checkProtocolVersion = (socket, next) => {
+    const clientVersion = socket.handshake.auth?.protocolVersion ?? null;
+    if (clientVersion !== PROTOCOL_VERSION) {
+        console.log(`[DENIED] Handshake from ${socket.id}: protocol ${clientVersion}, server speaks ${PROTOCOL_VERSION}`);
+        const err = new Error(PROTOCOL_MISMATCH);
+        err.data = { serverVersion: PROTOCOL_VERSION, clientVersion };
+        return next(err);
+    }
+    next();
+};
+
+/**
+ * Socket.IO packet middleware rejecting unknown events and malformed payloads
+ * before they reach the permission check and the handlers.
+ */
+export const validateEvents = (socket) => ([event, ...args], next) => {
+    const error = validateClientEvent(event, args);
+    if (error) {
+        return rejectEvent(socket, event, error.code, error.message);
+    }
+    next();
+};
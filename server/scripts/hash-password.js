@@ -0,0 +1,11 @@
+import { hashPassword } from '../auth.js';
+
+// Usage: npm run hash-password -- <password>
+// Prints a hash suitable for the `passwordHash` field in data/users.json
+const password = process.argv[2];
+if (!password) {
+    console.error('Usage: npm run hash-password -- <password>');
+    process.exit(1);
+}
+
+console.log(hashPassword(password));
@@ -0,0 +1,1562 @@
+import { authorizeEvents, rejectEvent, ErrorCode, validateEvents } from './permissions.js';
+import { rankRadiologists } from './dispatch.js';
+import { toExamContext } from './worklist/memoryWorklist.js';
+import { PRIORITIES } from '../shared/protocol.js';
+
+// ============================================
+// SIGNALING STATE MACHINE
+// ============================================
+// Session requests, room assignments, rooms and relays. Independent of the
+// transport: `io` is the Socket.IO server in Node, and an in-browser emulation
+// for the offline demo backend (services/mockSignaling.ts).
+
+/**
+ * Attaches the signaling handlers to `io`. Returns live presence data and the
+ * room hooks the REST API uses for study uploads.
+ *
+ * @param {object} options
+ * @param {object} options.io - Socket.IO server, or an emulation of the subset used here
+ * @param {object} options.store - repositories created by store/index.js
+ * @param {number} [options.sessionGraceMs] - how long a dropped technician may take to reconnect
+ * @param {object} [options.slaMs] - how long a request of each priority may wait for its radiologist to join
+ * @param {number} [options.inviteTimeoutMs] - how long an invite may go unanswered before it expires
+ * @param {function} [options.getIceConfig] - RTCConfiguration for a user (see ice.js); host candidates only by default
+ * @param {function} [options.getStaffProfile] - directory entry of a user (`subspecialties`, `shift`), or null
+ * @param {boolean} [options.autoDispatch] - start with auto-dispatch of pending requests switched on
+ * @param {number} [options.dispatchMaxLoad] - sessions auto-dispatch may give one radiologist at a time
+ * @param {object} [options.worklist] - scheduled exams technicians start requests from (see worklist/index.js)
+ * @param {object} [options.studies] - DICOM instances uploaded to sessions (see studies/studyArchive.js)
+ */
+export const createSignalingServer = ({
+    io,
+    store,
+    sessionGraceMs = 60 * 1000,
+    slaMs = { STAT: 5 * 60 * 1000, URGENT: 15 * 60 * 1000, ROUTINE: 60 * 60 * 1000 },
+    inviteTimeoutMs = 2 * 60 * 1000,
+    getIceConfig = () => ({ iceServers: [], iceTransportPolicy: 'all', expiresAt: null }),
+    getStaffProfile = () => null,
+    autoDispatch = false,
+    dispatchMaxLoad = 1,
+    worklist = null,
+    studies = null
+}) => {
+    // Track session requests: requestId -> SessionRequest
+    // Track room assignments: assignmentId -> RoomAssignment
+    // Track last known user state: userId -> { id, name, role, isAvailable, lastSeenAt, dispatchStats }
+    // Track closed sessions: requestId -> SessionRequest & { endedAt, endReason }
+    const { sessionRequests, roomAssignments, userProfiles, sessionHistory } = store;
+
+    // Track all connected users: socketId -> User
+    // Socket ids do not outlive the process, so presence is rebuilt as clients re-register
+    const connectedUsers = new Map();
+
+    // Track connected users per room (rebuilt as clients re-join their rooms)
+    const roomUsers = new Map();
+
+    // Track shared room state replayed to (re)joining clients:
+    // roomName -> { messages: ChatMessage[], sync: StudySync, measurements: Measurement[], annotations: Annotation[], members: Set<userId> }
+    const roomStates = new Map();
+    const MAX_ROOM_MESSAGES = 200;
+    const MAX_ROOM_MEASUREMENTS = 200;
+    const MAX_ROOM_ANNOTATIONS = 500;
+    const MAX_REQUEST_NOTES = 1000;
+    const MAX_CONTEXT_FIELD = 200;
+
+    // Track pending grace-period expiries: requestId -> Timeout
+    const graceTimers = new Map();
+
+    // Track SLA deadlines of requests still waiting for a radiologist: requestId -> Timeout
+    const slaTimers = new Map();
+
+    // Track expiries of unanswered invites: assignmentId -> Timeout
+    const inviteTimers = new Map();
+
+    // Whether pending requests are routed to radiologists without an admin (toggled by admins)
+    let autoDispatchEnabled = autoDispatch;
+
+    // Helper to generate unique IDs
+    const generateId = () => Math.random().toString(36).substring(2, 15);
+
+    // Accession number for exams whose order did not come with one, e.g. ACC-20240611-483920
+    const generateAccessionNumber = () => {
+        const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+        return `ACC-${date}-${Date.now().toString().slice(-6)}`;
+    };
+
+    /**
+     * Trims the exam context sent by a technician and drops empty fields.
+     * Returns an error message instead when the patient is not identified or a field is too long.
+     */
+    const normalizeExamContext = (input, accessionNumber) => {
+        const context = {};
+        for (const [key, value] of Object.entries(input)) {
+            const trimmed = typeof value === 'string' ? value.trim() : value;
+            if (!trimmed) continue;
+            if (trimmed.length > MAX_CONTEXT_FIELD) return { error: `${key} is limited to ${MAX_CONTEXT_FIELD} characters` };
+            context[key] = trimmed;
+        }
+        if (!context.patientId || !context.patientName) return { error: 'Patient ID and name are required' };
+        if (context.dateOfBirth && !/^\d{4}-\d{2}-\d{2}$/.test(context.dateOfBirth)) {
+            return { error: 'Date of birth must be YYYY-MM-DD' };
+        }
+        return { context: { ...context, accessionNumber: context.accessionNumber || accessionNumber } };
+    };
+
+    // ============================================
+    // HELPER FUNCTIONS
+    // ============================================
+
+    // Get all users by role
+    const getUsersByRole = (role) => {
+        return Array.from(connectedUsers.values()).filter(u => u.role === role);
+    };
+
+    // Get available radiologists
+    const getAvailableRadiologists = () => {
+        return getUsersByRole('RADIOLOGIST').filter(u => u.isAvailable);
+    };
+
+    // What the user does in a session: TECHNICIAN, PRIMARY (reading radiologist), CONSULTANT or OBSERVER; null for outsiders
+    const getSessionRole = (request, userId) => {
+        if (request.technicianId === userId) return 'TECHNICIAN';
+        if (request.assignedRadiologistId === userId) return 'PRIMARY';
+        return request.participants?.find(p => p.userId === userId)?.sessionRole ?? null;
+    };
+
+    // True when the user is the technician, the assigned radiologist, a consultant or an observer of a session request
+    const isSessionParticipant = (request, userId) => {
+        return getSessionRole(request, userId) !== null;
+    };
+
+    // The technician may always enter the room; everyone else once the radiologist has joined
+    const isRoomMember = (request, userId) => {
+        const sessionRole = getSessionRole(request, userId);
+        return sessionRole === 'TECHNICIAN' || (sessionRole !== null && isSessionLive(request));
+    };
+
+    // Participants invited into a running session: consultants and observers
+    const getInvitedParticipants = (request) => (request.participants || []).filter(p => p.sessionRole === 'CONSULTANT' || p.sessionRole === 'OBSERVER');
+
+    // Record an accepted member of a session
+    const addParticipant = (request, user, sessionRole) => {
+        request.participants = (request.participants || []).filter(p => p.userId !== user.id);
+        request.participants.push({ userId: user.id, name: user.name, sessionRole });
+    };
+
+    // True when the radiologist is in the room, including while the technician is reconnecting
+    const isSessionLive = (request) => {
+        return request.status === 'ACTIVE' || (request.status === 'SUSPENDED' && request.resumeStatus === 'ACTIVE');
+    };
+
+    // Move a closing session into the history collection
+    const archiveSession = (request, reason) => {
+        sessionHistory.set(request.id, { ...request, endedAt: Date.now(), endReason: reason });
+
+        // A worklist exam is done once a radiologist has read it; otherwise it goes back on the list
+        if (request.worklistEntryId) {
+            const wasRead = request.participants?.some(p => p.sessionRole === 'PRIMARY');
+            worklist?.setStatus(request.worklistEntryId, wasRead ? 'COMPLETED' : 'SCHEDULED', request.id);
+        }
+    };
+
+    // Worklist statuses are not persisted: mark the exams of requests restored after a restart again
+    sessionRequests.values()
+        .filter(r => r.worklistEntryId)
+        .forEach(r => worklist?.setStatus(r.worklistEntryId, 'IN_PROGRESS', r.id));
+
+    // Remember the user's availability so it survives reconnects and restarts
+    const saveUserProfile = (user) => {
+        userProfiles.set(user.id, {
+            ...userProfiles.get(user.id),
+            id: user.id,
+            name: user.name,
+            role: user.role,
+            isAvailable: user.isAvailable,
+            lastSeenAt: Date.now()
+        });
+    };
+
+    // Count a radiologist's answers to reading invites; auto-dispatch favours those who accept
+    const recordInviteResponse = (userId, accepted) => {
+        const profile = userProfiles.get(userId);
+        if (!profile) return;
+        const { invites = 0, declines = 0 } = profile.dispatchStats || {};
+        userProfiles.set(userId, {
+            ...profile,
+            dispatchStats: { invites: invites + 1, declines: declines + (accepted ? 0 : 1) }
+        });
+    };
+
+    // Sessions a radiologist is reading (or has been invited to read) or consulting on
+    const getRadiologistLoad = (userId) => {
+        return sessionRequests.values()
+            .filter(r => r.assignedRadiologistId === userId || getSessionRole(r, userId) === 'CONSULTANT')
+            .length;
+    };
+
+    // Replay the state a (re)connecting client needs to pick up where it left off,
+    // e.g. after a page reload or a server restart. `lastSeenAt` is when the user last registered.
+    const rehydrateClient = (socket, user, lastSeenAt = 0) => {
+        if (user.role === 'TECH') {
+            const request = sessionRequests.values().find(r => r.technicianId === user.id);
+            if (!request) {
+                // Tell a returning technician about a session that was closed while they were away
+                const missed = sessionHistory.values()
+                    .filter(h => h.technicianId === user.id && h.endedAt > lastSeenAt)
+                    .sort((a, b) => b.endedAt - a.endedAt)[0];
+                if (missed) {
+                    socket.emit('signal', { type: 'SESSION_ENDED', payload: { requestId: missed.id, reason: missed.endReason } });
+                }
+                return;
+            }
+
+            if (request.status === 'PENDING') {
+                socket.emit('signal', { type: 'SESSION_REQUEST', payload: request });
+            } else {
+                socket.emit('signal', { type: 'SESSION_ASSIGNED', payload: request });
+            }
+            if (request.status === 'ACTIVE') {
+                const assignment = roomAssignments.values().find(a => a.roomId === request.roomId && a.status === 'ACCEPTED');
+                socket.emit('signal', {
+                    type: 'ROOM_ACCEPTED',
+                    payload: { assignmentId: assignment?.id, radiologistId: request.assignedRadiologistId, roomId: request.roomId }
+                });
+            }
+            console.log(`[REHYDRATE] ${user.name} resumed ${request.status} request ${request.id}`);
+        }
+
+        if (user.role === 'RADIOLOGIST' || user.role === 'OBSERVER') {
+            if (user.role === 'RADIOLOGIST') {
+                socket.emit('signal', {
+                    type: 'AVAILABILITY_UPDATE',
+                    payload: { userId: user.id, isAvailable: user.isAvailable }
+                });
+            }
+
+            const invite = roomAssignments.values().find(a => a.radiologistId === user.id && a.status === 'PENDING');
+            if (invite) {
+                socket.emit('signal', { type: 'ROOM_INVITE', payload: invite });
+            }
+
+            // Tell a returning radiologist about invites that expired while they were away
+            roomAssignments.values()
+                .filter(a => a.radiologistId === user.id && a.status === 'EXPIRED' && a.expiredAt > lastSeenAt)
+                .forEach(a => socket.emit('signal', inviteExpiredSignal(a)));
+
+            const request = sessionRequests.values().find(r => isSessionParticipant(r, user.id) && isSessionLive(r));
+            if (request) {
+                socket.emit('join-room', { roomId: request.roomId, technicianName: request.technicianName });
+                if (request.status === 'SUSPENDED') {
+                    socket.emit('signal', {
+                        type: 'SESSION_SUSPENDED',
+                        payload: { requestId: request.id, roomId: request.roomId, userId: request.technicianId, graceExpiresAt: request.graceExpiresAt }
+                    });
+                }
+                console.log(`[REHYDRATE] ${user.name} rejoining room ${request.roomId}`);
+            }
+        }
+    };
+
+    // Get (or create) the shared state of a room
+    const getRoomState = (roomName) => {
+        if (!roomStates.has(roomName)) {
+            roomStates.set(roomName, { messages: [], sync: {}, measurements: [], annotations: [], removedAnnotations: new Map(), members: new Set() });
+        }
+        return roomStates.get(roomName);
+    };
+
+    // Who wrote a message, annotation or measurement is whoever sent it, not what the payload claims.
+    // An erased annotation brought back by undo comes back exactly as it was, under its own author.
+    const stampAuthor = (roomName, event, user) => {
+        switch (event.type) {
+            case 'CHAT':
+                return { ...event, payload: { ...event.payload, sender: user.name, role: user.role } };
+            case 'ANNOTATION': {
+                const erased = getRoomState(roomName).removedAnnotations.get(event.payload.id);
+                if (erased) return { ...event, payload: erased };
+                return { ...event, payload: { ...event.payload, authorId: user.id, authorName: user.name } };
+            }
+            case 'MEASUREMENT_SAVED':
+                return { ...event, payload: { ...event.payload, author: user.name } };
+            default:
+                return event;
+        }
+    };
+
+    // Keep chat history, the latest study controls, measurements and annotations so they can be restored after a reconnect
+    const recordRoomEvent = (roomName, event) => {
+        const state = getRoomState(roomName);
+        if (event.type === 'CHAT') {
+            state.messages.push(event.payload);
+            if (state.messages.length > MAX_ROOM_MESSAGES) state.messages.shift();
+        }
+        if (event.type === 'SYNC_STATE') {
+            state.sync = { ...state.sync, ...event.payload };
+        }
+        // Relabelled measurements keep their place, which is their order in the report
+        if (event.type === 'MEASUREMENT_SAVED') {
+            const index = state.measurements.findIndex(m => m.id === event.payload.id);
+            if (index !== -1) {
+                state.measurements[index] = event.payload;
+            } else if (state.measurements.length < MAX_ROOM_MEASUREMENTS) {
+                state.measurements.push(event.payload);
+            }
+        }
+        if (event.type === 'MEASUREMENT_REMOVED') {
+            state.measurements = state.measurements.filter(m => m.id !== event.payload.id);
+        }
+        // Redone annotations come back with their id
+        if (event.type === 'ANNOTATION' && !state.annotations.some(a => a.id === event.payload.id) && state.annotations.length < MAX_ROOM_ANNOTATIONS) {
+            state.annotations.push(event.payload);
+            state.removedAnnotations.delete(event.payload.id);
+        }
+        // Anyone drawing in the room may erase anyone's annotations: the overlay is shared, and clear-by-author
+        // is how the technician and radiologists tidy up after each other. Erased ones are kept for undo.
+        if (event.type === 'ANNOTATION_REMOVED') {
+            state.annotations
+                .filter(a => event.payload.ids.includes(a.id))
+                .forEach(a => state.removedAnnotations.set(a.id, a));
+            state.annotations = state.annotations.filter(a => !event.payload.ids.includes(a.id));
+            while (state.removedAnnotations.size > MAX_ROOM_ANNOTATIONS) {
+                state.removedAnnotations.delete(state.removedAnnotations.keys().next().value);
+            }
+        }
+    };
+
+    // Hand the study controls over (or queue a request for them) and tell everyone in the room
+    const setRoomControl = (roomName, control) => {
+        const state = getRoomState(roomName);
+        state.control = control;
+        console.log(`[CONTROL] ${control.holderName} has control in ${roomName} (${control.requests.length} waiting)`);
+        io.to(roomName).emit('signal', { type: 'CONTROL_UPDATE', payload: control });
+    };
+
+    // A participant left the room: control they held goes back to the technician, and their request is dropped
+    const releaseRoomControl = (roomName, userId) => {
+        const state = roomStates.get(roomName);
+        if (!state?.control) return;
+        const { control, technician } = state;
+        const requests = control.requests.filter(r => r.userId !== userId);
+        if (control.holderId === userId && userId !== technician.id) {
+            setRoomControl(roomName, { holderId: technician.id, holderName: technician.name, requests });
+        } else if (requests.length !== control.requests.length) {
+            setRoomControl(roomName, { ...control, requests });
+        }
+    };
+
+    // Send a signal to every connected socket of a user
+    const emitToUser = (userId, event, payload) => {
+        connectedUsers.forEach(u => {
+            if (u.id === userId) io.to(u.socketId).emit(event, payload);
+        });
+    };
+
+    // Send a signal to the reading radiologist and everyone invited into a session
+    const emitToRadiologists = (request, event, payload) => {
+        if (request.assignedRadiologistId) emitToUser(request.assignedRadiologistId, event, payload);
+        getInvitedParticipants(request).forEach(p => emitToUser(p.userId, event, payload));
+    };
+
+    // Send a signal to every connected medical admin
+    const emitToAdmins = (event, payload) => {
+        getUsersByRole('MEDICAL_ADMIN').forEach(admin => {
+            io.to(admin.socketId).emit(event, payload);
+        });
+    };
+
+    // Put a session on hold while its technician is offline
+    const suspendSession = (request) => {
+        const graceExpiresAt = Date.now() + sessionGraceMs;
+        request.resumeStatus = request.status;
+        request.status = 'SUSPENDED';
+        request.suspendedAt = Date.now();
+        request.graceExpiresAt = graceExpiresAt;
+        sessionRequests.set(request.id, request);
+        scheduleGraceExpiry(request);
+
+        console.log(`[SUSPEND] Session ${request.id} on hold until ${new Date(graceExpiresAt).toISOString()}`);
+
+        const signal = {
+            type: 'SESSION_SUSPENDED',
+            payload: { requestId: request.id, roomId: request.roomId, userId: request.technicianId, graceExpiresAt }
+        };
+        emitToRadiologists(request, 'signal', signal);
+        emitToAdmins('signal', signal);
+    };
+
+    // Restore a suspended session once its technician re-registers
+    const resumeSession = (request) => {
+        clearTimeout(graceTimers.get(request.id));
+        graceTimers.delete(request.id);
+
+        request.status = request.resumeStatus || 'ACTIVE';
+        delete request.resumeStatus;
+        delete request.suspendedAt;
+        delete request.graceExpiresAt;
+        sessionRequests.set(request.id, request);
+
+        console.log(`[RESUME] Session ${request.id} resumed as ${request.status}`);
+
+        const signal = { type: 'SESSION_RESUMED', payload: { requestId: request.id, roomId: request.roomId } };
+        emitToRadiologists(request, 'signal', signal);
+        emitToAdmins('signal', signal);
+    };
+
+    // End a suspended session whose technician never came back
+    const expireSuspendedSession = (requestId) => {
+        graceTimers.delete(requestId);
+        const request = sessionRequests.get(requestId);
+        if (!request || request.status !== 'SUSPENDED') return;
+
+        console.log(`[AUTO-END] Technician ${request.technicianName} did not reconnect, ending session ${requestId}`);
+
+        // Notify the radiologist
+        if (request.assignedRadiologistId) {
+            const radiologist = Array.from(connectedUsers.values()).find(u => u.id === request.assignedRadiologistId);
+            if (radiologist) {
+                io.to(radiologist.socketId).emit('signal', {
+                    type: 'SESSION_ENDED',
+                    payload: { requestId, reason: 'Technician did not reconnect' }
+                });
+                // Make radiologist available again
+                radiologist.isAvailable = true;
+                connectedUsers.set(radiologist.socketId, radiologist);
+                saveUserProfile(radiologist);
+            }
+        }
+        getInvitedParticipants(request).forEach(p => emitToUser(p.userId, 'signal', {
+            type: 'SESSION_ENDED',
+            payload: { requestId, reason: 'Technician did not reconnect' }
+        }));
+
+        // Notify admins
+        emitToAdmins('signal', {
+            type: 'SESSION_ENDED',
+            payload: { requestId, reason: 'Technician disconnected' }
+        });
+
+        // Remove session
+        archiveSession(request, 'Technician disconnected');
+        sessionRequests.delete(requestId);
+
+        // Clean up room assignments
+        for (const [assignmentId, assignment] of roomAssignments) {
+            if (assignment.roomId === request.roomId) {
+                clearInviteExpiry(assignmentId);
+                roomAssignments.delete(assignmentId);
+            }
+        }
+        roomStates.delete(`room-${request.roomId}`);
+
+        broadcastSessionRequestsToAdmins();
+        broadcastUserListToAdmins();
+        dispatchPendingRequests();
+    };
+
+    const scheduleGraceExpiry = (request) => {
+        clearTimeout(graceTimers.get(request.id));
+        const remaining = Math.max(0, request.graceExpiresAt - Date.now());
+        graceTimers.set(request.id, setTimeout(() => expireSuspendedSession(request.id), remaining));
+    };
+
+    // Sessions suspended before a restart keep whatever grace period they had left
+    sessionRequests.values()
+        .filter(r => r.status === 'SUSPENDED')
+        .forEach(scheduleGraceExpiry);
+
+    // Sessions still live when the server went down lost their sockets with it;
+    // hold them for a fresh grace period so they end if nobody comes back
+    sessionRequests.values()
+        .filter(r => r.status === 'ACTIVE' || r.status === 'ASSIGNED')
+        .forEach(suspendSession);
+
+    // True while a request has no radiologist in the room yet
+    const isWaitingForRadiologist = (request) => {
+        return request.status === 'PENDING' || request.status === 'ASSIGNED'
+            || (request.status === 'SUSPENDED' && request.resumeStatus === 'ASSIGNED');
+    };
+
+    // Escalate a request that is still waiting for its radiologist when its SLA runs out
+    const checkSla = (requestId) => {
+        slaTimers.delete(requestId);
+        const request = sessionRequests.get(requestId);
+        if (!request || request.slaBreachedAt || !isWaitingForRadiologist(request)) return;
+
+        request.slaBreachedAt = Date.now();
+        sessionRequests.set(request.id, request);
+
+        console.log(`[SLA] ${request.priority} request ${request.id} from ${request.technicianName} breached its SLA`);
+
+        emitToAdmins('signal', {
+            type: 'SLA_BREACHED',
+            payload: { requestId: request.id, technicianName: request.technicianName, priority: request.priority, slaDueAt: request.slaDueAt }
+        });
+        broadcastSessionRequestsToAdmins();
+    };
+
+    const scheduleSlaCheck = (request) => {
+        clearTimeout(slaTimers.get(request.id));
+        const remaining = Math.max(0, request.slaDueAt - Date.now());
+        slaTimers.set(request.id, setTimeout(() => checkSla(request.id), remaining));
+    };
+
+    // Deadlines keep running across a restart; overdue requests are escalated straight away
+    sessionRequests.values()
+        .filter(r => r.slaDueAt && !r.slaBreachedAt && isWaitingForRadiologist(r))
+        .forEach(scheduleSlaCheck);
+
+    // Broadcast user list update to all medical admins
+    const broadcastUserListToAdmins = () => {
+        const technicians = getUsersByRole('TECH');
+        const radiologists = getUsersByRole('RADIOLOGIST');
+        const observers = getUsersByRole('OBSERVER');
+
+        getUsersByRole('MEDICAL_ADMIN').forEach(admin => {
+            io.to(admin.socketId).emit('signal', {
+                type: 'USER_LIST_UPDATE',
+                payload: { technicians, radiologists, observers }
+            });
+        });
+    };
+
+    // Broadcast session requests to all medical admins
+    const broadcastSessionRequestsToAdmins = () => {
+        const requests = Array.from(sessionRequests.values());
+
+        getUsersByRole('MEDICAL_ADMIN').forEach(admin => {
+            io.to(admin.socketId).emit('session-requests-update', requests);
+        });
+    };
+
+    // ============================================
+    // ASSIGNMENT & AUTO-DISPATCH
+    // ============================================
+
+    // Invite a radiologist to read a pending request. `assignedBy` is ADMIN or AUTO;
+    // auto-dispatch also records why it picked this radiologist.
+    const assignRadiologist = (request, radiologist, assignedBy, dispatchReason) => {
+        request.status = 'ASSIGNED';
+        request.assignedRadiologistId = radiologist.id;
+        request.assignedRadiologistName = radiologist.name;
+        request.assignedBy = assignedBy;
+        request.dispatchReason = dispatchReason;
+        sessionRequests.set(request.id, request);
+
+        const assignment = {
+            id: generateId(),
+            roomId: request.roomId,
+            technicianId: request.technicianId,
+            technicianName: request.technicianName,
+            radiologistId: radiologist.id,
+            status: 'PENDING',
+            examType: request.examType,
+            examContext: request.examContext,
+            notes: request.notes,
+            expiresAt: Date.now() + inviteTimeoutMs
+        };
+        roomAssignments.set(assignment.id, assignment);
+        scheduleInviteExpiry(assignment);
+
+        // Notify the technician, then send the room invite to the radiologist
+        emitToUser(request.technicianId, 'signal', { type: 'SESSION_ASSIGNED', payload: request });
+        emitToUser(radiologist.id, 'signal', { type: 'ROOM_INVITE', payload: assignment });
+
+        broadcastSessionRequestsToAdmins();
+    };
+
+    // Withdraw an unanswered invite, e.g. when an admin reassigns the request
+    const cancelInvite = (assignment, reason) => {
+        clearInviteExpiry(assignment.id);
+        assignment.status = 'CANCELLED';
+        roomAssignments.set(assignment.id, assignment);
+        emitToUser(assignment.radiologistId, 'signal', {
+            type: 'INVITE_CANCELLED',
+            payload: { assignmentId: assignment.id, reason }
+        });
+    };
+
+    // Put a request whose invite was declined or never answered back in the queue.
+    // Auto-dispatch will not offer it to the same radiologist again.
+    const returnToQueue = (request, radiologistId) => {
+        request.status = 'PENDING';
+        request.assignedRadiologistId = undefined;
+        request.assignedRadiologistName = undefined;
+        request.assignedBy = undefined;
+        request.dispatchReason = undefined;
+        request.declinedBy = [...(request.declinedBy || []), radiologistId];
+        sessionRequests.set(request.id, request);
+
+        // The technician is waiting for an admin again
+        emitToUser(request.technicianId, 'signal', { type: 'SESSION_REQUEST', payload: request });
+    };
+
+    const inviteExpiredSignal = (assignment) => ({
+        type: 'INVITE_EXPIRED',
+        payload: {
+            assignmentId: assignment.id,
+            roomId: assignment.roomId,
+            technicianName: assignment.technicianName,
+            radiologistId: assignment.radiologistId,
+            radiologistName: userProfiles.get(assignment.radiologistId)?.name || assignment.radiologistId,
+            sessionRole: assignment.sessionRole,
+            expiredAt: assignment.expiredAt
+        }
+    });
+
+    // An invite nobody answered in time. Reading invites count as declined and send the request back to the queue.
+    const expireInvite = (assignmentId) => {
+        inviteTimers.delete(assignmentId);
+        const assignment = roomAssignments.get(assignmentId);
+        if (!assignment || assignment.status !== 'PENDING') return;
+
+        assignment.status = 'EXPIRED';
+        assignment.expiredAt = Date.now();
+        roomAssignments.set(assignmentId, assignment);
+
+        const signal = inviteExpiredSignal(assignment);
+        console.log(`[EXPIRED] ${signal.payload.radiologistName} did not answer the invite to room ${assignment.roomId}`);
+        emitToUser(assignment.radiologistId, 'signal', signal);
+        emitToAdmins('signal', signal);
+
+        if (!assignment.sessionRole) {
+            recordInviteResponse(assignment.radiologistId, false);
+            const request = sessionRequests.values().find(r => r.roomId === assignment.roomId);
+            if (request?.status === 'ASSIGNED' && request.assignedRadiologistId === assignment.radiologistId) {
+                returnToQueue(request, assignment.radiologistId);
+            }
+        }
+
+        broadcastSessionRequestsToAdmins();
+        dispatchPendingRequests();
+    };
+
+    const scheduleInviteExpiry = (assignment) => {
+        clearTimeout(inviteTimers.get(assignment.id));
+        const remaining = Math.max(0, assignment.expiresAt - Date.now());
+        inviteTimers.set(assignment.id, setTimeout(() => expireInvite(assignment.id), remaining));
+    };
+
+    const clearInviteExpiry = (assignmentId) => {
+        clearTimeout(inviteTimers.get(assignmentId));
+        inviteTimers.delete(assignmentId);
+    };
+
+    // Invites sent before a restart keep whatever time they had left
+    roomAssignments.values()
+        .filter(a => a.status === 'PENDING' && a.expiresAt)
+        .forEach(scheduleInviteExpiry);
+
+    // Offer each pending request, most urgent then oldest first, to the best-ranked radiologist (see dispatch.js).
+    // Requests nobody can take stay PENDING for an admin.
+    const dispatchPendingRequests = () => {
+        if (!autoDispatchEnabled) return;
+
+        const pending = sessionRequests.values()
+            .filter(r => r.status === 'PENDING')
+            .sort((a, b) => PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority) || a.createdAt - b.createdAt);
+
+        for (const request of pending) {
+            // One candidate per radiologist, however many tabs they have open
+            const radiologists = getUsersByRole('RADIOLOGIST').filter((u, i, all) => all.findIndex(o => o.id === u.id) === i);
+            const candidates = radiologists.map(user => ({
+                user,
+                profile: getStaffProfile(user.id),
+                load: getRadiologistLoad(user.id),
+                stats: userProfiles.get(user.id)?.dispatchStats
+            }));
+
+            const [best] = rankRadiologists(request, candidates, { maxLoad: dispatchMaxLoad });
+            if (!best) continue;
+
+            console.log(`[DISPATCH] ${best.user.name} picked for ${request.technicianName} (${request.id}): ${best.reason}`);
+            assignRadiologist(request, best.user, 'AUTO', best.reason);
+        }
+    };
+
+    // ============================================
+    // SOCKET HANDLERS
+    // ============================================
+
+    io.on('connection', (socket) => {
+        console.log(`[CONNECT] Client connected: ${socket.id}`);
+        let currentRoom = null;
+        let currentUser = null;
+
+        // Reject unknown or malformed events, then enforce the per-role permission matrix
+        socket.use(validateEvents(socket));
+        socket.use(authorizeEvents(socket));
+
+        // True when this socket has joined a session room
+        const isInRoom = () => Boolean(currentRoom && socket.rooms.has(currentRoom));
+
+        // Take this socket out of its session room and tell the other participants
+        const leaveCurrentRoom = () => {
+            if (!currentRoom) return;
+            socket.leave(currentRoom);
+            const members = roomUsers.get(currentRoom);
+            const member = members?.get(socket.id);
+            if (members) {
+                members.delete(socket.id);
+                if (members.size === 0) roomUsers.delete(currentRoom);
+            }
+            if (member) {
+                io.to(currentRoom).emit('signal', {
+                    type: 'LEAVE',
+                    payload: { role: member.role, socketId: socket.id, userId: member.userId, userName: member.name }
+                });
+                // The user may still be in the room from another tab
+                if (!Array.from(members.values()).some(m => m.userId === member.userId)) {
+                    releaseRoomControl(currentRoom, member.userId);
+                }
+            }
+            currentRoom = null;
+        };
+
+        // True when the target socket is a member of this socket's room
+        const isRoomPeer = (socketId) => Boolean(io.sockets.adapter.rooms.get(currentRoom)?.has(socketId));
+
+        // Relays are only allowed from inside a room, and directed relays only to a peer in that room
+        const canRelay = (event, to) => {
+            if (!isInRoom()) {
+                rejectEvent(socket, event, ErrorCode.NOT_IN_ROOM, 'Join a session room first');
+                return false;
+            }
+            if (to && !isRoomPeer(to)) {
+                rejectEvent(socket, event, ErrorCode.NOT_IN_ROOM, `Target ${to} is not in ${currentRoom}`);
+                return false;
+            }
+            return true;
+        };
+
+        // ----------------------------------------
+        // USER REGISTRATION
+        // ----------------------------------------
+        socket.on('register', () => {
+            // Identity and role come from the verified session token, never from the client payload
+            const { id: userId, name: userName, role } = socket.data.user;
+            const profile = userProfiles.get(userId);
+            currentUser = {
+                id: userId,
+                name: userName,
+                role: role,
+                isAvailable: role === 'RADIOLOGIST' ? (profile?.isAvailable ?? true) : false,
+                socketId: socket.id
+            };
+            // Subspecialties and shift let admins (and auto-dispatch) route requests
+            if (role === 'RADIOLOGIST') {
+                const staff = getStaffProfile(userId);
+                currentUser.subspecialties = staff?.subspecialties || [];
+                currentUser.shift = staff?.shift || null;
+            }
+            connectedUsers.set(socket.id, currentUser);
+            saveUserProfile(currentUser);
+
+            console.log(`[REGISTER] ${role} registered: ${userName} (${userId})`);
+
+            // Broadcast updated user list to medical admins
+            broadcastUserListToAdmins();
+
+            // A technician coming back within the grace period reclaims their session
+            if (role === 'TECH') {
+                const suspended = sessionRequests.values().find(r => r.technicianId === userId && r.status === 'SUSPENDED');
+                if (suspended) {
+                    resumeSession(suspended);
+                    broadcastSessionRequestsToAdmins();
+                }
+            }
+
+            // If medical admin, send them current session requests
+            if (role === 'MEDICAL_ADMIN') {
+                socket.emit('session-requests-update', Array.from(sessionRequests.values()));
+                socket.emit('signal', { type: 'DISPATCH_STATUS', payload: { enabled: autoDispatchEnabled } });
+            }
+
+            rehydrateClient(socket, currentUser, profile?.lastSeenAt);
+
+            // A radiologist coming online may be able to take a waiting request
+            if (role === 'RADIOLOGIST') dispatchPendingRequests();
+        });
+
+        // ----------------------------------------
+        // AVAILABILITY (RADIOLOGIST ONLY)
+        // ----------------------------------------
+        socket.on('set-availability', ({ available }) => {
+            if (currentUser && currentUser.role === 'RADIOLOGIST') {
+                currentUser.isAvailable = available;
+                connectedUsers.set(socket.id, currentUser);
+                saveUserProfile(currentUser);
+
+                console.log(`[AVAILABILITY] ${currentUser.name} is now ${available ? 'AVAILABLE' : 'UNAVAILABLE'}`);
+
+                // Broadcast updated user list
+                broadcastUserListToAdmins();
+                if (available) dispatchPendingRequests();
+            }
+        });
+
+        // ----------------------------------------
+        // SESSION REQUESTS (TECHNICIAN -> ADMIN)
+        // ----------------------------------------
+        socket.on('create-session-request', (payload) => {
+            // A request started from the worklist takes its patient and order details from the entry
+            const entryId = payload.worklistEntryId;
+            const worklistEntry = entryId ? worklist?.get(entryId) : null;
+            if (entryId && !worklistEntry) {
+                return rejectEvent(socket, 'create-session-request', ErrorCode.NOT_FOUND, `Worklist entry ${entryId} not found`);
+            }
+            if (worklistEntry && worklistEntry.status !== 'SCHEDULED') {
+                return rejectEvent(socket, 'create-session-request', ErrorCode.INVALID_STATE, `Worklist entry ${entryId} is ${worklistEntry.status}`);
+            }
+
+            const { context: examContext, error } = normalizeExamContext(
+                worklistEntry ? toExamContext(worklistEntry) : payload.examContext || {},
+                generateAccessionNumber()
+            );
+            if (error) {
+                return rejectEvent(socket, 'create-session-request', ErrorCode.INVALID_PAYLOAD, error);
+            }
+
+            const { id: technicianId, name: technicianName } = socket.data.user;
+            const requestId = generateId();
+            const roomId = `US-${Date.now().toString().slice(-4)}`;
+            const priority = payload.priority || worklistEntry?.priority || 'ROUTINE';
+            const createdAt = Date.now();
+
+            const request = {
+                id: requestId,
+                technicianId,
+                technicianName,
+                status: 'PENDING',
+                roomId,
+                examType: worklistEntry?.examType || payload.examType || 'GENERAL',
+                priority,
+                examContext,
+                worklistEntryId: worklistEntry?.id,
+                createdAt,
+                slaDueAt: createdAt + slaMs[priority],
+                participants: [{ userId: technicianId, name: technicianName, sessionRole: 'TECHNICIAN' }]
+            };
+
+            sessionRequests.set(requestId, request);
+            scheduleSlaCheck(request);
+            if (worklistEntry) worklist.setStatus(worklistEntry.id, 'IN_PROGRESS', requestId);
+
+            console.log(`[SESSION REQUEST] ${technicianName} requested a ${priority} session (${requestId})`);
+
+            // Notify technician that request was created
+            socket.emit('signal', {
+                type: 'SESSION_REQUEST',
+                payload: request
+            });
+
+            // Broadcast to all medical admins
+            broadcastSessionRequestsToAdmins();
+            dispatchPendingRequests();
+        });
+
+        // Look up a technician's own request that has not started yet; rejects the event otherwise
+        const findOwnWaitingRequest = (event, requestId) => {
+            const request = sessionRequests.get(requestId);
+            if (!request) {
+                rejectEvent(socket, event, ErrorCode.NOT_FOUND, `Session request ${requestId} not found`);
+                return null;
+            }
+            if (request.technicianId !== socket.data.user.id) {
+                rejectEvent(socket, event, ErrorCode.FORBIDDEN, `Session request ${requestId} belongs to another technician`);
+                return null;
+            }
+            if (request.status !== 'PENDING' && request.status !== 'ASSIGNED') {
+                rejectEvent(socket, event, ErrorCode.INVALID_STATE, `Session request ${requestId} is ${request.status}`);
+                return null;
+            }
+            return request;
+        };
+
+        // ----------------------------------------
+        // CANCEL SESSION REQUEST (TECHNICIAN)
+        // ----------------------------------------
+        // Only before the radiologist has joined: a live session is ended with end-session instead
+        socket.on('cancel-session-request', ({ requestId, reason }) => {
+            const request = findOwnWaitingRequest('cancel-session-request', requestId);
+            if (!request) return;
+
+            const endReason = `Request cancelled by ${request.technicianName}${reason ? `: ${reason}` : ''}`;
+            console.log(`[CANCEL] ${endReason} (${requestId})`);
+
+            // Withdraw the invite the radiologist has not answered yet
+            for (const [assignmentId, assignment] of roomAssignments) {
+                if (assignment.roomId !== request.roomId) continue;
+                if (assignment.status === 'PENDING') cancelInvite(assignment, endReason);
+                roomAssignments.delete(assignmentId);
+            }
+
+            clearTimeout(slaTimers.get(requestId));
+            slaTimers.delete(requestId);
+            archiveSession(request, endReason);
+            sessionRequests.delete(requestId);
+
+            const signal = { type: 'SESSION_ENDED', payload: { requestId, reason: endReason } };
+            emitToUser(request.technicianId, 'signal', signal);
+            emitToAdmins('signal', signal);
+
+            broadcastSessionRequestsToAdmins();
+            dispatchPendingRequests();
+        });
+
+        // ----------------------------------------
+        // UPDATE SESSION REQUEST (TECHNICIAN)
+        // ----------------------------------------
+        socket.on('update-session-request', ({ requestId, notes, examType, examContext }) => {
+            const request = findOwnWaitingRequest('update-session-request', requestId);
+            if (!request) return;
+            if (notes && notes.length > MAX_REQUEST_NOTES) {
+                return rejectEvent(socket, 'update-session-request', ErrorCode.INVALID_PAYLOAD, `Notes are limited to ${MAX_REQUEST_NOTES} characters`);
+            }
+            // The accession number stays the same unless the technician supplies one
+            const contextUpdate = examContext
+                ? normalizeExamContext(examContext, request.examContext?.accessionNumber || generateAccessionNumber())
+                : null;
+            if (contextUpdate?.error) {
+                return rejectEvent(socket, 'update-session-request', ErrorCode.INVALID_PAYLOAD, contextUpdate.error);
+            }
+
+            if (notes !== undefined && notes !== null) request.notes = notes.trim() || undefined;
+            if (examType) request.examType = examType;
+            if (contextUpdate) request.examContext = contextUpdate.context;
+            sessionRequests.set(requestId, request);
+
+            console.log(`[UPDATE] ${request.technicianName} updated request ${requestId}`);
+
+            emitToUser(request.technicianId, 'signal', {
+                type: request.status === 'PENDING' ? 'SESSION_REQUEST' : 'SESSION_ASSIGNED',
+                payload: request
+            });
+
+            // Refresh the invite the radiologist is looking at
+            roomAssignments.values()
+                .filter(a => a.roomId === request.roomId && a.status === 'PENDING' && !a.sessionRole)
+                .forEach(assignment => {
+                    assignment.examType = request.examType;
+                    assignment.examContext = request.examContext;
+                    assignment.notes = request.notes;
+                    roomAssignments.set(assignment.id, assignment);
+                    emitToUser(assignment.radiologistId, 'signal', { type: 'ROOM_INVITE', payload: assignment });
+                });
+
+            broadcastSessionRequestsToAdmins();
+            // A different exam type may now match an available subspecialist
+            dispatchPendingRequests();
+        });
+
+        // ----------------------------------------
+        // ASSIGN RADIOLOGIST (ADMIN ACTION)
+        // ----------------------------------------
+        // Admins may also override an invite that has not been answered yet, including one from auto-dispatch
+        socket.on('assign-radiologist', ({ requestId, radiologistId }) => {
+            const request = sessionRequests.get(requestId);
+            if (!request) {
+                return rejectEvent(socket, 'assign-radiologist', ErrorCode.NOT_FOUND, `Session request ${requestId} not found`);
+            }
+            if (request.status !== 'PENDING' && request.status !== 'ASSIGNED') {
+                return rejectEvent(socket, 'assign-radiologist', ErrorCode.INVALID_STATE, `Session request ${requestId} is ${request.status}`);
+            }
+            if (request.status === 'ASSIGNED' && request.assignedRadiologistId === radiologistId) {
+                return rejectEvent(socket, 'assign-radiologist', ErrorCode.INVALID_STATE, `${request.assignedRadiologistName} is already invited to ${requestId}`);
+            }
+
+            // Find the radiologist socket
+            const radiologist = Array.from(connectedUsers.values()).find(u => u.id === radiologistId && u.role === 'RADIOLOGIST');
+            if (!radiologist) {
+                return rejectEvent(socket, 'assign-radiologist', ErrorCode.NOT_FOUND, `Radiologist ${radiologistId} not found`);
+            }
+
+            if (request.status === 'ASSIGNED') {
+                const invite = roomAssignments.values().find(a => a.roomId === request.roomId && a.radiologistId === request.assignedRadiologistId && a.status === 'PENDING' && !a.sessionRole);
+                if (invite) cancelInvite(invite, `Reassigned to ${radiologist.name} by admin`);
+                console.log(`[ASSIGN] Admin reassigned ${request.id} from ${request.assignedRadiologistName} to ${radiologist.name}`);
+            } else {
+                console.log(`[ASSIGN] Admin assigned ${radiologist.name} to ${request.technicianName}`);
+            }
+
+            assignRadiologist(request, radiologist, 'ADMIN');
+        });
+
+        // ----------------------------------------
+        // INVITE TO LIVE SESSION (ADMIN ACTION)
+        // ----------------------------------------
+        // Brings a consulting radiologist into a session that already has its reading radiologist
+        socket.on('invite-to-session', ({ requestId, userId }) => {
+            const request = sessionRequests.get(requestId);
+            if (!request) {
+                return rejectEvent(socket, 'invite-to-session', ErrorCode.NOT_FOUND, `Session request ${requestId} not found`);
+            }
+            if (!isSessionLive(request)) {
+                return rejectEvent(socket, 'invite-to-session', ErrorCode.INVALID_STATE, `Session request ${requestId} is ${request.status}`);
+            }
+
+            // Radiologists join as consultants; observers watch without being able to change anything
+            const invitee = Array.from(connectedUsers.values()).find(u => u.id === userId && (u.role === 'RADIOLOGIST' || u.role === 'OBSERVER'));
+            if (!invitee) {
+                return rejectEvent(socket, 'invite-to-session', ErrorCode.NOT_FOUND, `Radiologist or observer ${userId} not found`);
+            }
+            const sessionRole = invitee.role === 'OBSERVER' ? 'OBSERVER' : 'CONSULTANT';
+            if (isSessionParticipant(request, userId)) {
+                return rejectEvent(socket, 'invite-to-session', ErrorCode.INVALID_STATE, `${invitee.name} is already in session ${requestId}`);
+            }
+            const pending = roomAssignments.values().find(a => a.roomId === request.roomId && a.radiologistId === userId && a.status === 'PENDING');
+            if (pending) {
+                return rejectEvent(socket, 'invite-to-session', ErrorCode.INVALID_STATE, `${invitee.name} already has a pending invite to session ${requestId}`);
+            }
+
+            const assignment = {
+                id: generateId(),
+                roomId: request.roomId,
+                technicianId: request.technicianId,
+                technicianName: request.technicianName,
+                radiologistId: userId,
+                status: 'PENDING',
+                sessionRole,
+                examType: request.examType,
+                examContext: request.examContext,
+                expiresAt: Date.now() + inviteTimeoutMs
+            };
+            roomAssignments.set(assignment.id, assignment);
+            scheduleInviteExpiry(assignment);
+
+            console.log(`[INVITE] Admin invited ${invitee.name} to room ${request.roomId} as ${sessionRole}`);
+
+            emitToUser(userId, 'signal', { type: 'ROOM_INVITE', payload: assignment });
+            broadcastSessionRequestsToAdmins();
+        });
+
+        // ----------------------------------------
+        // RESPOND TO ASSIGNMENT (RADIOLOGIST)
+        // ----------------------------------------
+        socket.on('respond-to-assignment', ({ assignmentId, accept, comment }) => {
+            const assignment = roomAssignments.get(assignmentId);
+            if (!assignment) {
+                return rejectEvent(socket, 'respond-to-assignment', ErrorCode.NOT_FOUND, `Assignment ${assignmentId} not found`);
+            }
+            // Only the invited radiologist may answer, and only once
+            if (assignment.radiologistId !== socket.data.user.id) {
+                return rejectEvent(socket, 'respond-to-assignment', ErrorCode.FORBIDDEN, 'This invite was sent to another radiologist');
+            }
+            if (assignment.status !== 'PENDING') {
+                return rejectEvent(socket, 'respond-to-assignment', ErrorCode.INVALID_STATE, `Assignment ${assignmentId} is ${assignment.status}`);
+            }
+            clearInviteExpiry(assignmentId);
+
+            // Consult and observer invites add a participant to a live session without changing its status
+            if (assignment.sessionRole === 'CONSULTANT' || assignment.sessionRole === 'OBSERVER') {
+                const request = sessionRequests.values().find(r => r.roomId === assignment.roomId);
+                if (accept && !(request && isSessionLive(request))) {
+                    return rejectEvent(socket, 'respond-to-assignment', ErrorCode.INVALID_STATE, `Session in room ${assignment.roomId} is no longer live`);
+                }
+
+                assignment.status = accept ? 'ACCEPTED' : 'REJECTED';
+                if (accept) {
+                    addParticipant(request, socket.data.user, assignment.sessionRole);
+                    sessionRequests.set(request.id, request);
+                    console.log(`[CONSULT] ${currentUser?.name} joined room ${assignment.roomId} as ${assignment.sessionRole}`);
+                    socket.emit('join-room', { roomId: assignment.roomId, technicianName: assignment.technicianName });
+                } else {
+                    assignment.rejectionComment = comment;
+                    console.log(`[CONSULT] ${currentUser?.name} declined to join room ${assignment.roomId} as ${assignment.sessionRole}: ${comment}`);
+                    emitToAdmins('signal', {
+                        type: 'ROOM_REJECTED',
+                        payload: { assignmentId, radiologistId: currentUser?.id, radiologistName: currentUser?.name, comment }
+                    });
+                }
+                roomAssignments.set(assignmentId, assignment);
+                broadcastSessionRequestsToAdmins();
+                return;
+            }
+
+            recordInviteResponse(socket.data.user.id, accept);
+
+            if (accept) {
+                assignment.status = 'ACCEPTED';
+                roomAssignments.set(assignmentId, assignment);
+
+                // Find the session request and mark as active
+                const request = Array.from(sessionRequests.values()).find(r => r.roomId === assignment.roomId);
+                if (request) {
+                    // A technician who is reconnecting finds the session active once they are back
+                    if (request.status === 'SUSPENDED') {
+                        request.resumeStatus = 'ACTIVE';
+                    } else {
+                        request.status = 'ACTIVE';
+                    }
+                    addParticipant(request, socket.data.user, 'PRIMARY');
+                    sessionRequests.set(request.id, request);
+
+                    // The radiologist is in: the SLA has been met
+                    clearTimeout(slaTimers.get(request.id));
+                    slaTimers.delete(request.id);
+                }
+
+                console.log(`[ACCEPTED] ${currentUser?.name} accepted room ${assignment.roomId}`);
+
+                // Notify the technician
+                const technician = Array.from(connectedUsers.values()).find(u => u.id === assignment.technicianId);
+                if (technician) {
+                    io.to(technician.socketId).emit('signal', {
+                        type: 'ROOM_ACCEPTED',
+                        payload: { 
+                            assignmentId, 
+                            radiologistId: currentUser?.id,
+                            roomId: assignment.roomId // Added roomId here
+                        }
+                    });
+                }
+
+                // Send room info to radiologist so they can join
+                socket.emit('join-room', { roomId: assignment.roomId });
+
+            } else {
+                assignment.status = 'REJECTED';
+                assignment.rejectionComment = comment;
+                roomAssignments.set(assignmentId, assignment);
+
+                console.log(`[REJECTED] ${currentUser?.name} rejected room ${assignment.roomId}: ${comment}`);
+
+                // Update session request status back to pending; auto-dispatch moves on to the next candidate
+                const request = Array.from(sessionRequests.values()).find(r => r.roomId === assignment.roomId);
+                if (request) {
+                    request.rejectionComment = comment;
+                    returnToQueue(request, assignment.radiologistId);
+                }
+
+                // Notify all medical admins about rejection
+                getUsersByRole('MEDICAL_ADMIN').forEach(admin => {
+                    io.to(admin.socketId).emit('signal', {
+                        type: 'ROOM_REJECTED',
+                        payload: {
+                            assignmentId,
+                            radiologistId: currentUser?.id,
+                            radiologistName: currentUser?.name,
+                            comment
+                        }
+                    });
+                });
+            }
+
+            // Update all admins
+            broadcastSessionRequestsToAdmins();
+            if (!accept) dispatchPendingRequests();
+        });
+
+        // ----------------------------------------
+        // LEAVE SESSION (TECH/RAD ACTION)
+        // ----------------------------------------
+        socket.on('leave-session', ({ roomId }) => {
+            console.log(`[LEAVE SESSION] ${currentUser?.name} leaving room ${roomId}`);
+
+            // Find session request for this room
+            const request = Array.from(sessionRequests.values()).find(r => r.roomId === roomId);
+            if (request && !isSessionParticipant(request, socket.data.user.id)) {
+                return rejectEvent(socket, 'leave-session', ErrorCode.FORBIDDEN, `You are not part of room ${roomId}`);
+            }
+
+            // A consultant or observer leaving does not end the session for everyone else
+            const sessionRole = request ? getSessionRole(request, socket.data.user.id) : null;
+            if (sessionRole === 'CONSULTANT' || sessionRole === 'OBSERVER') {
+                request.participants = request.participants.filter(p => p.userId !== socket.data.user.id);
+                sessionRequests.set(request.id, request);
+                leaveCurrentRoom();
+                socket.emit('signal', {
+                    type: 'SESSION_ENDED',
+                    payload: { requestId: request.id, reason: 'You left the session' }
+                });
+                broadcastSessionRequestsToAdmins();
+                dispatchPendingRequests();
+                return;
+            }
+
+            if (request) {
+                // If request exists, we can treat it same as "end-session" logic
+                // Re-use the existing end-session logic by manually triggering it internally
+                // Or just duplicate functionality for clarity
+
+                // Notify other party
+                socket.to(`room-${roomId}`).emit('signal', {
+                    type: 'SESSION_ENDED',
+                    payload: { requestId: request.id, reason: `${currentUser?.name} left the session` }
+                });
+
+                // Cleanup
+                archiveSession(request, `${currentUser?.name} left the session`);
+                sessionRequests.delete(request.id);
+
+                // Find radiologist and make available
+                if (request.assignedRadiologistId) {
+                    const radiologist = Array.from(connectedUsers.values()).find(u => u.id === request.assignedRadiologistId);
+                    if (radiologist) {
+                        radiologist.isAvailable = true;
+                        connectedUsers.set(radiologist.socketId, radiologist);
+                        saveUserProfile(radiologist);
+                    }
+                }
+
+                // Clean up room assignments
+                for (const [assignmentId, assignment] of roomAssignments) {
+                    if (assignment.roomId === roomId) {
+                        clearInviteExpiry(assignmentId);
+                        roomAssignments.delete(assignmentId);
+                    }
+                }
+
+                // Broadcast updates
+                broadcastSessionRequestsToAdmins();
+                broadcastUserListToAdmins();
+
+                // Clean up room in memory
+                const roomName = `room-${roomId}`;
+                if (roomUsers.has(roomName)) {
+                    roomUsers.delete(roomName);
+                }
+                roomStates.delete(roomName);
+                clearTimeout(graceTimers.get(request.id));
+                graceTimers.delete(request.id);
+                clearTimeout(slaTimers.get(request.id));
+                slaTimers.delete(request.id);
+
+                // Acknowledge to sender (in case they don't get the broadcast)
+                socket.emit('signal', {
+                    type: 'SESSION_ENDED',
+                    payload: { requestId: request.id, reason: 'You ended the session' }
+                });
+
+                // The radiologist is free for the next waiting request
+                dispatchPendingRequests();
+            }
+        });
+
+        // ----------------------------------------
+        // END SESSION (ADMIN ACTION)
+        // ----------------------------------------
+        socket.on('end-session', ({ requestId }) => {
+            console.log(`[END SESSION] Received end-session request for: ${requestId}`);
+            console.log(`[END SESSION] Current session requests:`, Array.from(sessionRequests.keys()));
+
+            const request = sessionRequests.get(requestId);
+            if (!request) {
+                return rejectEvent(socket, 'end-session', ErrorCode.NOT_FOUND, `Session request ${requestId} not found`);
+            }
+            // Technicians may only end their own session; admins may end any
+            if (socket.data.user.role === 'TECH' && request.technicianId !== socket.data.user.id) {
+                return rejectEvent(socket, 'end-session', ErrorCode.FORBIDDEN, `Session ${requestId} belongs to another technician`);
+            }
+
+            console.log(`[END SESSION] ${socket.data.user.name} ending session ${requestId} for room ${request.roomId}`);
+
+            // Find the technician and radiologist
+            const technician = Array.from(connectedUsers.values()).find(u => u.id === request.technicianId);
+            const radiologist = Array.from(connectedUsers.values()).find(u => u.id === request.assignedRadiologistId);
+
+            // Notify technician
+            if (technician) {
+                io.to(technician.socketId).emit('signal', {
+                    type: 'SESSION_ENDED',
+                    payload: { requestId, reason: 'Session ended by admin' }
+                });
+            }
+
+            // Notify radiologist
+            if (radiologist) {
+                io.to(radiologist.socketId).emit('signal', {
+                    type: 'SESSION_ENDED',
+                    payload: { requestId, reason: 'Session ended by admin' }
+                });
+                // Make radiologist available again
+                radiologist.isAvailable = true;
+                connectedUsers.set(radiologist.socketId, radiologist);
+                saveUserProfile(radiologist);
+            }
+
+            // Notify consultants
+            getInvitedParticipants(request).forEach(p => emitToUser(p.userId, 'signal', {
+                type: 'SESSION_ENDED',
+                payload: { requestId, reason: 'Session ended by admin' }
+            }));
+
+            // Remove the session request
+            archiveSession(request, `Session ended by ${socket.data.user.name}`);
+            sessionRequests.delete(requestId);
+
+            // Clean up room assignments for this room
+            for (const [assignmentId, assignment] of roomAssignments) {
+                if (assignment.roomId === request.roomId) {
+                    clearInviteExpiry(assignmentId);
+                    roomAssignments.delete(assignmentId);
+                }
+            }
+
+            // Clean up the room
+            const roomName = `room-${request.roomId}`;
+            if (roomUsers.has(roomName)) {
+                roomUsers.delete(roomName);
+            }
+            roomStates.delete(roomName);
+            clearTimeout(graceTimers.get(requestId));
+            graceTimers.delete(requestId);
+            clearTimeout(slaTimers.get(requestId));
+            slaTimers.delete(requestId);
+
+            // Broadcast updates
+            broadcastSessionRequestsToAdmins();
+            broadcastUserListToAdmins();
+            dispatchPendingRequests();
+        });
+
+        // ----------------------------------------
+        // AUTO-DISPATCH TOGGLE (ADMIN ACTION)
+        // ----------------------------------------
+        socket.on('set-auto-dispatch', ({ enabled }) => {
+            autoDispatchEnabled = enabled;
+            console.log(`[DISPATCH] Auto-dispatch turned ${enabled ? 'on' : 'off'} by ${socket.data.user.name}`);
+            emitToAdmins('signal', { type: 'DISPATCH_STATUS', payload: { enabled } });
+            dispatchPendingRequests();
+        });
+
+        // ----------------------------------------
+        // GET DATA ENDPOINTS
+        // ----------------------------------------
+        socket.on('get-users', (callback) => {
+            const technicians = getUsersByRole('TECH');
+            const radiologists = getUsersByRole('RADIOLOGIST');
+            const observers = getUsersByRole('OBSERVER');
+            callback({ technicians, radiologists, observers });
+        });
+
+        socket.on('get-session-requests', (callback) => {
+            callback(Array.from(sessionRequests.values()));
+        });
+
+        socket.on('get-available-radiologists', (callback) => {
+            callback(getAvailableRadiologists());
+        });
+
+        // Fetched before every RTCPeerConnection; TURN credentials are issued per call
+        socket.on('get-ice-config', (callback) => {
+            callback(getIceConfig(socket.data.user));
+        });
+
+        // ----------------------------------------
+        // ROOM JOINING (existing functionality)
+        // ----------------------------------------
+        socket.on('join', ({ roomId }) => {
+            const { id: userId, name: userName, role } = socket.data.user;
+
+            // Only the technician of the session and radiologists who accepted may enter the room
+            const request = Array.from(sessionRequests.values()).find(r => r.roomId === roomId);
+            if (!request || !isRoomMember(request, userId)) {
+                return rejectEvent(socket, 'join', ErrorCode.FORBIDDEN, `You are not part of room ${roomId}`);
+            }
+            const sessionRole = getSessionRole(request, userId);
+
+            if (currentRoom && currentRoom !== `room-${roomId}`) leaveCurrentRoom();
+            currentRoom = `room-${roomId}`;
+            socket.join(currentRoom);
+
+            // Track participants per socket: calls are set up between every pair of sockets
+            if (!roomUsers.has(currentRoom)) {
+                roomUsers.set(currentRoom, new Map());
+            }
+            roomUsers.get(currentRoom).set(socket.id, { socketId: socket.id, userId, name: userName, role, sessionRole, joinedAt: Date.now() });
+
+            // A member seen before is rejoining after a reload or network drop
+            const roomState = getRoomState(currentRoom);
+            const resumed = roomState.members.has(userId);
+            roomState.members.add(userId);
+            // The technician has the probe in hand, so they start with control of the study
+            if (!roomState.control) {
+                roomState.technician = { id: request.technicianId, name: request.technicianName };
+                roomState.control = { holderId: request.technicianId, holderName: request.technicianName, requests: [] };
+            }
+
+            console.log(`[JOIN] ${sessionRole} ${userName} ${resumed ? 'rejoined' : 'joined'} room: ${currentRoom} (${roomUsers.get(currentRoom).size} users)`);
+
+            // Notify others in the room
+            socket.to(currentRoom).emit('signal', {
+                type: 'JOIN',
+                payload: { role, roomId, socketId: socket.id, userId, userName, sessionRole, resumed }
+            });
+
+            // Send current room state (participants, chat history, study controls and who holds them, uploaded series) to the new user
+            socket.emit('room-info', {
+                users: Array.from(roomUsers.get(currentRoom).values()),
+                messages: roomState.messages,
+                sync: roomState.sync,
+                measurements: roomState.measurements,
+                annotations: roomState.annotations,
+                control: roomState.control,
+                examContext: request.examContext,
+                series: studies?.listSeries(request.id) ?? []
+            });
+        });
+
+        // ----------------------------------------
+        // STUDY CONTROL HANDOFF
+        // ----------------------------------------
+        socket.on('request-control', () => {
+            if (!canRelay('request-control')) return;
+            const { id: userId, name: userName } = socket.data.user;
+            if (roomUsers.get(currentRoom)?.get(socket.id)?.sessionRole === 'OBSERVER') {
+                return rejectEvent(socket, 'request-control', ErrorCode.FORBIDDEN, 'Observers cannot take control of the study');
+            }
+            const { control, technician } = getRoomState(currentRoom);
+            if (control.holderId === userId) {
+                return rejectEvent(socket, 'request-control', ErrorCode.INVALID_STATE, 'You already have control of the study');
+            }
+            // The technician takes control back without asking
+            if (userId === technician.id) {
+                return setRoomControl(currentRoom, { holderId: userId, holderName: userName, requests: control.requests });
+            }
+            if (control.requests.some(r => r.userId === userId)) return;
+            setRoomControl(currentRoom, { ...control, requests: [...control.requests, { userId, userName }] });
+        });
+
+        socket.on('respond-to-control-request', ({ userId, grant }) => {
+            if (!canRelay('respond-to-control-request')) return;
+            const { control } = getRoomState(currentRoom);
+            if (control.holderId !== socket.data.user.id) {
+                return rejectEvent(socket, 'respond-to-control-request', ErrorCode.FORBIDDEN, `${control.holderName} has control of the study`);
+            }
+            const request = control.requests.find(r => r.userId === userId);
+            if (!request) {
+                return rejectEvent(socket, 'respond-to-control-request', ErrorCode.NOT_FOUND, `No control request from ${userId}`);
+            }
+            const requests = control.requests.filter(r => r.userId !== userId);
+            setRoomControl(currentRoom, grant
+                ? { holderId: request.userId, holderName: request.userName, requests }
+                : { ...control, requests });
+        });
+
+        socket.on('release-control', () => {
+            if (!canRelay('release-control')) return;
+            const { control, technician } = getRoomState(currentRoom);
+            if (control.holderId !== socket.data.user.id) {
+                return rejectEvent(socket, 'release-control', ErrorCode.FORBIDDEN, `${control.holderName} has control of the study`);
+            }
+            if (control.holderId === technician.id) {
+                return rejectEvent(socket, 'release-control', ErrorCode.INVALID_STATE, 'The technician keeps control until handing it over');
+            }
+            setRoomControl(currentRoom, { holderId: technician.id, holderName: technician.name, requests: control.requests });
+        });
+
+        // ----------------------------------------
+        // SIGNALING (existing functionality)
+        // ----------------------------------------
+        socket.on('signal', (signal) => {
+            if (canRelay('signal')) {
+                const event = stampAuthor(currentRoom, signal, socket.data.user);
+                // Only the holder of the study controls may change them; the sender gets the room's controls back
+                const { control, sync } = getRoomState(currentRoom);
+                if (event.type === 'SYNC_STATE' && control && control.holderId !== socket.data.user.id) {
+                    rejectEvent(socket, 'signal', ErrorCode.FORBIDDEN, `${control.holderName} has control of the study`);
+                    socket.emit('signal', { type: 'SYNC_STATE', payload: sync });
+                    return;
+                }
+                console.log(`[SIGNAL] ${event.type} in ${currentRoom}`);
+                recordRoomEvent(currentRoom, event);
+                socket.to(currentRoom).emit('signal', event);
+            }
+        });
+
+        // WebRTC Signaling for Voice/Video: one connection per pair of participant sockets
+        socket.on('webrtc-offer', ({ offer, to }) => {
+            if (canRelay('webrtc-offer', to)) {
+                console.log(`[WEBRTC] Offer from ${socket.id} to ${to}`);
+                io.to(to).emit('webrtc-offer', { offer, from: socket.id });
+            }
+        });
+
+        socket.on('webrtc-answer', ({ answer, to }) => {
+            if (canRelay('webrtc-answer', to)) {
+                console.log(`[WEBRTC] Answer to ${to}`);
+                io.to(to).emit('webrtc-answer', { answer, from: socket.id });
+            }
+        });
+
+        socket.on('webrtc-ice-candidate', ({ candidate, to }) => {
+            if (canRelay('webrtc-ice-candidate', to)) {
+                console.log(`[WEBRTC] ICE candidate to ${to}`);
+                io.to(to).emit('webrtc-ice-candidate', { candidate, from: socket.id });
+            }
+        });
+
+        // WebRTC Video Signaling (bidirectional)
+        // The sender role is taken from the session token, not the payload
+        socket.on('webrtc-video-offer', ({ offer, to }) => {
+            const role = socket.data.user.role;
+            if (canRelay('webrtc-video-offer', to)) {
+                console.log(`[WEBRTC VIDEO] Offer from ${role} (${socket.id}) to ${to}`);
+                io.to(to).emit('webrtc-video-offer', { offer, from: socket.id, senderRole: role });
+            }
+        });
+
+        socket.on('webrtc-video-answer', ({ answer, to }) => {
+            const role = socket.data.user.role;
+            if (canRelay('webrtc-video-answer', to)) {
+                console.log(`[WEBRTC VIDEO] Answer from ${role} to ${to}`);
+                io.to(to).emit('webrtc-video-answer', { answer, from: socket.id, senderRole: role });
+            }
+        });
+
+        socket.on('webrtc-video-ice-candidate', ({ candidate, to }) => {
+            const role = socket.data.user.role;
+            if (canRelay('webrtc-video-ice-candidate', to)) {
+                console.log(`[WEBRTC VIDEO] ICE candidate from ${role} to ${to}`);
+                io.to(to).emit('webrtc-video-ice-candidate', { candidate, from: socket.id, senderRole: role });
+            }
+        });
+
+        // ----------------------------------------
+        // DISCONNECT
+        // ----------------------------------------
+        socket.on('disconnect', () => {
+            console.log(`[DISCONNECT] Client disconnected: ${socket.id}`);
+
+            // Remove from connected users
+            const user = connectedUsers.get(socket.id);
+            connectedUsers.delete(socket.id);
+
+            // If technician disconnects, hold their sessions for the grace period instead of ending them
+            const stillConnected = user && Array.from(connectedUsers.values()).some(u => u.id === user.id);
+            if (user && user.role === 'TECH' && !stillConnected) {
+                for (const request of sessionRequests.values()) {
+                    if (request.technicianId === user.id && (request.status === 'ACTIVE' || request.status === 'ASSIGNED')) {
+                        suspendSession(request);
+                    }
+                }
+            }
+
+            // Clean up room and notify the other participants
+            leaveCurrentRoom();
+
+            // Broadcast updated user list to medical admins
+            broadcastUserListToAdmins();
+            broadcastSessionRequestsToAdmins();
+        });
+    });
+
+    // The live session of a room and the user's role in it, or null when the user may not enter the room
+    const getRoomMembership = (roomId, userId) => {
+        const request = sessionRequests.values().find(r => r.roomId === roomId);
+        if (!request || !isRoomMember(request, userId)) return null;
+        return { request, sessionRole: getSessionRole(request, userId) };
+    };
+
+    // Tell the room (and the technician, who uploads before anyone joins) that its series changed
+    const announceSeries = (request) => {
+        const roomName = `room-${request.roomId}`;
+        const signal = { type: 'STUDIES_UPDATED', payload: { roomId: request.roomId, series: studies?.listSeries(request.id) ?? [] } };
+        io.to(roomName).emit('signal', signal);
+        connectedUsers.forEach(u => {
+            if (u.id === request.technicianId && !roomUsers.get(roomName)?.has(u.socketId)) io.to(u.socketId).emit('signal', signal);
+        });
+    };
+
+    return { connectedUsers, getRoomMembership, announceSeries };
+};
@@ -0,0 +1,32 @@
+/**
+ * Storage layer for the signaling server.
+ *
+ * Every collection is exposed through the same synchronous, Map-like
+ * repository interface, so handlers do not care which driver is in use:
+ *
+ *   get(id)            -> record | undefined
+ *   has(id)            -> boolean
+ *   set(id, record)    -> repository (insert or replace; call again after mutating a record)
+ *   delete(id)         -> boolean
+ *   values() / keys()  -> arrays
+ *   size               -> number of records
+ *   [Symbol.iterator]  -> [id, record] pairs (snapshot, safe to delete while iterating)
+ *
+ * Collections: sessionRequests, roomAssignments, userProfiles (last known
+ * availability per user id), sessionHistory (closed sessions) and
+ * studyInstances (DICOM files uploaded to sessions, see studies/studyArchive.js).
+ */
+
+// Drivers: `memory` (nothing survives a restart) or `sqlite` (embedded file database)
+export const createStore = async ({ driver, file }) => {
+    if (driver === 'memory') {
+        const { createMemoryStore } = await import('./memoryStore.js');
+        return createMemoryStore();
+    }
+    if (driver === 'sqlite') {
+        // Loaded lazily so the native module is only required when it is used
+        const { createSqliteStore } = await import('./sqliteStore.js');
+        return createSqliteStore(file);
+    }
+    throw new Error(`Unknown STORE_DRIVER "${driver}" (expected "memory" or "sqlite")`);
+};
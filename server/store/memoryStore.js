@@ -0,0 +1,34 @@
+// ============================================
+// IN-MEMORY REPOSITORIES
+// ============================================
+
+/**
+ * Map-backed repository. Records live only as long as the process.
+ * Also used as the read cache of the SQLite repositories.
+ */
+export const createMemoryRepository = (records = new Map()) => ({
+    get: (id) => records.get(id),
+    has: (id) => records.has(id),
+    set(id, record) {
+        records.set(id, record);
+        return this;
+    },
+    delete: (id) => records.delete(id),
+    values: () => Array.from(records.values()),
+    keys: () => Array.from(records.keys()),
+    get size() {
+        return records.size;
+    },
+    // Iterate over a snapshot so handlers can delete while looping
+    [Symbol.iterator]: () => Array.from(records.entries())[Symbol.iterator](),
+});
+
+export const createMemoryStore = () => ({
+    driver: 'memory',
+    sessionRequests: createMemoryRepository(),
+    roomAssignments: createMemoryRepository(),
+    userProfiles: createMemoryRepository(),
+    sessionHistory: createMemoryRepository(),
+    studyInstances: createMemoryRepository(),
+    close: () => {},
+});
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { createMemoryRepository } from './memoryStore.js';
+
+// ============================================
+// SQLITE REPOSITORIES
+// ============================================
+
+// One table per collection; records are stored as JSON documents
+const TABLES = {
+    sessionRequests: 'session_requests',
+    roomAssignments: 'room_assignments',
+    userProfiles: 'user_profiles',
+    sessionHistory: 'session_history',
+    studyInstances: 'study_instances',
+};
+
+/**
+ * Write-through repository: every record is loaded into memory on startup,
+ * reads are served from memory and every write is committed to SQLite.
+ */
+const createSqliteRepository = (db, table) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+            id TEXT PRIMARY KEY,
+            data TEXT NOT NULL,
+            updated_at INTEGER NOT NULL
+        )
+    `);
+
+    const upsert = db.prepare(`
+        INSERT INTO ${table} (id, data, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `);
+    const remove = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+
+    const records = new Map();
+    for (const row of db.prepare(`SELECT id, data FROM ${table}`).all()) {
+        records.set(row.id, JSON.parse(row.data));
+    }
+
+    const cache = createMemoryRepository(records);
+    return {
+        ...cache,
+        get size() {
+            return records.size;
+        },
+        set(id, record) {
+            upsert.run(id, JSON.stringify(record), Date.now());
+            records.set(id, record);
+            return this;
+        },
+        delete(id) {
+            remove.run(id);
+            return records.delete(id);
+        },
+    };
+};
+
+export const createSqliteStore = (file) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+
+    const store = { driver: 'sqlite', close: () => db.close() };
+    for (const [collection, table] of Object.entries(TABLES)) {
+        store[collection] = createSqliteRepository(db, table);
+    }
+    return store;
+};
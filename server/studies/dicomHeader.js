@@ -0,0 +1,214 @@
+// ============================================
+// DICOM PART 10 HEADER READER
+// ============================================
+// Reads the attributes the archive and DICOMweb service need from an uploaded
+// DICOM file, and where its pixel data starts, without decoding any pixels.
+// Supports explicit and implicit VR little endian datasets, the encodings used
+// by every transfer syntax the viewer can display (compressed syntaxes only
+// encapsulate the pixel data, see pixelData.js).
+
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const EXPLICIT_VR_BIG_ENDIAN = '1.2.840.10008.1.2.2';
+const DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1.99';
+
+// Explicit VRs with a 2-byte reserved field and a 4-byte length
+const LONG_VRS = ['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'UC', 'UN', 'UR', 'UT'];
+
+const UNDEFINED_LENGTH = 0xffffffff;
+const ITEM = 0xfffee000;
+const ITEM_DELIMITATION = 0xfffee00d;
+const SEQUENCE_DELIMITATION = 0xfffee0dd;
+const PIXEL_DATA = 0x7fe00010;
+
+/**
+ * Attributes kept from the dataset: [tag, VR, DICOM keyword, header field].
+ * Only the first value of multi-valued attributes is kept, except for those in ALL_VALUES.
+ */
+export const DICOM_ATTRIBUTES = [
+    ['00080016', 'UI', 'SOPClassUID', 'sopClassUid'],
+    ['00080018', 'UI', 'SOPInstanceUID', 'sopInstanceUid'],
+    ['00080020', 'DA', 'StudyDate', 'studyDate'],
+    ['00080030', 'TM', 'StudyTime', 'studyTime'],
+    ['00080050', 'SH', 'AccessionNumber', 'accessionNumber'],
+    ['00080060', 'CS', 'Modality', 'modality'],
+    ['00081030', 'LO', 'StudyDescription', 'studyDescription'],
+    ['0008103E', 'LO', 'SeriesDescription', 'seriesDescription'],
+    ['00082144', 'IS', 'RecommendedDisplayFrameRate', 'recommendedDisplayFrameRate'],
+    ['00100010', 'PN', 'PatientName', 'patientName'],
+    ['00100020', 'LO', 'PatientID', 'patientId'],
+    ['00100030', 'DA', 'PatientBirthDate', 'patientBirthDate'],
+    ['00100040', 'CS', 'PatientSex', 'patientSex'],
+    ['00180040', 'IS', 'CineRate', 'cineRate'],
+    ['00181063', 'DS', 'FrameTime', 'frameTime'],
+    ['0020000D', 'UI', 'StudyInstanceUID', 'studyInstanceUid'],
+    ['0020000E', 'UI', 'SeriesInstanceUID', 'seriesInstanceUid'],
+    ['00200010', 'SH', 'StudyID', 'studyId'],
+    ['00200011', 'IS', 'SeriesNumber', 'seriesNumber'],
+    ['00200013', 'IS', 'InstanceNumber', 'instanceNumber'],
+    ['00280002', 'US', 'SamplesPerPixel', 'samplesPerPixel'],
+    ['00280004', 'CS', 'PhotometricInterpretation', 'photometricInterpretation'],
+    ['00280006', 'US', 'PlanarConfiguration', 'planarConfiguration'],
+    ['00280008', 'IS', 'NumberOfFrames', 'numberOfFrames'],
+    ['00280010', 'US', 'Rows', 'rows'],
+    ['00280011', 'US', 'Columns', 'columns'],
+    ['00280030', 'DS', 'PixelSpacing', 'pixelSpacing'],
+    ['00280100', 'US', 'BitsAllocated', 'bitsAllocated'],
+    ['00280101', 'US', 'BitsStored', 'bitsStored'],
+    ['00280102', 'US', 'HighBit', 'highBit'],
+    ['00280103', 'US', 'PixelRepresentation', 'pixelRepresentation'],
+    ['00281050', 'DS', 'WindowCenter', 'windowCenter'],
+    ['00281051', 'DS', 'WindowWidth', 'windowWidth'],
+    ['00281055', 'LO', 'WindowCenterWidthExplanation', 'windowExplanation'],
+    ['00281052', 'DS', 'RescaleIntercept', 'rescaleIntercept'],
+    ['00281053', 'DS', 'RescaleSlope', 'rescaleSlope']
+];
+const ATTRIBUTES_BY_TAG = new Map(DICOM_ATTRIBUTES.map(([tag, vr, , field]) => [parseInt(tag, 16), { vr, field }]));
+
+// Both pixel spacings are needed, and every VOI window of an image is a preset the viewer offers
+const ALL_VALUES = ['pixelSpacing', 'windowCenter', 'windowWidth', 'windowExplanation'];
+
+const SEQUENCE_OF_ULTRASOUND_REGIONS = 0x00186011;
+
+/**
+ * Calibration kept from each item of the SequenceOfUltrasoundRegions, as
+ * `header.ultrasoundRegions`: where the region is and the physical size of its pixels.
+ */
+export const ULTRASOUND_REGION_ATTRIBUTES = [
+    ['00186012', 'US', 'RegionSpatialFormat', 'spatialFormat'],
+    ['00186014', 'US', 'RegionDataType', 'dataType'],
+    ['00186018', 'UL', 'RegionLocationMinX0', 'minX0'],
+    ['0018601A', 'UL', 'RegionLocationMinY0', 'minY0'],
+    ['0018601C', 'UL', 'RegionLocationMaxX1', 'maxX1'],
+    ['0018601E', 'UL', 'RegionLocationMaxY1', 'maxY1'],
+    ['00186020', 'SL', 'ReferencePixelX0', 'referencePixelX0'],
+    ['00186022', 'SL', 'ReferencePixelY0', 'referencePixelY0'],
+    ['00186024', 'US', 'PhysicalUnitsXDirection', 'unitsX'],
+    ['00186026', 'US', 'PhysicalUnitsYDirection', 'unitsY'],
+    ['00186028', 'FD', 'ReferencePixelPhysicalValueX', 'referenceValueX'],
+    ['0018602A', 'FD', 'ReferencePixelPhysicalValueY', 'referenceValueY'],
+    ['0018602C', 'FD', 'PhysicalDeltaX', 'deltaX'],
+    ['0018602E', 'FD', 'PhysicalDeltaY', 'deltaY']
+];
+const REGION_ATTRIBUTES_BY_TAG = new Map(ULTRASOUND_REGION_ATTRIBUTES.map(([tag, vr, , field]) => [parseInt(tag, 16), { vr, field }]));
+
+// Text values are padded to an even length with spaces or NULs
+const readText = (buffer, start, length) => buffer.toString('latin1', start, start + length).replace(/[\0 ]+$/, '').trim();
+
+// Values of an attribute, as numbers for numeric VRs
+const readValues = (buffer, vr, start, length) => {
+    if (vr === 'US') return length >= 2 ? [buffer.readUInt16LE(start)] : [];
+    if (vr === 'UL') return length >= 4 ? [buffer.readUInt32LE(start)] : [];
+    if (vr === 'SL') return length >= 4 ? [buffer.readInt32LE(start)] : [];
+    if (vr === 'FD') return length >= 8 ? [buffer.readDoubleLE(start)] : [];
+    const texts = readText(buffer, start, length).split('\\').map(text => text.trim()).filter(Boolean);
+    if (vr === 'IS' || vr === 'DS') return texts.map(Number).filter(Number.isFinite);
+    return texts;
+};
+
+/**
+ * Walks the data elements in [offset, end) and calls `visit(tag, valueOffset, length)`
+ * for each top-level element. Stops early when `visit` returns false, and at an
+ * item or sequence delimiter when reading the contents of an undefined-length item.
+ * Returns the offset after the last element read.
+ */
+const readElements = (buffer, offset, end, explicit, visit) => {
+    while (offset + 8 <= end) {
+        const tag = ((buffer.readUInt16LE(offset) << 16) | buffer.readUInt16LE(offset + 2)) >>> 0;
+        if (tag === ITEM_DELIMITATION || tag === SEQUENCE_DELIMITATION) return offset + 8;
+
+        // Items and delimiters never carry a VR
+        let vr = null;
+        let length;
+        let valueOffset;
+        if (explicit && tag !== ITEM) {
+            vr = buffer.toString('latin1', offset + 4, offset + 6);
+            if (LONG_VRS.includes(vr)) {
+                length = buffer.readUInt32LE(offset + 8);
+                valueOffset = offset + 12;
+            } else {
+                length = buffer.readUInt16LE(offset + 6);
+                valueOffset = offset + 8;
+            }
+        } else {
+            length = buffer.readUInt32LE(offset + 4);
+            valueOffset = offset + 8;
+        }
+
+        if (visit(tag, valueOffset, length) === false) return offset;
+
+        if (length === UNDEFINED_LENGTH) {
+            // A sequence or one of its items (implicit VR only leaves those undefined):
+            // read through the contents up to the delimiter. Undefined-length UN is an implicit VR sequence.
+            offset = tag === ITEM || vr === 'SQ' || vr === 'UN' || vr === null
+                ? readElements(buffer, valueOffset, end, explicit && vr !== 'UN', () => {})
+                : end;
+        } else {
+            offset = valueOffset + length;
+        }
+    }
+    return offset;
+};
+
+// Items of the SequenceOfUltrasoundRegions whose value starts at `offset`
+const readUltrasoundRegions = (buffer, offset, length, explicit) => {
+    const regions = [];
+    const end = length === UNDEFINED_LENGTH ? buffer.length : offset + length;
+    readElements(buffer, offset, end, explicit, (tag, itemOffset, itemLength) => {
+        if (tag !== ITEM) return;
+        const region = {};
+        const itemEnd = itemLength === UNDEFINED_LENGTH ? buffer.length : itemOffset + itemLength;
+        readElements(buffer, itemOffset, itemEnd, explicit, (regionTag, valueOffset, valueLength) => {
+            const attribute = REGION_ATTRIBUTES_BY_TAG.get(regionTag);
+            if (!attribute || valueLength === UNDEFINED_LENGTH) return;
+            const [value] = readValues(buffer, attribute.vr, valueOffset, valueLength);
+            if (value !== undefined) region[attribute.field] = value;
+        });
+        regions.push(region);
+    });
+    return regions;
+};
+
+/**
+ * Reads the header of a DICOM Part 10 file. Returns the attributes listed in
+ * DICOM_ATTRIBUTES (by header field), the ultrasound regions, the transfer
+ * syntax and the location of the pixel data (`pixelData: { offset, length }`,
+ * length null when encapsulated). Throws when the buffer is not a DICOM file we can use.
+ */
+export const readDicomHeader = (buffer) => {
+    if (buffer.length < 132 || buffer.toString('latin1', 128, 132) !== 'DICM') {
+        throw new Error('Not a DICOM Part 10 file (missing DICM prefix)');
+    }
+
+    // File meta information (group 0002) is always explicit VR little endian
+    let transferSyntaxUid = null;
+    const datasetOffset = readElements(buffer, 132, buffer.length, true, (tag, valueOffset, length) => {
+        if (tag >>> 16 !== 0x0002) return false;
+        if (tag === 0x00020010) transferSyntaxUid = readText(buffer, valueOffset, length);
+    });
+    if (!transferSyntaxUid) throw new Error('Missing transfer syntax');
+    if (transferSyntaxUid === EXPLICIT_VR_BIG_ENDIAN || transferSyntaxUid === DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN) {
+        throw new Error(`Unsupported transfer syntax ${transferSyntaxUid}`);
+    }
+
+    const explicit = transferSyntaxUid !== IMPLICIT_VR_LITTLE_ENDIAN;
+    const header = { transferSyntaxUid, numberOfFrames: 1, pixelData: null, ultrasoundRegions: [] };
+    readElements(buffer, datasetOffset, buffer.length, explicit, (tag, valueOffset, length) => {
+        if (tag === PIXEL_DATA) {
+            header.pixelData = { offset: valueOffset, length: length === UNDEFINED_LENGTH ? null : length };
+            return false;
+        }
+        if (tag === SEQUENCE_OF_ULTRASOUND_REGIONS) {
+            header.ultrasoundRegions = readUltrasoundRegions(buffer, valueOffset, length, explicit);
+            return;
+        }
+        const attribute = ATTRIBUTES_BY_TAG.get(tag);
+        if (!attribute || length === UNDEFINED_LENGTH || valueOffset + length > buffer.length) return;
+        const values = readValues(buffer, attribute.vr, valueOffset, length);
+        if (values.length > 0) header[attribute.field] = ALL_VALUES.includes(attribute.field) ? values : values[0];
+    });
+
+    for (const required of ['sopInstanceUid', 'studyInstanceUid', 'seriesInstanceUid']) {
+        if (!header[required]) throw new Error(`Missing ${required}`);
+    }
+    return header;
+};
@@ -0,0 +1,318 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import express from 'express';
+import { DICOM_ATTRIBUTES, ULTRASOUND_REGION_ATTRIBUTES, readDicomHeader } from './dicomHeader.js';
+import { readFrame } from './pixelData.js';
+
+// ============================================
+// DICOMWEB SERVICE
+// ============================================
+// A minimal DICOMweb (PS3.18) service over the study archive, so viewers and
+// PACS tooling can be tested against a local stand-in. Every session room has
+// its own service root, /api/rooms/:roomId/dicomweb; handlers expect the room
+// access check in index.js to have set `req.membership` ({ request, sessionRole }).
+//
+//   QIDO-RS  GET  /studies, /series, /instances (and nested under a study or series)
+//   WADO-RS  GET  /studies/:study[/series/:series[/instances/:sop]]     multipart/related; type="application/dicom"
+//            GET  .../metadata                                          application/dicom+json
+//            GET  /studies/:study/series/:series/instances/:sop/frames/:frames
+//                                                                       multipart/related; type="application/octet-stream"
+//   STOW-RS  POST /studies[/:study]                                     multipart/related; type="application/dicom"
+//
+// Frames are served in the stored transfer syntax (`transfer-syntax` parameter
+// of each part); there is no transcoding.
+
+const ATTRIBUTES_BY_FIELD = new Map(DICOM_ATTRIBUTES.map(([tag, vr, keyword, field]) => [field, { tag, vr }]));
+// QIDO-RS query keys: keyword or tag
+const FIELDS_BY_KEY = new Map(DICOM_ATTRIBUTES.flatMap(([tag, , keyword, field]) => [[keyword, field], [tag, field]]));
+FIELDS_BY_KEY.set('ModalitiesInStudy', 'modality').set('00080061', 'modality');
+const CONTROL_KEYS = ['limit', 'offset', 'includefield', 'fuzzymatching'];
+
+const STUDY_FIELDS = ['studyInstanceUid', 'studyDate', 'studyTime', 'accessionNumber', 'studyDescription', 'studyId', 'patientName', 'patientId', 'patientBirthDate', 'patientSex'];
+const SERIES_FIELDS = ['studyInstanceUid', 'seriesInstanceUid', 'modality', 'seriesNumber', 'seriesDescription'];
+const INSTANCE_FIELDS = ['studyInstanceUid', 'seriesInstanceUid', 'sopClassUid', 'sopInstanceUid', 'instanceNumber', 'numberOfFrames', 'rows', 'columns'];
+
+// Failure reasons of STOW-RS (PS3.18 table 10.5.3-2)
+const FAILURE_CANNOT_UNDERSTAND = 0xc000;
+const FAILURE_STUDY_MISMATCH = 0xc409;
+
+// DICOM JSON element (PS3.18 F.2); undefined for empty values
+const element = (vr, value) => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const values = Array.isArray(value) ? value : [value];
+    return { vr, Value: vr === 'PN' ? values.map(name => ({ Alphabetic: name })) : values };
+};
+
+// DICOM JSON object with the given header fields of a record, plus extra elements by tag
+const toDicomJson = (record, fields, extra = {}) => {
+    const json = {};
+    for (const field of fields) {
+        const { tag, vr } = ATTRIBUTES_BY_FIELD.get(field);
+        const value = element(vr, record[field]);
+        if (value) json[tag] = value;
+    }
+    for (const [tag, value] of Object.entries(extra)) {
+        if (value) json[tag] = value;
+    }
+    return json;
+};
+
+// DICOM JSON item of the SequenceOfUltrasoundRegions
+const toRegionJson = (region) => {
+    const json = {};
+    for (const [tag, vr, , field] of ULTRASOUND_REGION_ATTRIBUTES) {
+        const value = element(vr, region[field]);
+        if (value) json[tag] = value;
+    }
+    return json;
+};
+
+// QIDO-RS matching (PS3.4 C.2.2.2): UID lists, date/time ranges, * and ? wildcards
+const matches = (field, actual, query) => {
+    if (query === '') return true;
+    if (actual === undefined || actual === null) return false;
+    const { vr } = ATTRIBUTES_BY_FIELD.get(field);
+    const value = String(actual);
+    if (vr === 'UI') return query.split(/[\\,]/).includes(value);
+    if ((vr === 'DA' || vr === 'TM') && query.includes('-')) {
+        const [from, to] = query.split('-');
+        return (!from || value >= from) && (!to || value <= to);
+    }
+    const pattern = query.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${pattern}$`, vr === 'PN' ? 'i' : '').test(value);
+};
+
+// One record per distinct value of `field`, with all records sharing it
+const groupBy = (records, field) => {
+    const groups = new Map();
+    for (const record of records) {
+        if (!groups.has(record[field])) groups.set(record[field], []);
+        groups.get(record[field]).push(record);
+    }
+    return Array.from(groups.values());
+};
+
+const sendDicomJson = (res, body, status = 200) => res.status(status).type('application/dicom+json').json(body);
+
+// multipart/related response with one part per { contentType, body }
+const sendMultipart = (res, type, parts) => {
+    const boundary = crypto.randomUUID();
+    const chunks = [];
+    for (const part of parts) {
+        chunks.push(Buffer.from(`--${boundary}\r\nContent-Type: ${part.contentType}\r\n\r\n`), part.body, Buffer.from('\r\n'));
+    }
+    chunks.push(Buffer.from(`--${boundary}--\r\n`));
+    res.set('Content-Type', `multipart/related; type="${type}"; boundary=${boundary}`).send(Buffer.concat(chunks));
+};
+
+// Parts of a multipart/related request body: [{ contentType, body }]
+const readMultipart = (body, boundary) => {
+    const delimiter = Buffer.from(`--${boundary}`);
+    const parts = [];
+    let position = body.indexOf(delimiter);
+    while (position !== -1) {
+        const start = position + delimiter.length;
+        // The close delimiter ends the body
+        if (body.toString('latin1', start, start + 2) === '--') break;
+        const next = body.indexOf(delimiter, start);
+        if (next === -1) break;
+        // Each part sits between the CRLF after its delimiter and the CRLF before the next
+        const part = body.subarray(start + 2, next - 2);
+        const headerEnd = part.indexOf('\r\n\r\n');
+        const headers = part.toString('latin1', 0, Math.max(headerEnd, 0));
+        parts.push({
+            contentType: /^content-type:\s*(.+)$/im.exec(headers)?.[1].trim(),
+            body: part.subarray(part.subarray(0, 2).toString() === '\r\n' ? 2 : headerEnd + 4)
+        });
+        position = next;
+    }
+    return parts;
+};
+
+/**
+ * Router of the DICOMweb service of a room.
+ *
+ * @param {object} options
+ * @param {object} options.studies - study archive (see studyArchive.js)
+ * @param {string} options.uploadLimit - largest STOW-RS request body
+ * @param {function} options.onStore - called with the session request after instances were stored
+ */
+export const createDicomWebRouter = ({ studies, uploadLimit, onStore }) => {
+    const router = express.Router();
+
+    // Service root for RetrieveURLs, e.g. http://host:3001/api/rooms/US-1234/dicomweb
+    const serviceRoot = (req) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+    const instancePath = (i) => `/studies/${i.studyInstanceUid}/series/${i.seriesInstanceUid}/instances/${i.sopInstanceUid}`;
+
+    // Instances of the session under the path's study, series and instance
+    const findInstances = (req) => {
+        const { study, series, sop } = req.params;
+        return studies.listInstances(req.membership.request.id).filter(i =>
+            (!study || i.studyInstanceUid === study)
+            && (!series || i.seriesInstanceUid === series)
+            && (!sop || i.sopInstanceUid === sop));
+    };
+
+    // File and freshly read header of a stored instance
+    const readInstance = (req, instance) => {
+        const buffer = fs.readFileSync(studies.getInstanceFile(req.membership.request.id, instance.sopInstanceUid));
+        return { buffer, header: readDicomHeader(buffer) };
+    };
+
+    // ----------------------------------------
+    // QIDO-RS (SEARCH)
+    // ----------------------------------------
+    const search = (level) => (req, res) => {
+        const filters = [];
+        for (const [key, value] of Object.entries(req.query)) {
+            if (CONTROL_KEYS.includes(key)) continue;
+            const field = FIELDS_BY_KEY.get(key) || FIELDS_BY_KEY.get(key.toUpperCase());
+            if (!field) {
+                return res.status(400).json({ error: `Unsupported query attribute ${key}` });
+            }
+            filters.push([field, String(value)]);
+        }
+
+        const instances = findInstances(req)
+            .filter(i => filters.every(([field, query]) => matches(field, i[field], query)))
+            .sort((a, b) => a.uploadedAt - b.uploadedAt);
+        const root = serviceRoot(req);
+
+        let results;
+        if (level === 'study') {
+            results = groupBy(instances, 'studyInstanceUid').map(study => toDicomJson(study[0], STUDY_FIELDS, {
+                '00080061': element('CS', [...new Set(study.map(i => i.modality).filter(Boolean))]),
+                '00081190': element('UR', `${root}/studies/${study[0].studyInstanceUid}`),
+                '00201206': element('IS', groupBy(study, 'seriesInstanceUid').length),
+                '00201208': element('IS', study.length)
+            }));
+        } else if (level === 'series') {
+            results = groupBy(instances, 'seriesInstanceUid').map(series => toDicomJson(series[0], SERIES_FIELDS, {
+                '00081190': element('UR', `${root}/studies/${series[0].studyInstanceUid}/series/${series[0].seriesInstanceUid}`),
+                '00201209': element('IS', series.length)
+            }));
+        } else {
+            results = instances.map(i => toDicomJson(i, INSTANCE_FIELDS, { '00081190': element('UR', `${root}${instancePath(i)}`) }));
+        }
+
+        const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+        const limit = parseInt(req.query.limit, 10) || results.length;
+        sendDicomJson(res, results.slice(offset, offset + limit));
+    };
+
+    router.get('/studies', search('study'));
+    router.get(['/series', '/studies/:study/series'], search('series'));
+    router.get(['/instances', '/studies/:study/instances', '/studies/:study/series/:series/instances'], search('instance'));
+
+    // ----------------------------------------
+    // WADO-RS (RETRIEVE)
+    // ----------------------------------------
+    const metadataPaths = ['/studies/:study/metadata', '/studies/:study/series/:series/metadata', '/studies/:study/series/:series/instances/:sop/metadata'];
+    router.get(metadataPaths, (req, res) => {
+        const instances = findInstances(req);
+        if (instances.length === 0) {
+            return res.status(404).json({ error: 'Not found' });
+        }
+        sendDicomJson(res, instances.map(instance => {
+            const { header } = readInstance(req, instance);
+            return toDicomJson(header, DICOM_ATTRIBUTES.map(([, , , field]) => field), {
+                '00020010': element('UI', header.transferSyntaxUid),
+                '00083002': element('UI', header.transferSyntaxUid),
+                '00186011': header.ultrasoundRegions.length > 0 ? { vr: 'SQ', Value: header.ultrasoundRegions.map(toRegionJson) } : undefined
+            });
+        }));
+    });
+
+    router.get('/studies/:study/series/:series/instances/:sop/frames/:frames', (req, res) => {
+        const [instance] = findInstances(req);
+        if (!instance) {
+            return res.status(404).json({ error: 'Not found' });
+        }
+        // Frame numbers are 1-based, e.g. frames/1,2,3
+        const frameNumbers = req.params.frames.split(',').map(Number);
+        if (!frameNumbers.every(n => Number.isInteger(n) && n >= 1)) {
+            return res.status(400).json({ error: 'Frame numbers must be positive integers' });
+        }
+
+        const { buffer, header } = readInstance(req, instance);
+        let frames;
+        try {
+            frames = frameNumbers.map(n => readFrame(buffer, header, n - 1));
+        } catch (error) {
+            return res.status(404).json({ error: error.message });
+        }
+        const contentType = `application/octet-stream; transfer-syntax=${header.transferSyntaxUid}`;
+        sendMultipart(res, 'application/octet-stream', frames.map(body => ({ contentType, body })));
+    });
+
+    router.get(['/studies/:study', '/studies/:study/series/:series', '/studies/:study/series/:series/instances/:sop'], (req, res) => {
+        const instances = findInstances(req);
+        if (instances.length === 0) {
+            return res.status(404).json({ error: 'Not found' });
+        }
+        sendMultipart(res, 'application/dicom', instances.map(instance => ({
+            contentType: 'application/dicom',
+            body: readInstance(req, instance).buffer
+        })));
+    });
+
+    // ----------------------------------------
+    // STOW-RS (STORE)
+    // ----------------------------------------
+    // Only the session's technician adds images; a study in the path restricts which instances are accepted
+    const uploadBody = express.raw({ type: 'multipart/related', limit: uploadLimit });
+    router.post(['/studies', '/studies/:study'], uploadBody, (req, res) => {
+        const { request, sessionRole } = req.membership;
+        if (sessionRole !== 'TECHNICIAN') {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+        const boundary = /boundary="?([^";]+)"?/i.exec(req.get('Content-Type') || '')?.[1];
+        if (!boundary || !Buffer.isBuffer(req.body)) {
+            return res.status(400).json({ error: 'Expected a multipart/related body with a boundary' });
+        }
+
+        const root = serviceRoot(req);
+        const stored = [];
+        const failed = [];
+        for (const part of readMultipart(req.body, boundary)) {
+            let header;
+            try {
+                if (part.contentType && !part.contentType.startsWith('application/dicom')) throw new Error(`Unsupported part ${part.contentType}`);
+                header = readDicomHeader(part.body);
+                if (req.params.study && header.studyInstanceUid !== req.params.study) {
+                    failed.push(toDicomJson(header, [], {
+                        '00081150': element('UI', header.sopClassUid),
+                        '00081155': element('UI', header.sopInstanceUid),
+                        '00081197': element('US', FAILURE_STUDY_MISMATCH)
+                    }));
+                    continue;
+                }
+                const instance = studies.addInstance(request, part.body, req.auth.sub);
+                stored.push(toDicomJson(instance, [], {
+                    '00081150': element('UI', instance.sopClassUid),
+                    '00081155': element('UI', instance.sopInstanceUid),
+                    '00081190': element('UR', `${root}${instancePath(instance)}`)
+                }));
+            } catch (error) {
+                console.warn(`[DICOMWEB] Rejected STOW-RS part: ${error.message}`);
+                failed.push(toDicomJson({}, [], {
+                    '00081150': element('UI', header?.sopClassUid),
+                    '00081155': element('UI', header?.sopInstanceUid),
+                    '00081197': element('US', FAILURE_CANNOT_UNDERSTAND)
+                }));
+            }
+        }
+
+        console.log(`[DICOMWEB] ${req.auth.name} stored ${stored.length} instance(s) in room ${request.roomId} (${failed.length} failed)`);
+        if (stored.length > 0) onStore(request);
+
+        // 200 all stored, 202 some failed, 409 none stored
+        const status = failed.length === 0 ? 200 : stored.length > 0 ? 202 : 409;
+        sendDicomJson(res, toDicomJson({}, [], {
+            '00081199': stored.length > 0 ? { vr: 'SQ', Value: stored } : undefined,
+            '00081198': failed.length > 0 ? { vr: 'SQ', Value: failed } : undefined
+        }), status);
+    });
+
+    return router;
+};
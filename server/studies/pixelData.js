@@ -0,0 +1,63 @@
+// ============================================
+// PIXEL DATA FRAMES
+// ============================================
+// Cuts single frames out of the pixel data of a DICOM file, as returned by the
+// WADO-RS frames resource. Frames are served in the file's own transfer syntax:
+// native frames as raw pixels, encapsulated (compressed) frames as their
+// bitstream, e.g. one JPEG per frame.
+
+const ITEM = 0xfffee000;
+const SEQUENCE_DELIMITATION = 0xfffee0dd;
+
+// Items of encapsulated pixel data: the basic offset table, then the fragments
+const readItems = (buffer, offset) => {
+    const items = [];
+    while (offset + 8 <= buffer.length) {
+        const tag = ((buffer.readUInt16LE(offset) << 16) | buffer.readUInt16LE(offset + 2)) >>> 0;
+        if (tag === SEQUENCE_DELIMITATION) break;
+        if (tag !== ITEM) throw new Error('Malformed encapsulated pixel data');
+        const length = buffer.readUInt32LE(offset + 4);
+        items.push({ offset: offset + 8, length });
+        offset += 8 + length;
+    }
+    return items;
+};
+
+// Fragments of each frame: from the basic offset table, else one fragment per frame
+const groupFragments = (buffer, offsetTable, fragments, numberOfFrames) => {
+    if (numberOfFrames === 1) return [fragments];
+    if (offsetTable.length > 0) {
+        const firstFragment = fragments[0].offset - 8;
+        const starts = [];
+        for (let i = 0; i < offsetTable.length; i += 4) starts.push(buffer.readUInt32LE(offsetTable.offset + i));
+        return starts.map((start, frame) => fragments.filter(f => {
+            const position = f.offset - 8 - firstFragment;
+            return position >= start && (frame + 1 === starts.length || position < starts[frame + 1]);
+        }));
+    }
+    if (fragments.length === numberOfFrames) return fragments.map(f => [f]);
+    throw new Error('Cannot split the pixel data into frames (no basic offset table)');
+};
+
+/**
+ * Pixel data of frame `index` (0-based) of the file described by `header`
+ * (see readDicomHeader). Throws when the file has no such frame.
+ */
+export const readFrame = (buffer, header, index) => {
+    const { pixelData, numberOfFrames } = header;
+    if (!pixelData) throw new Error('The instance has no pixel data');
+    if (!Number.isInteger(index) || index < 0 || index >= numberOfFrames) {
+        throw new Error(`Frame ${index + 1} is out of range (1-${numberOfFrames})`);
+    }
+
+    if (pixelData.length !== null) {
+        const { rows, columns, samplesPerPixel = 1, bitsAllocated } = header;
+        const frameSize = Math.ceil(rows * columns * samplesPerPixel * bitsAllocated / 8);
+        const start = pixelData.offset + index * frameSize;
+        return buffer.subarray(start, start + frameSize);
+    }
+
+    const [offsetTable, ...fragments] = readItems(buffer, pixelData.offset);
+    const frame = groupFragments(buffer, offsetTable, fragments, numberOfFrames)[index] || [];
+    return Buffer.concat(frame.map(f => buffer.subarray(f.offset, f.offset + f.length)));
+};
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { readDicomHeader } from './dicomHeader.js';
+
+// ============================================
+// STUDY ARCHIVE
+// ============================================
+// DICOM instances uploaded by technicians during a session. Files are kept
+// under `dir/<requestId>/<sopInstanceUid>.dcm` and their header attributes in
+// the `studyInstances` collection, keyed `<requestId>/<sopInstanceUid>`.
+// Room IDs are reused over time, so instances belong to the session request.
+
+// UIDs are digits and dots only, which also makes them safe file names
+const UID_PATTERN = /^[0-9.]{1,64}$/;
+
+const instanceKey = (requestId, sopInstanceUid) => `${requestId}/${sopInstanceUid}`;
+
+// Instances in acquisition order; instances without a number go last, in upload order
+const byInstanceNumber = (a, b) => (a.instanceNumber ?? Infinity) - (b.instanceNumber ?? Infinity) || a.uploadedAt - b.uploadedAt;
+
+/**
+ * @param {object} options
+ * @param {string} options.dir - directory the files are written to
+ * @param {object} options.instances - repository of instance records (store.studyInstances)
+ */
+export const createStudyArchive = ({ dir, instances }) => {
+    /**
+     * Stores an uploaded file for a session. Uploading the same SOP instance
+     * again replaces it. Throws when the buffer is not a DICOM file we can use.
+     */
+    const addInstance = (request, buffer, uploadedBy) => {
+        // Where the pixels are is read again from the file whenever frames are served
+        const { pixelData, ...header } = readDicomHeader(buffer);
+        if (!UID_PATTERN.test(header.sopInstanceUid)) throw new Error('Invalid SOP Instance UID');
+
+        const file = path.join(request.id, `${header.sopInstanceUid}.dcm`);
+        fs.mkdirSync(path.join(dir, request.id), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), buffer);
+
+        const instance = {
+            ...header,
+            requestId: request.id,
+            roomId: request.roomId,
+            file,
+            size: buffer.length,
+            uploadedBy,
+            uploadedAt: Date.now()
+        };
+        instances.set(instanceKey(request.id, header.sopInstanceUid), instance);
+        return instance;
+    };
+
+    // Records of every instance of a session (header attributes, see DICOM_ATTRIBUTES in dicomHeader.js)
+    const listInstances = (requestId) => instances.values().filter(i => i.requestId === requestId);
+
+    /**
+     * Series of a session in upload order, each with its instances in
+     * acquisition order: { studyInstanceUid, seriesInstanceUid, modality,
+     * studyDescription, seriesDescription, instances: [{ sopInstanceUid, instanceNumber, numberOfFrames }] }
+     */
+    const listSeries = (requestId) => {
+        const bySeries = new Map();
+        listInstances(requestId)
+            .sort((a, b) => a.uploadedAt - b.uploadedAt)
+            .forEach(i => {
+                if (!bySeries.has(i.seriesInstanceUid)) bySeries.set(i.seriesInstanceUid, []);
+                bySeries.get(i.seriesInstanceUid).push(i);
+            });
+
+        return Array.from(bySeries.values()).map(series => {
+            const [first] = series;
+            return {
+                studyInstanceUid: first.studyInstanceUid,
+                seriesInstanceUid: first.seriesInstanceUid,
+                modality: first.modality,
+                studyDescription: first.studyDescription,
+                seriesDescription: first.seriesDescription,
+                instances: series.sort(byInstanceNumber).map(i => ({
+                    sopInstanceUid: i.sopInstanceUid,
+                    instanceNumber: i.instanceNumber,
+                    numberOfFrames: i.numberOfFrames
+                }))
+            };
+        });
+    };
+
+    // Absolute path of a stored instance, or null when the session has no such instance
+    const getInstanceFile = (requestId, sopInstanceUid) => {
+        const instance = instances.get(instanceKey(requestId, sopInstanceUid));
+        return instance ? path.join(dir, instance.file) : null;
+    };
+
+    return { addInstance, listInstances, listSeries, getInstanceFile };
+};
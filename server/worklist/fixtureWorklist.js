@@ -0,0 +1,33 @@
+import fs from 'fs';
+import { createMemoryWorklist } from './memoryWorklist.js';
+
+// ============================================
+// FIXTURE WORKLIST
+// ============================================
+
+// "HH:MM" today, in server local time
+const todayAt = (time) => {
+    const [hours, minutes] = String(time).split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes || 0, 0, 0);
+    return date.getTime();
+};
+
+/**
+ * Worklist read from a JSON file (see data/worklist.json). Fixture entries
+ * give a `scheduledTime` ("HH:MM") and are scheduled for the day the server starts.
+ */
+export const createFixtureWorklist = (file) => {
+    let fixture = [];
+    try {
+        fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        console.error(`[WORKLIST] Could not read worklist fixture ${file}: ${error.message}`);
+    }
+
+    const entries = fixture.map(({ scheduledTime, ...entry }) => ({
+        ...entry,
+        scheduledAt: entry.scheduledAt ?? todayAt(scheduledTime)
+    }));
+    return Object.assign(createMemoryWorklist(entries), { driver: 'fixture' });
+};
@@ -0,0 +1,158 @@
+import net from 'net';
+import { createMemoryWorklist } from './memoryWorklist.js';
+
+// ============================================
+// HL7 ORM WORKLIST FEED
+// ============================================
+// Orders arrive as HL7 v2 ORM^O01 messages over MLLP from the RIS/HIS
+// interface engine. Each order becomes a worklist entry:
+//
+//   PID-3 patient ID, PID-5 name (family^given), PID-7 birth date, PID-8 sex
+//   ORC-1 order control: NW/XO/SC add or update, CA/DC/OC remove
+//   ORC-2 placer order number (entry id), ORC-7.6 priority (S stat, A asap, R routine)
+//   OBR-4 procedure (code^text), OBR-16 ordering provider (id^family^given),
+//   OBR-18 accession number (falls back to the filler order number, OBR-3),
+//   OBR-31 reason for study, OBR-36 scheduled date/time (falls back to OBR-7)
+
+// MLLP framing: <VT> message <FS><CR>
+const START_BLOCK = '\x0b';
+const END_BLOCK = '\x1c\r';
+// Longest message accepted; a peer that sends more without an end block is cut off
+const MAX_MESSAGE_LENGTH = 1024 * 1024;
+
+const REMOVE_CONTROLS = ['CA', 'DC', 'OC'];
+
+// Exam type from the procedure code and text; anything else is read as GENERAL
+const EXAM_TYPE_PATTERNS = [
+    ['CARDIAC', /echo|cardiac|\bTTE\b/i],
+    ['OB', /\bOB\b|obstetric|pregnan|fetal|trimester/i],
+    ['VASCULAR', /vascular|duplex|doppler|venous|arterial|carotid/i]
+];
+
+const SEXES = ['F', 'M', 'O', 'U'];
+
+const PRIORITY_BY_CODE = { S: 'STAT', A: 'URGENT', R: 'ROUTINE' };
+
+const component = (field = '', index = 0) => field.split('^')[index] || '';
+
+// HL7 timestamp (YYYYMMDD[HHMM[SS]]) in server local time -> ms since epoch
+const parseTimestamp = (value) => {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/.exec(value || '');
+    if (!match) return null;
+    const [, year, month, day, hours = 0, minutes = 0, seconds = 0] = match;
+    return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+};
+
+// "Family^Given" -> "Given Family"
+const personName = (family, given) => [given, family].filter(Boolean).join(' ');
+
+/**
+ * Parses an ORM^O01 message. Returns the order control code and the worklist
+ * entry it describes; throws when the message is not an order we can use.
+ */
+export const parseOrmMessage = (message) => {
+    const segments = {};
+    for (const line of message.split(/\r\n|\r|\n/)) {
+        if (!line) continue;
+        const fields = line.split('|');
+        segments[fields[0]] = segments[fields[0]] || fields;
+    }
+
+    const { MSH: msh, PID: pid, ORC: orc, OBR: obr } = segments;
+    if (!msh) throw new Error('Missing MSH segment');
+    // MSH-1 is the field separator itself, so MSH fields are shifted by one
+    const messageType = msh[8] || '';
+    if (component(messageType, 0) !== 'ORM' || component(messageType, 1) !== 'O01') {
+        throw new Error(`Unsupported message type ${messageType}`);
+    }
+    if (!pid || !orc || !obr) throw new Error('ORM message needs PID, ORC and OBR segments');
+
+    const id = orc[2] || obr[2];
+    if (!id) throw new Error('Missing placer order number');
+
+    const procedure = obr[4] || '';
+    const procedureText = component(procedure, 1) || component(procedure, 0);
+    const birthDate = /^(\d{4})(\d{2})(\d{2})/.exec(pid[7] || '');
+    const sex = SEXES.includes(pid[8]) ? pid[8] : undefined;
+
+    return {
+        control: orc[1],
+        entry: {
+            id,
+            accessionNumber: obr[18] || obr[3] || orc[3] || undefined,
+            patientId: component(pid[3]),
+            patientName: personName(component(pid[5], 0), component(pid[5], 1)),
+            dateOfBirth: birthDate ? `${birthDate[1]}-${birthDate[2]}-${birthDate[3]}` : undefined,
+            sex,
+            examType: EXAM_TYPE_PATTERNS.find(([, pattern]) => pattern.test(procedure))?.[0] || 'GENERAL',
+            priority: PRIORITY_BY_CODE[component(orc[7], 5)] || 'ROUTINE',
+            procedureDescription: procedureText || undefined,
+            indication: component(obr[31], 1) || component(obr[31], 0) || undefined,
+            referringPhysician: personName(component(obr[16], 1), component(obr[16], 2)) || undefined,
+            scheduledAt: parseTimestamp(obr[36]) ?? parseTimestamp(obr[7]) ?? Date.now()
+        }
+    };
+};
+
+// MSH-10, echoed in the acknowledgement
+const readControlId = (message) => message.split(/\r\n|\r|\n/)[0].split('|')[9];
+
+// HL7 acknowledgement for a received message (AA accepted, AE error)
+const buildAck = (controlId, code, text = '') => [
+    `MSH|^~\\&|ROLOGY|ROLOGY|||${new Date().toISOString().replace(/\D/g, '').slice(0, 14)}||ACK^O01|${controlId || 'UNKNOWN'}-ACK|P|2.3`,
+    `MSA|${code}|${controlId || ''}|${text}`
+].join('\r') + '\r';
+
+/**
+ * Worklist fed by an MLLP listener on `port`. Entries live in memory: orders
+ * sent before the server started are not known until the RIS resends them.
+ */
+export const createHl7Worklist = ({ port }) => {
+    const worklist = createMemoryWorklist();
+
+    const handleMessage = (message) => {
+        const controlId = readControlId(message);
+        try {
+            const order = parseOrmMessage(message);
+            if (REMOVE_CONTROLS.includes(order.control)) {
+                worklist.remove(order.entry.id);
+                console.log(`[WORKLIST] Order ${order.entry.id} removed (${order.control})`);
+            } else {
+                worklist.upsert(order.entry);
+                console.log(`[WORKLIST] Order ${order.entry.id} for ${order.entry.patientName} scheduled (${order.control})`);
+            }
+            return buildAck(controlId, 'AA');
+        } catch (error) {
+            console.warn(`[WORKLIST] Rejected HL7 message: ${error.message}`);
+            return buildAck(controlId, 'AE', error.message);
+        }
+    };
+
+    const server = net.createServer((connection) => {
+        let buffer = '';
+        connection.setEncoding('utf8');
+        connection.on('data', (chunk) => {
+            buffer += chunk;
+            let end;
+            while ((end = buffer.indexOf(END_BLOCK)) !== -1) {
+                const frame = buffer.slice(0, end);
+                buffer = buffer.slice(end + END_BLOCK.length);
+                const start = frame.indexOf(START_BLOCK);
+                connection.write(START_BLOCK + handleMessage(frame.slice(start + 1)) + END_BLOCK);
+            }
+            if (buffer.length > MAX_MESSAGE_LENGTH) {
+                console.warn(`[WORKLIST] Dropped HL7 connection: message longer than ${MAX_MESSAGE_LENGTH} characters`);
+                connection.destroy();
+            }
+        });
+        connection.on('error', (error) => console.warn(`[WORKLIST] HL7 connection error: ${error.message}`));
+    });
+    // Without its listener (e.g. the port is taken) the worklist stays empty rather than taking the server down
+    server.on('error', (error) => console.error(`[WORKLIST] Could not listen for HL7 orders on port ${port}: ${error.message}`));
+    server.listen(port, () => console.log(`[WORKLIST] Listening for HL7 orders (MLLP) on port ${port}`));
+
+    return Object.assign(worklist, {
+        driver: 'hl7',
+        close: () => server.close()
+    });
+};
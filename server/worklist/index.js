@@ -0,0 +1,33 @@
+/**
+ * Modality worklist: the ultrasound exams scheduled for technicians to
+ * perform, in the spirit of a DICOM Modality Worklist (MWL).
+ *
+ * Every source is exposed through the same synchronous interface, so the
+ * REST endpoint and the signaling server do not care where orders come from:
+ *
+ *   list({ date })                 -> entries still SCHEDULED on date (YYYY-MM-DD, default today), soonest first
+ *   get(id)                        -> entry | undefined
+ *   setStatus(id, status, reqId)   -> entry | undefined (SCHEDULED, IN_PROGRESS or COMPLETED)
+ *   size                           -> number of entries
+ *   close()
+ *
+ * Entries (one per scheduled procedure step): id, accessionNumber, patientId,
+ * patientName, dateOfBirth, sex, examType, priority, procedureDescription,
+ * indication, referringPhysician, scheduledAt, station, status, requestId.
+ *
+ * Sources that are queried over the network (e.g. a C-FIND against an MWL
+ * SCP) should poll into a memory worklist, as the HL7 driver does with pushed orders.
+ */
+
+// Drivers: `fixture` (JSON file) or `hl7` (ORM^O01 orders over MLLP)
+export const createWorklist = async ({ driver, file, hl7Port }) => {
+    if (driver === 'fixture') {
+        const { createFixtureWorklist } = await import('./fixtureWorklist.js');
+        return createFixtureWorklist(file);
+    }
+    if (driver === 'hl7') {
+        const { createHl7Worklist } = await import('./hl7Worklist.js');
+        return createHl7Worklist({ port: hl7Port });
+    }
+    throw new Error(`Unknown WORKLIST_DRIVER "${driver}" (expected "fixture" or "hl7")`);
+};
@@ -0,0 +1,58 @@
+// ============================================
+// IN-MEMORY WORKLIST
+// ============================================
+
+const pad = (n) => String(n).padStart(2, '0');
+
+// YYYY-MM-DD of a timestamp in server local time
+export const toLocalDate = (ms) => {
+    const date = new Date(ms);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Exam context of a session request started from a worklist entry
+export const toExamContext = (entry) => ({
+    patientId: entry.patientId,
+    patientName: entry.patientName,
+    dateOfBirth: entry.dateOfBirth,
+    sex: entry.sex,
+    indication: entry.indication,
+    referringPhysician: entry.referringPhysician,
+    procedureDescription: entry.procedureDescription,
+    accessionNumber: entry.accessionNumber
+});
+
+/**
+ * Worklist held in memory, shared by every driver: the fixture driver loads
+ * it once, the HL7 driver keeps it up to date from incoming orders.
+ * Statuses are tracked here only; the signaling server marks entries again
+ * from the session requests it restores after a restart.
+ */
+export const createMemoryWorklist = (entries = []) => {
+    const records = new Map(entries.map(entry => [entry.id, { status: 'SCHEDULED', ...entry }]));
+
+    return {
+        // Entries still to be performed on `date` (default today), soonest first
+        list: ({ date = toLocalDate(Date.now()) } = {}) => Array.from(records.values())
+            .filter(entry => entry.status === 'SCHEDULED' && toLocalDate(entry.scheduledAt) === date)
+            .sort((a, b) => a.scheduledAt - b.scheduledAt),
+        get: (id) => records.get(id),
+        setStatus(id, status, requestId) {
+            const entry = records.get(id);
+            if (!entry) return undefined;
+            const updated = { ...entry, status, requestId: status === 'SCHEDULED' ? undefined : requestId ?? entry.requestId };
+            records.set(id, updated);
+            return updated;
+        },
+        // New or changed order; keeps the status of an entry already picked by a technician
+        upsert(entry) {
+            const existing = records.get(entry.id);
+            records.set(entry.id, { ...entry, status: existing?.status || 'SCHEDULED', requestId: existing?.requestId });
+        },
+        remove: (id) => records.delete(id),
+        get size() {
+            return records.size;
+        },
+        close: () => {},
+    };
+};
@@ -0,0 +1,45 @@
+/**
+ * Base URL of the signaling server. Uses the current hostname so devices on
+ * the same network reach the same server, unless VITE_SIGNALING_SERVER is set.
+ */
+export const getServerUrl = (): string => {
+    const defaultServerUrl = `http://${window.location.hostname}:3001`;
+    return import.meta.env.VITE_SIGNALING_SERVER || defaultServerUrl;
+};
+
+export class ApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+interface ApiRequestOptions {
+    method?: string;
+    token?: string;
+    body?: unknown;
+}
+
+/**
+ * JSON request against the signaling server's REST API.
+ * Throws an ApiError carrying the server's `error` message on non-2xx responses.
+ */
+export async function apiRequest<T>(path: string, { method = 'GET', token, body }: ApiRequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
+    const response = await fetch(`${getServerUrl()}${path}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new ApiError(response.status, data?.error || `Request failed (${response.status})`);
+    }
+
+    if (response.status === 204) return undefined as T;
+    return response.json();
+}
@@ -0,0 +1,35 @@
+import { UserRole } from '../types';
+import { apiRequest } from './api';
+import { getTransportKind } from './signalingTransport';
+import { mockLogin } from './mockAuth';
+
+export interface AuthUser {
+    id: string;
+    name: string;
+    role: UserRole;
+}
+
+export interface AuthSession {
+    token: string;
+    expiresAt: number;
+    user: AuthUser;
+}
+
+/**
+ * Exchanges credentials for a signed session token.
+ * Passing `role` makes the server reject accounts that hold a different role.
+ * The offline mock backend signs in against its built-in demo accounts.
+ */
+export function login(username: string, password: string, role?: UserRole): Promise<AuthSession> {
+    if (getTransportKind() === 'mock') return mockLogin(username, password, role);
+    return apiRequest<AuthSession>('/api/auth/login', {
+        method: 'POST',
+        body: { username, password, role },
+    });
+}
+
+/** Revokes the token server-side; sockets opened with it are disconnected. */
+export function logout(token: string): Promise<void> {
+    if (getTransportKind() === 'mock') return Promise.resolve();
+    return apiRequest<void>('/api/auth/logout', { method: 'POST', token });
+}
@@ -0,0 +1,37 @@
+import { IceConfig } from '../shared/protocol';
+import { SignalingTransport } from './signalingTransport';
+
+// Refetch this long before TURN credentials lapse, and give up on a silent server after
+const EXPIRY_MARGIN_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+const cache = new WeakMap<SignalingTransport, IceConfig>();
+
+const isFresh = (config: IceConfig) =>
+    config.expiresAt === null || config.expiresAt - EXPIRY_MARGIN_MS > Date.now();
+
+/**
+ * ICE configuration for the next RTCPeerConnection, served by the signaling
+ * server (STUN/TURN URLs and short-lived TURN credentials). Cached per
+ * connection until its credentials are about to expire.
+ */
+export function fetchIceConfig(socket: SignalingTransport): Promise<RTCConfiguration> {
+    const cached = cache.get(socket);
+    if (cached && isFresh(cached)) {
+        return Promise.resolve(toRtcConfiguration(cached));
+    }
+
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('Timed out fetching ICE configuration')), REQUEST_TIMEOUT_MS);
+        socket.emit('get-ice-config', (config) => {
+            clearTimeout(timer);
+            cache.set(socket, config);
+            resolve(toRtcConfiguration(config));
+        });
+    });
+}
+
+const toRtcConfiguration = ({ iceServers, iceTransportPolicy }: IceConfig): RTCConfiguration => ({
+    iceServers,
+    iceTransportPolicy,
+});
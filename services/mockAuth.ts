@@ -0,0 +1,53 @@
+import { ExamType, UserRole } from '../types';
+import { ApiError } from './api';
+import type { AuthSession, AuthUser } from './auth';
+
+// Demo accounts of the offline backend, mirroring server/data/users.json
+const MOCK_ACCOUNTS: (AuthUser & { password: string; subspecialties?: ExamType[] })[] = [
+    { id: 'tech1', name: 'John Tech', role: UserRole.TECH, password: 'tech123' },
+    { id: 'tech2', name: 'Sarah Tech', role: UserRole.TECH, password: 'tech123' },
+    { id: 'rad1', name: 'Dr. Smith', role: UserRole.RADIOLOGIST, password: 'rad123', subspecialties: ['CARDIAC', 'VASCULAR'] },
+    { id: 'rad2', name: 'Dr. Johnson', role: UserRole.RADIOLOGIST, password: 'rad123', subspecialties: ['OB'] },
+    { id: 'admin', name: 'Medical Admin', role: UserRole.MEDICAL_ADMIN, password: 'admin123' },
+    { id: 'obs1', name: 'Dr. Lee (Resident)', role: UserRole.OBSERVER, password: 'observer123' },
+];
+
+const MOCK_TOKEN_PREFIX = 'mock.';
+const MOCK_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Login against the demo accounts, with the same errors as POST /api/auth/login.
+ * The token is an unsigned encoding of the user: fine for a single-browser demo only.
+ */
+export async function mockLogin(username: string, password: string, role?: UserRole): Promise<AuthSession> {
+    if (!username || !password) {
+        throw new ApiError(400, 'Username and password are required');
+    }
+    const account = MOCK_ACCOUNTS.find(a => a.id === username && a.password === password);
+    if (!account || (role && account.role !== role)) {
+        throw new ApiError(401, 'Invalid credentials or role mismatch');
+    }
+    const user: AuthUser = { id: account.id, name: account.name, role: account.role };
+    return {
+        token: MOCK_TOKEN_PREFIX + btoa(JSON.stringify(user)),
+        expiresAt: Date.now() + MOCK_TOKEN_TTL_MS,
+        user,
+    };
+}
+
+/** Reads the user out of a token issued by mockLogin, or null if it is not one. */
+export function decodeMockToken(token: unknown): AuthUser | null {
+    if (typeof token !== 'string' || !token.startsWith(MOCK_TOKEN_PREFIX)) return null;
+    try {
+        const user = JSON.parse(atob(token.slice(MOCK_TOKEN_PREFIX.length)));
+        return MOCK_ACCOUNTS.some(a => a.id === user.id && a.role === user.role) ? user : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Directory entry used by auto-dispatch, like auth.getStaffProfile on the server. */
+export function mockStaffProfile(userId: string) {
+    const account = MOCK_ACCOUNTS.find(a => a.id === userId);
+    return account ? { id: account.id, name: account.name, role: account.role, subspecialties: account.subspecialties || [], shift: null } : null;
+}
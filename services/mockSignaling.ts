@@ -1,39 +1,173 @@
-import { SignalingEvent } from '../types';
+import { PROTOCOL_VERSION, ClientToServerEvents } from '../shared/protocol';
+import { SignalingTransport, TransportListenEvents } from './signalingTransport';
+import {
+    ensureMockHost,
+    ClientMessage,
+    HostMessage,
+    MOCK_CHANNEL_NAME,
+    HOST_PING_INTERVAL_MS,
+} from './mockSignalingHost';
+
+// Retry cadence while no host answers, and how long a silent host is trusted
+const CONNECT_RETRY_MS = 500;
+const HOST_TIMEOUT_MS = HOST_PING_INTERVAL_MS * 4;
+
+type Listener = (...args: any[]) => void;
 
 /**
- * This service simulates a Socket.io / WebRTC signaling server using 
- * the BroadcastChannel API. This allows multiple tabs (Tech and Rad) 
- * to communicate locally without a running Node.js backend.
+ * Offline signaling backend over a BroadcastChannel, for demos and UI work
+ * without the Node server. Every tab of the browser connects to one in-browser
+ * host (see mockSignalingHost.ts) running the real signaling state machine, so
+ * technician, radiologist and admin tabs behave as they would against the server.
  */
-class MockSignalingService {
-  private channel: BroadcastChannel;
-  private listeners: ((event: SignalingEvent) => void)[] = [];
-
-  constructor(roomId: string) {
-    this.channel = new BroadcastChannel(`rology-room-${roomId}`);
-    this.channel.onmessage = (msg) => {
-      this.notify(msg.data as SignalingEvent);
-    };
-  }
+class MockSignalingService implements SignalingTransport {
+    private readonly clientId = crypto.randomUUID();
+    private channel = new BroadcastChannel(MOCK_CHANNEL_NAME);
+    private listeners = new Map<string, Set<Listener>>();
+    private acks = new Map<number, Listener>();
+    private nextAckId = 0;
+    private hostId: string | null = null;
+    private hostSeenAt = 0;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private closed = false;
+    private _connected = false;
 
-  public send(event: SignalingEvent) {
-    this.channel.postMessage(event);
-  }
+    constructor(private readonly token: string) {
+        ensureMockHost();
+        this.channel.onmessage = (message: MessageEvent<HostMessage>) => this.handleMessage(message.data);
+        window.addEventListener('pagehide', this.handlePageHide);
+        this.heartbeatTimer = setInterval(() => this.heartbeat(), HOST_PING_INTERVAL_MS);
+        this.connect();
+    }
 
-  public subscribe(callback: (event: SignalingEvent) => void) {
-    this.listeners.push(callback);
-    return () => {
-      this.listeners = this.listeners.filter(cb => cb !== callback);
-    };
-  }
+    public get id(): string | undefined {
+        return this._connected ? this.clientId : undefined;
+    }
+
+    public get connected(): boolean {
+        return this._connected;
+    }
+
+    public on<E extends keyof TransportListenEvents>(event: E, listener: TransportListenEvents[E]) {
+        if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+        this.listeners.get(event)!.add(listener as Listener);
+        return this;
+    }
+
+    public off<E extends keyof TransportListenEvents>(event: E, listener?: TransportListenEvents[E]) {
+        if (listener) {
+            this.listeners.get(event)?.delete(listener as Listener);
+        } else {
+            this.listeners.delete(event);
+        }
+        return this;
+    }
+
+    public emit<E extends keyof ClientToServerEvents>(event: E, ...args: Parameters<ClientToServerEvents[E]>) {
+        // Like Socket.IO without buffering: events emitted while offline are dropped
+        if (!this._connected) return this;
+        const payload: unknown[] = [...args];
+        let ackId: number | undefined;
+        if (typeof payload[payload.length - 1] === 'function') {
+            ackId = this.nextAckId++;
+            this.acks.set(ackId, payload.pop() as Listener);
+        }
+        this.post({ kind: 'event', clientId: this.clientId, event, args: JSON.parse(JSON.stringify(payload)), ackId });
+        return this;
+    }
+
+    public disconnect() {
+        if (this.closed) return this;
+        this.closed = true;
+        if (this._connected) this.post({ kind: 'disconnect', clientId: this.clientId });
+        this.stopRetrying();
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        window.removeEventListener('pagehide', this.handlePageHide);
+        this.setDisconnected('io client disconnect');
+        this.channel.close();
+        return this;
+    }
 
-  private notify(event: SignalingEvent) {
-    this.listeners.forEach(cb => cb(event));
-  }
+    private post(message: ClientMessage) {
+        this.channel.postMessage(message);
+    }
 
-  public close() {
-    this.channel.close();
-  }
+    private fire(event: string, ...args: unknown[]) {
+        this.listeners.get(event)?.forEach(listener => listener(...args));
+    }
+
+    private connect() {
+        this.stopRetrying();
+        const attempt = () => {
+            this.post({ kind: 'connect', clientId: this.clientId, auth: { token: this.token, protocolVersion: PROTOCOL_VERSION } });
+            this.retryTimer = setTimeout(attempt, CONNECT_RETRY_MS);
+        };
+        attempt();
+    }
+
+    private stopRetrying() {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+    }
+
+    private setDisconnected(reason: string) {
+        if (!this._connected) return;
+        this._connected = false;
+        this.hostId = null;
+        this.acks.clear();
+        this.fire('disconnect', reason);
+    }
+
+    private handleMessage(message: HostMessage) {
+        if (this.closed) return;
+
+        if (message.kind === 'host-ping') {
+            if (message.hostId === this.hostId) this.hostSeenAt = Date.now();
+            return;
+        }
+        if (message.clientId !== this.clientId) return;
+
+        switch (message.kind) {
+            case 'connected':
+                if (this._connected) return;
+                this.stopRetrying();
+                this.hostId = message.hostId;
+                this.hostSeenAt = Date.now();
+                this._connected = true;
+                this.fire('connect');
+                break;
+            case 'connect_error': {
+                // Middleware refusals are final, as with Socket.IO
+                this.stopRetrying();
+                const error = new Error(message.message) as Error & { data?: unknown };
+                error.data = message.data;
+                this.fire('connect_error', error);
+                break;
+            }
+            case 'event':
+                this.fire(message.event, ...message.args);
+                break;
+            case 'ack':
+                this.acks.get(message.ackId)?.(...message.args);
+                this.acks.delete(message.ackId);
+                break;
+        }
+    }
+
+    private heartbeat() {
+        if (!this._connected) return;
+        this.post({ kind: 'client-ping', clientId: this.clientId });
+        // The hosting tab closed: the next elected host starts empty, so reconnect and re-register
+        if (Date.now() - this.hostSeenAt > HOST_TIMEOUT_MS) {
+            this.setDisconnected('transport close');
+            this.connect();
+        }
+    }
+
+    private handlePageHide = () => {
+        if (this._connected) this.post({ kind: 'disconnect', clientId: this.clientId });
+    };
 }
 
-export default MockSignalingService;
\ No newline at end of file
+export default MockSignalingService;
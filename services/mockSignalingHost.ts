@@ -0,0 +1,289 @@
+import { createSignalingServer } from '../server/signaling.js';
+import { createMemoryStore } from '../server/store/memoryStore.js';
+import { checkProtocolVersion } from '../server/permissions.js';
+import { decodeMockToken, mockStaffProfile } from './mockAuth';
+import { createMockWorklist } from './mockWorklist';
+
+export const MOCK_CHANNEL_NAME = 'rology-mock-signaling';
+const HOST_LOCK_NAME = 'rology-mock-signaling-host';
+
+// How often the host announces itself, and how long a silent client is kept
+export const HOST_PING_INTERVAL_MS = 1000;
+const CLIENT_TIMEOUT_MS = 6000;
+
+// Grace period for dropped technicians, matching the Node server's default
+const SESSION_GRACE_MS = 60 * 1000;
+
+// Messages posted on the BroadcastChannel. Every client message names its
+// client id, every host message names the client it is for (or none for pings).
+export interface HandshakeAuth {
+    token: string;
+    protocolVersion: number;
+}
+
+export type ClientMessage =
+    | { kind: 'connect'; clientId: string; auth: HandshakeAuth }
+    | { kind: 'event'; clientId: string; event: string; args: unknown[]; ackId?: number }
+    | { kind: 'client-ping'; clientId: string }
+    | { kind: 'disconnect'; clientId: string };
+
+export type HostMessage =
+    | { kind: 'connected'; clientId: string; hostId: string }
+    | { kind: 'connect_error'; clientId: string; message: string; data?: unknown }
+    | { kind: 'event'; clientId: string; event: string; args: unknown[] }
+    | { kind: 'ack'; clientId: string; ackId: number; args: unknown[] }
+    | { kind: 'host-ping'; hostId: string };
+
+type Handler = (...args: any[]) => void;
+type Middleware = (packet: unknown[], next: (err?: Error) => void) => void;
+type HandshakeMiddleware = (socket: MockServerSocket, next: (err?: Error & { data?: unknown }) => void) => void;
+
+// Payloads cross the channel as JSON, as they would over a WebSocket
+const toWire = (args: unknown[]) => JSON.parse(JSON.stringify(args));
+
+/**
+ * The server side of one mock connection: the subset of the Socket.IO
+ * server socket API that server/signaling.js and its middleware use.
+ */
+class MockServerSocket {
+    public data: Record<string, any> = {};
+    public rooms = new Set<string>();
+    private handlers = new Map<string, Handler[]>();
+    private middleware: Middleware[] = [];
+
+    constructor(
+        public readonly id: string,
+        public readonly handshake: { auth: HandshakeAuth },
+        private readonly host: MockSignalingHost,
+    ) {}
+
+    public use(fn: Middleware) {
+        this.middleware.push(fn);
+    }
+
+    public on(event: string, handler: Handler) {
+        this.handlers.set(event, [...(this.handlers.get(event) || []), handler]);
+    }
+
+    public emit(event: string, ...args: unknown[]) {
+        this.host.deliver(this.id, event, args);
+    }
+
+    public to(room: string) {
+        return { emit: (event: string, ...args: unknown[]) => this.host.broadcast(room, event, args, this.id) };
+    }
+
+    public join(room: string) {
+        this.rooms.add(room);
+        this.host.addToRoom(room, this.id);
+    }
+
+    public leave(room: string) {
+        this.rooms.delete(room);
+        this.host.removeFromRoom(room, this.id);
+    }
+
+    /** Runs an incoming packet through the packet middleware, then the handlers. */
+    public dispatch(event: string, args: unknown[]) {
+        const packet = [event, ...args];
+        const run = (index: number) => {
+            if (index === this.middleware.length) {
+                (this.handlers.get(event) || []).forEach(handler => handler(...args));
+                return;
+            }
+            this.middleware[index](packet, (err) => {
+                if (!err) run(index + 1);
+            });
+        };
+        run(0);
+    }
+
+    public fireDisconnect(reason: string) {
+        (this.handlers.get('disconnect') || []).forEach(handler => handler(reason));
+    }
+}
+
+/**
+ * In-browser emulation of the Socket.IO server, relaying over a
+ * BroadcastChannel. Runs the same signaling state machine as the Node server
+ * against an in-memory store, so every tab of the browser shares one backend.
+ */
+class MockSignalingHost {
+    public readonly hostId = crypto.randomUUID();
+    private channel = new BroadcastChannel(MOCK_CHANNEL_NAME);
+    private sockets = new Map<string, MockServerSocket>();
+    private lastSeen = new Map<string, number>();
+    private connectionHandlers: ((socket: MockServerSocket) => void)[] = [];
+    private handshakeMiddleware: HandshakeMiddleware[] = [];
+
+    // Room membership as Socket.IO's adapter exposes it: room -> socket ids
+    private rooms = new Map<string, Set<string>>();
+
+    constructor() {
+        this.use(checkProtocolVersion);
+        // Stands in for auth.socketMiddleware: demo tokens are decoded, not verified
+        this.use((socket, next) => {
+            const user = decodeMockToken(socket.handshake.auth?.token);
+            if (!user) return next(new Error('UNAUTHORIZED'));
+            socket.data.user = user;
+            next();
+        });
+
+        createSignalingServer({
+            io: this.asIo(),
+            store: createMemoryStore(),
+            sessionGraceMs: SESSION_GRACE_MS,
+            getStaffProfile: mockStaffProfile,
+            worklist: createMockWorklist()
+        });
+
+        this.channel.onmessage = (message: MessageEvent<ClientMessage>) => this.handleMessage(message.data);
+        setInterval(() => this.heartbeat(), HOST_PING_INTERVAL_MS);
+        this.heartbeat();
+        console.log(`[MockSignaling] This tab is hosting the offline signaling backend (${this.hostId})`);
+    }
+
+    private asIo() {
+        return {
+            on: (event: string, handler: (socket: MockServerSocket) => void) => {
+                if (event === 'connection') this.connectionHandlers.push(handler);
+            },
+            to: (target: string) => ({
+                emit: (event: string, ...args: unknown[]) => this.broadcast(target, event, args),
+            }),
+            sockets: { adapter: { rooms: this.rooms } },
+        };
+    }
+
+    private use(fn: HandshakeMiddleware) {
+        this.handshakeMiddleware.push(fn);
+    }
+
+    private post(message: HostMessage) {
+        this.channel.postMessage(message);
+    }
+
+    private handleMessage(message: ClientMessage) {
+        if (message.kind === 'connect') {
+            this.connect(message.clientId, message.auth);
+            return;
+        }
+        const socket = this.sockets.get(message.clientId);
+        if (!socket) return;
+        this.lastSeen.set(socket.id, Date.now());
+
+        if (message.kind === 'event') {
+            const args = [...message.args];
+            if (message.ackId !== undefined) {
+                const ackId = message.ackId;
+                args.push((...result: unknown[]) => this.post({ kind: 'ack', clientId: socket.id, ackId, args: toWire(result) }));
+            }
+            socket.dispatch(message.event, args);
+        } else if (message.kind === 'disconnect') {
+            this.drop(socket.id, 'client namespace disconnect');
+        }
+    }
+
+    private connect(clientId: string, auth: HandshakeAuth) {
+        // Connect requests are retried until answered; ignore duplicates
+        if (this.sockets.has(clientId)) {
+            this.post({ kind: 'connected', clientId, hostId: this.hostId });
+            return;
+        }
+        const socket = new MockServerSocket(clientId, { auth }, this);
+
+        const run = (index: number) => {
+            if (index === this.handshakeMiddleware.length) {
+                this.sockets.set(clientId, socket);
+                this.lastSeen.set(clientId, Date.now());
+                socket.join(clientId);
+                this.post({ kind: 'connected', clientId, hostId: this.hostId });
+                this.connectionHandlers.forEach(handler => handler(socket));
+                return;
+            }
+            this.handshakeMiddleware[index](socket, (err) => {
+                if (err) {
+                    this.post({ kind: 'connect_error', clientId, message: err.message, data: err.data });
+                    return;
+                }
+                run(index + 1);
+            });
+        };
+        run(0);
+    }
+
+    private drop(socketId: string, reason: string) {
+        const socket = this.sockets.get(socketId);
+        if (!socket) return;
+        this.sockets.delete(socketId);
+        this.lastSeen.delete(socketId);
+        // Socket.IO leaves every room before the disconnect handlers run
+        socket.rooms.forEach(room => this.removeFromRoom(room, socketId));
+        socket.rooms.clear();
+        socket.fireDisconnect(reason);
+    }
+
+    private heartbeat() {
+        this.post({ kind: 'host-ping', hostId: this.hostId });
+        // Tabs that crashed or froze never say goodbye
+        const now = Date.now();
+        this.lastSeen.forEach((seenAt, socketId) => {
+            if (now - seenAt > CLIENT_TIMEOUT_MS) this.drop(socketId, 'ping timeout');
+        });
+    }
+
+    public addToRoom(room: string, socketId: string) {
+        if (!this.rooms.has(room)) this.rooms.set(room, new Set());
+        this.rooms.get(room)!.add(socketId);
+    }
+
+    public removeFromRoom(room: string, socketId: string) {
+        const members = this.rooms.get(room);
+        members?.delete(socketId);
+        if (members?.size === 0) this.rooms.delete(room);
+    }
+
+    public deliver(socketId: string, event: string, args: unknown[]) {
+        if (!this.sockets.has(socketId)) return;
+        this.post({ kind: 'event', clientId: socketId, event, args: toWire(args) });
+    }
+
+    /** Emits to every socket in a room (a socket id is its own room), optionally skipping the sender. */
+    public broadcast(room: string, event: string, args: unknown[], exceptId?: string) {
+        const members = this.rooms.get(room);
+        members?.forEach(socketId => {
+            if (socketId !== exceptId) this.deliver(socketId, event, args);
+        });
+    }
+}
+
+let hostStarted = false;
+
+/**
+ * Makes sure exactly one tab of this browser runs the mock backend. With Web
+ * Locks the lock queue elects a new host when the hosting tab closes (state
+ * held by the old host is lost); without them a tab hosts if no host answers.
+ */
+export function ensureMockHost() {
+    if (hostStarted) return;
+    hostStarted = true;
+
+    if (navigator.locks) {
+        navigator.locks.request(HOST_LOCK_NAME, () => {
+            new MockSignalingHost();
+            // Hold the lock for the lifetime of the tab
+            return new Promise<never>(() => {});
+        });
+        return;
+    }
+
+    const probe = new BroadcastChannel(MOCK_CHANNEL_NAME);
+    let hostSeen = false;
+    probe.onmessage = (message: MessageEvent<HostMessage>) => {
+        if (message.data.kind === 'host-ping') hostSeen = true;
+    };
+    setTimeout(() => {
+        probe.close();
+        if (!hostSeen) new MockSignalingHost();
+    }, HOST_PING_INTERVAL_MS * 2);
+}
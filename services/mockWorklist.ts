@@ -0,0 +1,67 @@
+import { WorklistEntry } from '../types';
+import { createMemoryWorklist, toLocalDate } from '../server/worklist/memoryWorklist.js';
+
+// Scheduled exams of the offline backend, mirroring server/data/worklist.json (times are today)
+const MOCK_WORKLIST: (Omit<WorklistEntry, 'scheduledAt' | 'status'> & { scheduledTime: string })[] = [
+    {
+        id: 'SPS-240101', accessionNumber: 'ACC-240101', patientId: 'MRN-204518', patientName: 'Maria Garcia',
+        dateOfBirth: '1991-03-14', sex: 'F', examType: 'OB', priority: 'ROUTINE',
+        procedureDescription: 'OB ultrasound, second trimester anatomy scan', indication: 'Routine anatomy survey at 20 weeks',
+        referringPhysician: 'Dr. Amanda Ruiz', scheduledTime: '08:30', station: 'US-ROOM-1',
+    },
+    {
+        id: 'SPS-240102', accessionNumber: 'ACC-240102', patientId: 'MRN-118734', patientName: 'Robert Chen',
+        dateOfBirth: '1958-11-02', sex: 'M', examType: 'CARDIAC', priority: 'URGENT',
+        procedureDescription: 'Transthoracic echocardiogram', indication: 'Dyspnea on exertion, r/o reduced LV function',
+        referringPhysician: 'Dr. Paul Okafor', scheduledTime: '09:15', station: 'US-ROOM-2',
+    },
+    {
+        id: 'SPS-240103', accessionNumber: 'ACC-240103', patientId: 'MRN-330291', patientName: 'Linda Park',
+        dateOfBirth: '1972-06-25', sex: 'F', examType: 'VASCULAR', priority: 'ROUTINE',
+        procedureDescription: 'Carotid duplex, bilateral', indication: 'Carotid bruit on exam',
+        referringPhysician: 'Dr. Helen Novak', scheduledTime: '10:00', station: 'US-ROOM-1',
+    },
+    {
+        id: 'SPS-240104', accessionNumber: 'ACC-240104', patientId: 'MRN-442870', patientName: 'James Wilson',
+        dateOfBirth: '1965-01-09', sex: 'M', examType: 'VASCULAR', priority: 'STAT',
+        procedureDescription: 'Lower extremity venous duplex, left', indication: 'Left calf swelling, r/o DVT',
+        referringPhysician: 'Dr. Karim Haddad', scheduledTime: '11:30', station: 'US-ROOM-2',
+    },
+    {
+        id: 'SPS-240105', accessionNumber: 'ACC-240105', patientId: 'MRN-507613', patientName: 'Ahmed Hassan',
+        dateOfBirth: '1980-08-30', sex: 'M', examType: 'GENERAL', priority: 'ROUTINE',
+        procedureDescription: 'Abdominal ultrasound, complete', indication: 'Right upper quadrant pain, r/o cholelithiasis',
+        referringPhysician: 'Dr. Sofia Marin', scheduledTime: '13:45', station: 'US-ROOM-1',
+    },
+    {
+        id: 'SPS-240106', accessionNumber: 'ACC-240106', patientId: 'MRN-611049', patientName: 'Emily Brooks',
+        dateOfBirth: '1999-12-04', sex: 'F', examType: 'GENERAL', priority: 'ROUTINE',
+        procedureDescription: 'Thyroid ultrasound', indication: 'Palpable thyroid nodule',
+        referringPhysician: 'Dr. Amanda Ruiz', scheduledTime: '15:00', station: 'US-ROOM-2',
+    },
+];
+
+const todayAt = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes || 0, 0, 0);
+    return date.getTime();
+};
+
+const mockEntries = (): WorklistEntry[] =>
+    MOCK_WORKLIST.map(({ scheduledTime, ...entry }) => ({ ...entry, scheduledAt: todayAt(scheduledTime), status: 'SCHEDULED' }));
+
+/** Worklist of the mock signaling host, like createFixtureWorklist on the server. */
+export function createMockWorklist() {
+    return createMemoryWorklist(mockEntries());
+}
+
+/**
+ * Same answer as GET /api/worklist. Exams already started in another tab are
+ * not hidden: only the hosting tab knows, and it refuses to start them twice.
+ */
+export function mockWorklist(date = toLocalDate(Date.now())): WorklistEntry[] {
+    return mockEntries()
+        .filter(entry => toLocalDate(entry.scheduledAt) === date)
+        .sort((a, b) => a.scheduledAt - b.scheduledAt);
+}
@@ -1,34 +1,37 @@
-import { io, Socket } from 'socket.io-client';
 import { SignalingEvent } from '../types';
+import { OutgoingSignal, ServerToClientEvents, ClientToServerEvents, ClientEventName } from '../shared/protocol';
+import { connectSignaling, onServerEvent, getProtocolMismatchMessage } from './signalingSocket';
+import { SignalingTransport } from './signalingTransport';
+
+export type ConnectionErrorKind = 'UNAUTHORIZED' | 'PROTOCOL_MISMATCH' | 'NETWORK';
+
+export interface ConnectionError {
+    kind: ConnectionErrorKind;
+    message: string;
+}
 
 /**
  * Real WebSocket signaling service using Socket.IO.
- * Connects to the backend server for cross-device communication.
+ * One instance per signed-in user: it registers with the server on every
+ * (re)connect, routes validated server events to subscribers and relays
+ * room signals.
  */
 class RealSignalingService {
-    private socket: Socket;
+    private socket: SignalingTransport;
     private listeners: ((event: SignalingEvent) => void)[] = [];
     private connectionListeners: ((connected: boolean) => void)[] = [];
+    private errorListeners: ((error: ConnectionError) => void)[] = [];
     private _isConnected: boolean = false;
 
-    constructor(roomId: string, role: string) {
-        // Use the current hostname so devices on the same network connect to the same server
-        const defaultServerUrl = `http://${window.location.hostname}:3001`;
-        const serverUrl = import.meta.env.VITE_SIGNALING_SERVER || defaultServerUrl;
-
-        this.socket = io(serverUrl, {
-            reconnection: true,
-            reconnectionAttempts: 10,
-            reconnectionDelay: 1000,
-        });
+    constructor(token: string) {
+        this.socket = connectSignaling(token);
 
         this.socket.on('connect', () => {
             console.log('[RealSignaling] Connected to server');
             this._isConnected = true;
+            // Identity comes from the token; the server replays any session state on register
+            this.socket.emit('register');
             this.notifyConnectionChange(true);
-
-            // Join the room
-            this.socket.emit('join', { roomId, role });
         });
 
         this.socket.on('disconnect', () => {
@@ -37,16 +40,25 @@ class RealSignalingService {
             this.notifyConnectionChange(false);
         });
 
-        this.socket.on('signal', (event: SignalingEvent) => {
+        onServerEvent(this.socket, 'signal', (event) => {
             this.notify(event);
         });
 
-        this.socket.on('room-info', (info: { users: any[] }) => {
-            console.log('[RealSignaling] Room info:', info);
+        // Events the server refused (permissions, room membership, stale ids, malformed payloads)
+        onServerEvent(this.socket, 'request-error', (error) => {
+            console.warn(`[RealSignaling] ${error.event} rejected (${error.code}): ${error.message}`);
         });
 
         this.socket.on('connect_error', (error) => {
             console.error('[RealSignaling] Connection error:', error.message);
+            const mismatch = getProtocolMismatchMessage(error);
+            if (mismatch) {
+                this.notifyError({ kind: 'PROTOCOL_MISMATCH', message: mismatch });
+            } else if (error.message === 'UNAUTHORIZED') {
+                this.notifyError({ kind: 'UNAUTHORIZED', message: 'Your session has expired. Please sign in again.' });
+            } else {
+                this.notifyError({ kind: 'NETWORK', message: error.message });
+            }
         });
     }
 
@@ -54,16 +66,32 @@ class RealSignalingService {
         return this._isConnected;
     }
 
-    public getSocket(): Socket {
+    public getSocket(): SignalingTransport {
         return this.socket;
     }
 
-    public send(event: SignalingEvent) {
+    /** Enters a session room; room signals are only relayed between its members. */
+    public joinRoom(roomId: string) {
+        this.socket.emit('join', { roomId });
+    }
+
+    /** Relays a signal to the other members of the current room. */
+    public send(event: OutgoingSignal) {
         if (this._isConnected) {
             this.socket.emit('signal', event);
         }
     }
 
+    /** Sends a session-management event (register, assign, end-session, ...). */
+    public emit<E extends ClientEventName>(event: E, ...args: Parameters<ClientToServerEvents[E]>) {
+        (this.socket.emit as (event: string, ...args: unknown[]) => void)(event, ...args);
+    }
+
+    /** Subscribes to a validated server event other than `signal`. */
+    public on<E extends keyof ServerToClientEvents>(event: E, handler: ServerToClientEvents[E]) {
+        return onServerEvent(this.socket, event, handler);
+    }
+
     public subscribe(callback: (event: SignalingEvent) => void) {
         this.listeners.push(callback);
         return () => {
@@ -80,6 +108,13 @@ class RealSignalingService {
         };
     }
 
+    public onConnectionError(callback: (error: ConnectionError) => void) {
+        this.errorListeners.push(callback);
+        return () => {
+            this.errorListeners = this.errorListeners.filter(cb => cb !== callback);
+        };
+    }
+
     private notify(event: SignalingEvent) {
         this.listeners.forEach(cb => cb(event));
     }
@@ -88,6 +123,10 @@ class RealSignalingService {
         this.connectionListeners.forEach(cb => cb(connected));
     }
 
+    private notifyError(error: ConnectionError) {
+        this.errorListeners.forEach(cb => cb(error));
+    }
+
     public close() {
         this.socket.disconnect();
     }
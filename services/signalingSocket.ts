@@ -0,0 +1,65 @@
+import { io, Socket } from 'socket.io-client';
+import {
+    PROTOCOL_VERSION,
+    PROTOCOL_MISMATCH,
+    validateServerEvent,
+    ServerToClientEvents,
+    ClientToServerEvents,
+    ProtocolMismatch,
+} from '../shared/protocol';
+import { getServerUrl } from './api';
+import { SignalingTransport, TransportListenEvents, getTransportKind } from './signalingTransport';
+import MockSignalingService from './mockSignaling';
+
+/**
+ * Opens an authenticated connection to the signaling backend, announcing the
+ * protocol version this build speaks. Uses Socket.IO unless the offline
+ * BroadcastChannel backend is selected (see getTransportKind).
+ */
+export function connectSignaling(token: string): SignalingTransport {
+    if (getTransportKind() === 'mock') {
+        return new MockSignalingService(token);
+    }
+    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(getServerUrl(), {
+        auth: { token, protocolVersion: PROTOCOL_VERSION },
+        reconnection: true,
+        reconnectionAttempts: 10,
+        reconnectionDelay: 1000,
+    });
+    // Socket.IO's overloaded listener signatures are wider than the transport's
+    return socket as unknown as SignalingTransport;
+}
+
+/**
+ * Subscribes to a server event, dropping payloads that fail protocol validation.
+ */
+export function onServerEvent<E extends keyof ServerToClientEvents>(
+    socket: SignalingTransport,
+    event: E,
+    handler: ServerToClientEvents[E],
+) {
+    // Every server event has a single payload argument
+    const listener = ((payload: unknown) => {
+        const error = validateServerEvent(event, payload);
+        if (error) {
+            console.warn(`[Signaling] Ignoring ${event}: ${error}`, payload);
+            return;
+        }
+        (handler as (payload: unknown) => void)(payload);
+    }) as TransportListenEvents[E];
+    socket.on(event, listener);
+    return () => {
+        socket.off(event, listener);
+    };
+}
+
+/**
+ * User-facing explanation for a connect_error caused by a protocol version
+ * mismatch, or null for any other connection error.
+ */
+export function getProtocolMismatchMessage(err: Error & { data?: ProtocolMismatch }): string | null {
+    if (err.message !== PROTOCOL_MISMATCH) return null;
+    const serverVersion = err.data?.serverVersion ?? 'unknown';
+    return `This app speaks signaling protocol v${PROTOCOL_VERSION} but the server speaks v${serverVersion}. ` +
+        'Reload the page to get the current version, or contact your administrator if the problem persists.';
+}
@@ -0,0 +1,35 @@
+import { ServerToClientEvents, ClientToServerEvents, ProtocolMismatch } from '../shared/protocol';
+
+// Connection lifecycle events every transport reports, named as in Socket.IO
+export interface TransportLifecycleEvents {
+    'connect': () => void;
+    'disconnect': (reason: string) => void;
+    'connect_error': (error: Error & { data?: ProtocolMismatch }) => void;
+}
+
+export type TransportListenEvents = ServerToClientEvents & TransportLifecycleEvents;
+
+/**
+ * The client end of a signaling connection: the subset of the Socket.IO
+ * client socket API the app relies on. Implemented by the Socket.IO client
+ * (services/signalingSocket.ts) and by the offline BroadcastChannel backend
+ * (services/mockSignaling.ts).
+ */
+export interface SignalingTransport {
+    readonly id: string | undefined;
+    readonly connected: boolean;
+    on<E extends keyof TransportListenEvents>(event: E, listener: TransportListenEvents[E]): unknown;
+    off<E extends keyof TransportListenEvents>(event: E, listener?: TransportListenEvents[E]): unknown;
+    emit<E extends keyof ClientToServerEvents>(event: E, ...args: Parameters<ClientToServerEvents[E]>): unknown;
+    disconnect(): unknown;
+}
+
+export type TransportKind = 'socket' | 'mock';
+
+/**
+ * Which backend the app talks to: the Node signaling server ('socket', default)
+ * or the in-browser BroadcastChannel server ('mock'), set with VITE_SIGNALING_TRANSPORT.
+ */
+export const getTransportKind = (): TransportKind => {
+    return import.meta.env.VITE_SIGNALING_TRANSPORT === 'mock' ? 'mock' : 'socket';
+};
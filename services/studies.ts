@@ -0,0 +1,127 @@
+import { DicomSeries } from '../types';
+import { ApiError, getServerUrl } from './api';
+import { getTransportKind } from './signalingTransport';
+
+const SAMPLE_STUDY_UID = '2.25.887315984682433194310380566013856747082';
+
+// Bundled ultrasound series (public/dicom_viewer_0002), shown until a study is uploaded to the session
+export const SAMPLE_SERIES: DicomSeries = {
+    studyInstanceUid: SAMPLE_STUDY_UID,
+    seriesInstanceUid: `${SAMPLE_STUDY_UID}.1`,
+    modality: 'US',
+    seriesDescription: 'Sample series',
+    instances: Array.from({ length: 9 }, (_, i) => ({
+        sopInstanceUid: `${SAMPLE_STUDY_UID}.1.${i + 1}`,
+        numberOfFrames: 1,
+        url: `/dicom_viewer_0002/IMG-0001-${String(i + 1).padStart(5, '0')}.dcm`,
+    })),
+};
+
+/** The offline mock backend has nowhere to keep files, so it only shows the sample series. */
+export const canUploadStudies = () => getTransportKind() !== 'mock';
+
+// DICOMweb service root of a session room (see server/studies/dicomweb.js)
+const dicomWebRoot = (roomId: string) => `${getServerUrl()}/api/rooms/${encodeURIComponent(roomId)}/dicomweb`;
+
+const instanceUrl = (roomId: string, series: DicomSeries, sopInstanceUid: string) =>
+    `${dicomWebRoot(roomId)}/studies/${series.studyInstanceUid}/series/${series.seriesInstanceUid}/instances/${sopInstanceUid}`;
+
+// DICOM JSON attributes of a STOW-RS response (PS3.18 10.5.3)
+const FAILED_SOP_SEQUENCE = '00081198';
+const REFERENCED_SOP_SEQUENCE = '00081199';
+const RETRIEVE_URL = '00081190';
+
+// DICOM JSON dataset (PS3.18 F.2); sequence values are datasets
+interface DicomJsonDataset {
+    [tag: string]: { vr: string; Value?: any[] } | undefined;
+}
+
+export interface StowResult {
+    /** Series of the last file stored, null when none was */
+    series: Pick<DicomSeries, 'studyInstanceUid' | 'seriesInstanceUid'> | null;
+    /** Number of files the server refused, e.g. because they are not DICOM */
+    failed: number;
+}
+
+/**
+ * Stores DICOM files in a session room with one STOW-RS request. Room members
+ * get the updated series list in a STUDIES_UPDATED signal, and in room-info
+ * when they join. Throws an ApiError when the request itself is refused.
+ */
+export async function uploadInstances(token: string, roomId: string, files: File[]): Promise<StowResult> {
+    const boundary = `rology-${crypto.randomUUID()}`;
+    const body = new Blob([
+        ...files.flatMap(file => [`--${boundary}\r\nContent-Type: application/dicom\r\n\r\n`, file, '\r\n']),
+        `--${boundary}--\r\n`,
+    ]);
+    const response = await fetch(`${dicomWebRoot(roomId)}/studies`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': `multipart/related; type="application/dicom"; boundary=${boundary}`,
+            'Accept': 'application/dicom+json',
+            'Authorization': `Bearer ${token}`,
+        },
+        body,
+    });
+    const data = await response.json().catch(() => null);
+    // 409 when no file could be stored, which still lists the failures
+    if (!response.ok && response.status !== 409) {
+        throw new ApiError(response.status, data?.error || `Upload failed (${response.status})`);
+    }
+
+    // RetrieveURL of a stored instance: .../studies/<study>/series/<series>/instances/<sop>
+    const stored: DicomJsonDataset[] = (data as DicomJsonDataset)?.[REFERENCED_SOP_SEQUENCE]?.Value ?? [];
+    const retrieveUrl = stored[stored.length - 1]?.[RETRIEVE_URL]?.Value?.[0] as string | undefined;
+    const [, studyInstanceUid, seriesInstanceUid] = /\/studies\/([^/]+)\/series\/([^/]+)/.exec(retrieveUrl ?? '') || [];
+    return {
+        series: studyInstanceUid ? { studyInstanceUid, seriesInstanceUid } : null,
+        failed: (data as DicomJsonDataset)?.[FAILED_SOP_SEQUENCE]?.Value?.length ?? 0,
+    };
+}
+
+const metadataCache = new Map<string, Promise<object>>();
+
+/**
+ * DICOM JSON metadata of an archived instance (WADO-RS `/metadata`), which the
+ * `wadors:` loader needs before it can decode frames. Cached per instance.
+ */
+export function fetchInstanceMetadata(url: string, token: string): Promise<object> {
+    if (!metadataCache.has(url)) {
+        const request = fetch(`${url}/metadata`, {
+            headers: { 'Accept': 'application/dicom+json', 'Authorization': `Bearer ${token}` },
+        }).then(async response => {
+            if (!response.ok) throw new ApiError(response.status, `Metadata request failed (${response.status})`);
+            const [metadata] = await response.json();
+            return metadata;
+        });
+        // Failed requests are retried the next time the instance is shown
+        request.catch(() => metadataCache.delete(url));
+        metadataCache.set(url, request);
+    }
+    return metadataCache.get(url);
+}
+
+/** The series the room has selected, else the first one uploaded, else the sample series. */
+export function pickSeries(series: DicomSeries[], seriesInstanceUid?: string): DicomSeries {
+    return series.find(s => s.seriesInstanceUid === seriesInstanceUid) || series[0] || SAMPLE_SERIES;
+}
+
+/**
+ * Cornerstone image IDs of every frame of a series, in order. Archived
+ * instances are fetched frame by frame over WADO-RS (`wadors:`, frames
+ * numbered from 1); the bundled sample files are fetched whole (`wadouri:`).
+ */
+export function getImageIds(roomId: string, series: DicomSeries): string[] {
+    return series.instances.flatMap(instance => {
+        if (instance.url) return [`wadouri:${window.location.origin}${instance.url}`];
+        const url = instanceUrl(roomId, series, instance.sopInstanceUid);
+        return Array.from({ length: Math.max(instance.numberOfFrames, 1) }, (_, frame) => `wadors:${url}/frames/${frame + 1}`);
+    });
+}
+
+/** True for image IDs served by the signaling server, which need the session token. */
+export const isArchivedImage = (imageId: string) => imageId.slice(imageId.indexOf(':') + 1).startsWith(`${getServerUrl()}/api/`);
+
+/** Instance URL of a `wadors:` frame image ID, whose metadata the loader needs first. */
+export const getWadoRsInstanceUrl = (imageId: string) =>
+    imageId.startsWith('wadors:') ? imageId.slice('wadors:'.length).replace(/\/frames\/\d+$/, '') : null;
@@ -0,0 +1,13 @@
+import { WorklistEntry } from '../types';
+import { apiRequest } from './api';
+import { getTransportKind } from './signalingTransport';
+import { mockWorklist } from './mockWorklist';
+
+/**
+ * Exams still to be performed on `date` (YYYY-MM-DD, default today), soonest first.
+ * The offline mock backend serves its built-in demo worklist.
+ */
+export function fetchWorklist(token: string, date?: string): Promise<WorklistEntry[]> {
+    if (getTransportKind() === 'mock') return Promise.resolve(mockWorklist(date));
+    return apiRequest<WorklistEntry[]>(`/api/worklist${date ? `?date=${date}` : ''}`, { token });
+}
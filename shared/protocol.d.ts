@@ -0,0 +1,250 @@
+import type { ChatMessage, SessionState, Annotation, SessionRequest, RoomAssignment, User, UserRole, ExamContext, DicomSeries } from '../types';
+
+export declare const PROTOCOL_VERSION: number;
+export declare const PROTOCOL_MISMATCH: 'PROTOCOL_MISMATCH';
+
+export declare const ErrorCode: {
+  readonly FORBIDDEN: 'FORBIDDEN';
+  readonly NOT_IN_ROOM: 'NOT_IN_ROOM';
+  readonly NOT_FOUND: 'NOT_FOUND';
+  readonly INVALID_STATE: 'INVALID_STATE';
+  readonly UNKNOWN_EVENT: 'UNKNOWN_EVENT';
+  readonly INVALID_PAYLOAD: 'INVALID_PAYLOAD';
+};
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
+
+// Structured error sent by the signaling server when it rejects a client event
+export interface RequestError {
+  event: string;
+  code: ErrorCode;
+  message: string;
+}
+
+// Extra data attached to a PROTOCOL_MISMATCH connect_error
+export interface ProtocolMismatch {
+  serverVersion: number;
+  clientVersion: number | null;
+}
+
+// What a member does in a particular session, independent of their account role
+export type SessionRole = 'TECHNICIAN' | 'PRIMARY' | 'CONSULTANT' | 'OBSERVER';
+export declare const SESSION_ROLES: SessionRole[];
+
+// Kind of ultrasound exam a technician requests; drives subspecialty routing
+export type ExamType = 'GENERAL' | 'CARDIAC' | 'OB' | 'VASCULAR';
+export declare const EXAM_TYPES: ExamType[];
+
+// Urgency of a session request, most urgent first; each level has its own SLA
+export type Priority = 'STAT' | 'URGENT' | 'ROUTINE';
+export declare const PRIORITIES: Priority[];
+
+// Patient sex as recorded on the exam order (O: other, U: unknown)
+export type PatientSex = 'F' | 'M' | 'O' | 'U';
+export declare const PATIENT_SEXES: PatientSex[];
+
+// Exam context as typed in by the technician; the server fills in a missing accession number
+export type ExamContextInput = Omit<ExamContext, 'accessionNumber'> & { accessionNumber?: string };
+
+// A socket currently in a session room. WebRTC calls are set up per participant socket.
+export interface RoomParticipant {
+  socketId: string;
+  userId: string;
+  name: string;
+  role: UserRole;
+  sessionRole: SessionRole;
+  joinedAt: number;
+}
+
+// Room state replayed by the server when a client (re)joins a room
+export interface RoomInfo {
+  users: RoomParticipant[];
+  messages: ChatMessage[];
+  sync: StudySync;
+  // Patient and order details of the session, for the report header
+  examContext?: ExamContext;
+  // DICOM series uploaded to the session, in upload order
+  series: DicomSeries[];
+  // Measurements taken on the study so far
+  measurements: Measurement[];
+  // Annotations drawn so far, on the study and on the live video
+  annotations: Annotation[];
+  // Who may change the study controls
+  control: ScannerControl;
+}
+
+// Who holds the scanner and study controls of a room: only they may send SYNC_STATE.
+// The technician holds them until they hand them over, and gets them back when the holder leaves.
+export interface ScannerControl {
+  holderId: string;
+  holderName: string;
+  // Participants asking the holder for control, oldest first
+  requests: { userId: string; userName: string }[];
+}
+
+// Study controls shared by everyone in a room; the series is picked by the technician
+export type StudySync = Partial<Pick<SessionState, 'gain' | 'depth'>> & {
+  frame?: number;
+  studyInstanceUid?: string;
+  seriesInstanceUid?: string;
+  cine?: CineState;
+  viewport?: StudyViewport;
+};
+
+// Cine playback of the series. While playing, `frame` is where playback started:
+// every viewer plays on from it at the series' frame rate times `speed`.
+export interface CineState {
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+}
+
+// How the study is displayed, independent of each viewer's size
+export interface StudyViewport {
+  // Window width and center; null for the image's own window
+  voi: { windowWidth: number; windowCenter: number } | null;
+  // Magnification relative to fitting the image into the viewer
+  zoom: number;
+  // Pan, in image pixels along the screen axes
+  translation: { x: number; y: number };
+  // Inverted relative to the image's photometric interpretation
+  invert: boolean;
+  // Degrees clockwise: 0, 90, 180 or 270
+  rotation: number;
+  hflip: boolean;
+  vflip: boolean;
+}
+
+export type MeasurementKind = 'length' | 'ellipse' | 'trace' | 'angle' | 'velocity';
+
+// A calibrated measurement on one frame of a series. Values are computed by whoever takes it.
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  // Report label, e.g. LVIDd
+  label: string;
+  seriesInstanceUid: string;
+  frame: number;
+  // In image pixels: 2 for length and ellipse (bounding box), 3 for angle (vertex second), 1 for velocity, the outline for trace
+  points: { x: number; y: number }[];
+  values: MeasurementValue[];
+  author: string;
+}
+
+// e.g. { name: 'Area', value: 12.3, unit: 'cm²' }; unit 'px' when the image is not calibrated
+export interface MeasurementValue {
+  name: string;
+  value: number;
+  unit: string;
+}
+
+// ICE configuration served by the signaling server before every call.
+// `expiresAt` is when its TURN credentials lapse (null: no expiring credentials).
+export interface IceConfig {
+  iceServers: RTCIceServer[];
+  iceTransportPolicy: RTCIceTransportPolicy;
+  expiresAt: number | null;
+}
+
+// Payload of the `signal` event, relayed within a room or issued by the server
+export type SignalingEvent =
+  | { type: 'JOIN'; payload: { role: UserRole; roomId: string; socketId: string; userId: string; userName: string; sessionRole: SessionRole; resumed?: boolean } }
+  | { type: 'LEAVE'; payload: { role: UserRole; socketId: string; userId: string; userName: string } }
+  | { type: 'SYNC_STATE'; payload: StudySync }
+  | { type: 'CHAT'; payload: ChatMessage }
+  // Added or redone annotation, and removed annotations (erased, undone or cleared)
+  | { type: 'ANNOTATION'; payload: Annotation }
+  | { type: 'ANNOTATION_REMOVED'; payload: { ids: string[] } }
+  // Added or relabelled measurement, and removed measurement
+  | { type: 'MEASUREMENT_SAVED'; payload: Measurement }
+  | { type: 'MEASUREMENT_REMOVED'; payload: { id: string } }
+  | { type: 'REQUEST_REPORT'; payload: null }
+  | { type: 'REPORT_READY'; payload: string }
+  // Session management events (server only)
+  | { type: 'SESSION_REQUEST'; payload: SessionRequest }
+  | { type: 'SESSION_ASSIGNED'; payload: SessionRequest }
+  | { type: 'ROOM_INVITE'; payload: RoomAssignment }
+  | { type: 'ROOM_ACCEPTED'; payload: { assignmentId: string; radiologistId: string; roomId?: string } }
+  | { type: 'ROOM_REJECTED'; payload: { assignmentId: string; radiologistId: string; radiologistName: string; comment: string } }
+  | { type: 'AVAILABILITY_UPDATE'; payload: { userId: string; isAvailable: boolean } }
+  | { type: 'USER_LIST_UPDATE'; payload: { technicians: User[]; radiologists: User[]; observers: User[] } }
+  | { type: 'DISPATCH_STATUS'; payload: { enabled: boolean } }
+  | { type: 'INVITE_CANCELLED'; payload: { assignmentId: string; reason?: string } }
+  | { type: 'SLA_BREACHED'; payload: { requestId: string; technicianName: string; priority: Priority; slaDueAt: number } }
+  | { type: 'STUDIES_UPDATED'; payload: { roomId: string; series: DicomSeries[] } }
+  // Control of the study changed hands, or someone asked for it
+  | { type: 'CONTROL_UPDATE'; payload: ScannerControl }
+  | { type: 'INVITE_EXPIRED'; payload: { assignmentId: string; roomId: string; technicianName: string; radiologistId: string; radiologistName: string; sessionRole?: SessionRole; expiredAt: number } }
+  | { type: 'SESSION_ENDED'; payload: { requestId: string; reason: string } }
+  | { type: 'SESSION_SUSPENDED'; payload: { requestId: string; roomId: string; userId: string; graceExpiresAt: number } }
+  | { type: 'SESSION_RESUMED'; payload: { requestId: string; roomId: string } };
+
+export type RelayableSignal = Extract<SignalingEvent, { type: 'SYNC_STATE' | 'CHAT' | 'ANNOTATION' | 'ANNOTATION_REMOVED' | 'MEASUREMENT_SAVED' | 'MEASUREMENT_REMOVED' | 'REQUEST_REPORT' | 'REPORT_READY' }>;
+export declare const RELAYABLE_SIGNALS: RelayableSignal['type'][];
+
+// A relayable signal as a client sends it: the server fills in who wrote a message, annotation or measurement
+export type OutgoingSignal =
+  | Exclude<RelayableSignal, { type: 'CHAT' | 'ANNOTATION' | 'MEASUREMENT_SAVED' }>
+  | { type: 'CHAT'; payload: Omit<ChatMessage, 'sender' | 'role'> }
+  | { type: 'ANNOTATION'; payload: Omit<Annotation, 'authorId' | 'authorName'> }
+  | { type: 'MEASUREMENT_SAVED'; payload: Omit<Measurement, 'author'> };
+
+interface Relayed {
+  from: string;
+}
+
+interface RelayedVideo extends Relayed {
+  senderRole: UserRole;
+}
+
+// Socket.IO event maps: `Socket<ServerToClientEvents, ClientToServerEvents>` on the client
+export interface ServerToClientEvents {
+  'signal': (event: SignalingEvent) => void;
+  'session-requests-update': (requests: SessionRequest[]) => void;
+  'join-room': (payload: { roomId: string; technicianName?: string }) => void;
+  'room-info': (info: RoomInfo) => void;
+  'request-error': (error: RequestError) => void;
+  'webrtc-offer': (payload: Relayed & { offer: RTCSessionDescriptionInit }) => void;
+  'webrtc-answer': (payload: Relayed & { answer: RTCSessionDescriptionInit }) => void;
+  'webrtc-ice-candidate': (payload: Relayed & { candidate: RTCIceCandidateInit }) => void;
+  'webrtc-video-offer': (payload: RelayedVideo & { offer: RTCSessionDescriptionInit }) => void;
+  'webrtc-video-answer': (payload: RelayedVideo & { answer: RTCSessionDescriptionInit }) => void;
+  'webrtc-video-ice-candidate': (payload: RelayedVideo & { candidate: RTCIceCandidateInit }) => void;
+}
+
+export interface ClientToServerEvents {
+  'register': () => void;
+  'set-availability': (payload: { available: boolean }) => void;
+  // Either a worklist entry or a typed-in exam context
+  'create-session-request': (payload: { examType?: ExamType; priority?: Priority } & ({ worklistEntryId: string; examContext?: never } | { worklistEntryId?: never; examContext: ExamContextInput })) => void;
+  'cancel-session-request': (payload: { requestId: string; reason?: string }) => void;
+  'update-session-request': (payload: { requestId: string; notes?: string; examType?: ExamType; examContext?: ExamContextInput }) => void;
+  'assign-radiologist': (payload: { requestId: string; radiologistId: string }) => void;
+  'respond-to-assignment': (payload: { assignmentId: string; accept: boolean; comment?: string }) => void;
+  'leave-session': (payload: { roomId: string }) => void;
+  'end-session': (payload: { requestId: string }) => void;
+  'get-users': (callback: (users: { technicians: User[]; radiologists: User[]; observers: User[] }) => void) => void;
+  'get-session-requests': (callback: (requests: SessionRequest[]) => void) => void;
+  'get-available-radiologists': (callback: (radiologists: User[]) => void) => void;
+  'get-ice-config': (callback: (config: IceConfig) => void) => void;
+  'invite-to-session': (payload: { requestId: string; userId: string }) => void;
+  'set-auto-dispatch': (payload: { enabled: boolean }) => void;
+  'join': (payload: { roomId: string; role?: UserRole | `${UserRole}` }) => void;
+  'request-control': () => void;
+  'respond-to-control-request': (payload: { userId: string; grant: boolean }) => void;
+  // Hand control back to the technician
+  'release-control': () => void;
+  'signal': (event: OutgoingSignal) => void;
+  'webrtc-offer': (payload: { offer: RTCSessionDescriptionInit; to: string }) => void;
+  'webrtc-answer': (payload: { answer: RTCSessionDescriptionInit; to: string }) => void;
+  'webrtc-ice-candidate': (payload: { candidate: RTCIceCandidateInit; to: string }) => void;
+  'webrtc-video-offer': (payload: { offer: RTCSessionDescriptionInit; to: string }) => void;
+  'webrtc-video-answer': (payload: { answer: RTCSessionDescriptionInit; to: string }) => void;
+  'webrtc-video-ice-candidate': (payload: { candidate: RTCIceCandidateInit; to: string }) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+export declare const CLIENT_EVENT_NAMES: ClientEventName[];
+
+export declare function validateSignal(signal: unknown): string | null;
+export declare function validateClientEvent(event: string, args: unknown[]): { code: ErrorCode; message: string } | null;
+export declare function validateServerEvent(event: string, payload: unknown): string | null;
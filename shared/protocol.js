@@ -0,0 +1,258 @@
+// ============================================
+// ROLOGY SIGNALING PROTOCOL
+// ============================================
+// Shared by the React client and the Node signaling server. Types live in
+// protocol.d.ts; this file holds the wire constants and runtime validators.
+
+// Bump whenever an event name or payload shape changes incompatibly
+export const PROTOCOL_VERSION = 17;
+
+// connect_error message sent when client and server speak different versions
+export const PROTOCOL_MISMATCH = 'PROTOCOL_MISMATCH';
+
+export const ErrorCode = {
+    FORBIDDEN: 'FORBIDDEN',
+    NOT_IN_ROOM: 'NOT_IN_ROOM',
+    NOT_FOUND: 'NOT_FOUND',
+    INVALID_STATE: 'INVALID_STATE',
+    UNKNOWN_EVENT: 'UNKNOWN_EVENT',
+    INVALID_PAYLOAD: 'INVALID_PAYLOAD',
+};
+
+// ============================================
+// SCHEMA HELPERS
+// ============================================
+
+const isObject = (v) => v !== null && typeof v === 'object' && !Array.isArray(v);
+
+const string = (v) => typeof v === 'string';
+const number = (v) => typeof v === 'number' && Number.isFinite(v);
+const boolean = (v) => typeof v === 'boolean';
+const any = () => true;
+const object = isObject;
+const optional = (check) => (v) => v === undefined || v === null || check(v);
+const oneOf = (...values) => (v) => values.includes(v);
+const arrayOf = (check) => (v) => Array.isArray(v) && v.every(check);
+const shape = (fields) => (v) => isObject(v) && Object.entries(fields).every(([key, check]) => check(v[key]));
+// Filled in by the server from the sender's session: clients may leave it out, and whatever they send is overwritten
+const serverAssigned = (check) => optional(check);
+
+const role = oneOf('TECH', 'RADIOLOGIST', 'MEDICAL_ADMIN', 'OBSERVER');
+
+// What a member does in a particular session, independent of their account role
+export const SESSION_ROLES = ['TECHNICIAN', 'PRIMARY', 'CONSULTANT', 'OBSERVER'];
+const sessionRole = oneOf(...SESSION_ROLES);
+
+// Kind of ultrasound exam a technician requests; drives subspecialty routing
+export const EXAM_TYPES = ['GENERAL', 'CARDIAC', 'OB', 'VASCULAR'];
+const examType = oneOf(...EXAM_TYPES);
+
+// Urgency of a session request, most urgent first; each level has its own SLA
+export const PRIORITIES = ['STAT', 'URGENT', 'ROUTINE'];
+const priority = oneOf(...PRIORITIES);
+
+// Patient sex as recorded on the exam order (O: other, U: unknown)
+export const PATIENT_SEXES = ['F', 'M', 'O', 'U'];
+const examContext = shape({
+    patientId: string,
+    patientName: string,
+    dateOfBirth: optional(string),
+    sex: optional(oneOf(...PATIENT_SEXES)),
+    indication: optional(string),
+    referringPhysician: optional(string),
+    procedureDescription: optional(string),
+    accessionNumber: optional(string)
+});
+
+const sessionDescription = shape({ type: oneOf('offer', 'answer', 'pranswer', 'rollback'), sdp: optional(string) });
+const iceCandidate = shape({ candidate: optional(string) });
+
+const chatMessage = shape({ id: string, sender: serverAssigned(string), role: serverAssigned(role), text: string, timestamp: number });
+const user = shape({ id: string, name: string, role, isAvailable: boolean });
+const sessionRequest = shape({ id: string, technicianId: string, technicianName: string, status: string, createdAt: number });
+const roomAssignment = shape({ id: string, roomId: string, technicianId: string, technicianName: string, radiologistId: string, status: string, sessionRole: optional(sessionRole) });
+const roomParticipant = shape({ socketId: string, userId: string, name: string, role, sessionRole, joinedAt: number });
+const studyViewport = shape({
+    voi: optional(shape({ windowWidth: number, windowCenter: number })),
+    zoom: number,
+    translation: shape({ x: number, y: number }),
+    invert: boolean,
+    rotation: number,
+    hflip: boolean,
+    vflip: boolean
+});
+const point = shape({ x: number, y: number });
+const measurement = shape({
+    id: string,
+    kind: oneOf('length', 'ellipse', 'trace', 'angle', 'velocity'),
+    label: string,
+    seriesInstanceUid: string,
+    frame: number,
+    points: arrayOf(point),
+    values: arrayOf(shape({ name: string, value: number, unit: string })),
+    author: serverAssigned(string)
+});
+const annotation = shape({
+    id: string,
+    shape: oneOf('arrow', 'text', 'freehand', 'rectangle', 'ellipse'),
+    layer: oneOf('image', 'video'),
+    seriesInstanceUid: optional(string),
+    frame: optional(number),
+    points: arrayOf(point),
+    text: optional(string),
+    color: string,
+    authorId: serverAssigned(string),
+    authorName: serverAssigned(string)
+});
+const scannerControl = shape({ holderId: string, holderName: string, requests: arrayOf(shape({ userId: string, userName: string })) });
+const dicomSeries = shape({ studyInstanceUid: string, seriesInstanceUid: string, instances: arrayOf(shape({ sopInstanceUid: string, numberOfFrames: number })) });
+
+// ============================================
+// SIGNALS (payload of the `signal` event)
+// ============================================
+
+const SIGNAL_PAYLOADS = {
+    JOIN: shape({ role, roomId: string, socketId: string, userId: string, userName: string, sessionRole }),
+    LEAVE: shape({ role, socketId: string, userId: string, userName: string }),
+    SYNC_STATE: shape({ studyInstanceUid: optional(string), seriesInstanceUid: optional(string), cine: optional(shape({ playing: boolean, speed: number, loop: boolean })), viewport: optional(studyViewport) }),
+    CHAT: chatMessage,
+    ANNOTATION: annotation,
+    ANNOTATION_REMOVED: shape({ ids: arrayOf(string) }),
+    MEASUREMENT_SAVED: measurement,
+    MEASUREMENT_REMOVED: shape({ id: string }),
+    REQUEST_REPORT: any,
+    REPORT_READY: string,
+    SESSION_REQUEST: sessionRequest,
+    SESSION_ASSIGNED: sessionRequest,
+    SESSION_ENDED: shape({ requestId: string, reason: optional(string) }),
+    SESSION_SUSPENDED: shape({ requestId: string, roomId: string, userId: string, graceExpiresAt: number }),
+    SESSION_RESUMED: shape({ requestId: string, roomId: string }),
+    ROOM_INVITE: roomAssignment,
+    ROOM_ACCEPTED: shape({ radiologistId: string, roomId: optional(string) }),
+    ROOM_REJECTED: shape({ assignmentId: string, radiologistId: string }),
+    AVAILABILITY_UPDATE: shape({ userId: string, isAvailable: boolean }),
+    USER_LIST_UPDATE: shape({ technicians: arrayOf(user), radiologists: arrayOf(user), observers: arrayOf(user) }),
+    DISPATCH_STATUS: shape({ enabled: boolean }),
+    INVITE_CANCELLED: shape({ assignmentId: string, reason: optional(string) }),
+    SLA_BREACHED: shape({ requestId: string, technicianName: string, priority, slaDueAt: number }),
+    STUDIES_UPDATED: shape({ roomId: string, series: arrayOf(dicomSeries) }),
+    CONTROL_UPDATE: scannerControl,
+    INVITE_EXPIRED: shape({ assignmentId: string, roomId: string, technicianName: string, radiologistId: string, radiologistName: string, sessionRole: optional(sessionRole), expiredAt: number }),
+};
+
+// Signals a client may relay to its room; everything else is issued by the server only
+export const RELAYABLE_SIGNALS = ['SYNC_STATE', 'CHAT', 'ANNOTATION', 'ANNOTATION_REMOVED', 'MEASUREMENT_SAVED', 'MEASUREMENT_REMOVED', 'REQUEST_REPORT', 'REPORT_READY'];
+
+/**
+ * Validates a `{ type, payload }` signal. Returns an error message, or null when valid.
+ */
+export const validateSignal = (signal) => {
+    if (!isObject(signal) || !string(signal.type)) return 'Signal must be an object with a string type';
+    const check = SIGNAL_PAYLOADS[signal.type];
+    if (!check) return `Unknown signal type ${signal.type}`;
+    if (!check(signal.payload)) return `Malformed payload for signal ${signal.type}`;
+    return null;
+};
+
+// ============================================
+// CLIENT -> SERVER EVENTS
+// ============================================
+
+// Marker for events answered through a Socket.IO acknowledgement callback
+const ACK = 'ack';
+
+const CLIENT_EVENTS = {
+    'register': null,
+    'set-availability': shape({ available: boolean }),
+    'create-session-request': shape({ examType: optional(examType), priority: optional(priority), examContext: optional(examContext), worklistEntryId: optional(string) }),
+    'cancel-session-request': shape({ requestId: string, reason: optional(string) }),
+    'update-session-request': shape({ requestId: string, notes: optional(string), examType: optional(examType), examContext: optional(examContext) }),
+    'assign-radiologist': shape({ requestId: string, radiologistId: string }),
+    'respond-to-assignment': shape({ assignmentId: string, accept: boolean, comment: optional(string) }),
+    'leave-session': shape({ roomId: string }),
+    'end-session': shape({ requestId: string }),
+    'get-users': ACK,
+    'get-session-requests': ACK,
+    'get-available-radiologists': ACK,
+    'invite-to-session': shape({ requestId: string, userId: string }),
+    'set-auto-dispatch': shape({ enabled: boolean }),
+    'get-ice-config': ACK,
+    'join': shape({ roomId: string, role: optional(role) }),
+    // Control requests apply to the sender's current room
+    'request-control': null,
+    'respond-to-control-request': shape({ userId: string, grant: boolean }),
+    'release-control': null,
+    // Checked by validateRelayedSignal below for a more precise message
+    'signal': null,
+    // Calls are per peer (keyed by socket id), so every WebRTC message names its target
+    'webrtc-offer': shape({ offer: sessionDescription, to: string }),
+    'webrtc-answer': shape({ answer: sessionDescription, to: string }),
+    'webrtc-ice-candidate': shape({ candidate: iceCandidate, to: string }),
+    'webrtc-video-offer': shape({ offer: sessionDescription, to: string }),
+    'webrtc-video-answer': shape({ answer: sessionDescription, to: string }),
+    'webrtc-video-ice-candidate': shape({ candidate: iceCandidate, to: string }),
+};
+
+export const CLIENT_EVENT_NAMES = Object.keys(CLIENT_EVENTS);
+
+const validateRelayedSignal = (signal) => {
+    const message = validateSignal(signal);
+    if (message) return { code: ErrorCode.INVALID_PAYLOAD, message };
+    if (!RELAYABLE_SIGNALS.includes(signal.type)) {
+        return { code: ErrorCode.FORBIDDEN, message: `Signal ${signal.type} is issued by the server only` };
+    }
+    return null;
+};
+
+/**
+ * Validates an incoming client event and its arguments (as received by a
+ * Socket.IO packet middleware). Returns `{ code, message }`, or null when valid.
+ */
+export const validateClientEvent = (event, args) => {
+    if (!(event in CLIENT_EVENTS)) {
+        return { code: ErrorCode.UNKNOWN_EVENT, message: `Unknown event ${event}` };
+    }
+    if (event === 'signal') {
+        return validateRelayedSignal(args[0]);
+    }
+    const check = CLIENT_EVENTS[event];
+    if (check === ACK) {
+        return typeof args[0] === 'function'
+            ? null
+            : { code: ErrorCode.INVALID_PAYLOAD, message: `${event} expects an acknowledgement callback` };
+    }
+    if (check && !check(args[0])) {
+        return { code: ErrorCode.INVALID_PAYLOAD, message: `Malformed payload for ${event}` };
+    }
+    return null;
+};
+
+// ============================================
+// SERVER -> CLIENT EVENTS
+// ============================================
+
+const relayed = (fields) => shape({ ...fields, from: string });
+
+const SERVER_EVENTS = {
+    'signal': (signal) => validateSignal(signal) === null,
+    'session-requests-update': arrayOf(sessionRequest),
+    'join-room': shape({ roomId: string, technicianName: optional(string) }),
+    'room-info': shape({ users: arrayOf(roomParticipant), messages: optional(arrayOf(chatMessage)), sync: optional(object) }),
+    'request-error': shape({ event: string, code: string, message: string }),
+    'webrtc-offer': relayed({ offer: sessionDescription }),
+    'webrtc-answer': relayed({ answer: sessionDescription }),
+    'webrtc-ice-candidate': relayed({ candidate: iceCandidate }),
+    'webrtc-video-offer': relayed({ offer: sessionDescription, senderRole: role }),
+    'webrtc-video-answer': relayed({ answer: sessionDescription, senderRole: role }),
+    'webrtc-video-ice-candidate': relayed({ candidate: iceCandidate, senderRole: role }),
+};
+
+/**
+ * Validates a server event payload on the client. Returns an error message, or null when valid.
+ */
+export const validateServerEvent = (event, payload) => {
+    const check = SERVER_EVENTS[event];
+    if (!check) return `Unknown server event ${event}`;
+    if (!check(payload)) return `Malformed payload for ${event}`;
+    return null;
+};
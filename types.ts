@@ -1,7 +1,11 @@
+import type { ExamType, PatientSex, Priority, SessionRole } from './shared/protocol';
+
 export enum UserRole {
   TECH = 'TECH',
   RADIOLOGIST = 'RADIOLOGIST',
   MEDICAL_ADMIN = 'MEDICAL_ADMIN',
+  // Residents and trainees watching sessions read-only
+  OBSERVER = 'OBSERVER',
 }
 
 export interface ChatMessage {
@@ -20,12 +24,24 @@ export interface SessionState {
   isLive: boolean;
 }
 
+export type AnnotationShape = 'arrow' | 'text' | 'freehand' | 'rectangle' | 'ellipse';
+
+// A vector annotation drawn over a frame of a series or over the technician's live video
 export interface Annotation {
   id: string;
-  x: number;
-  y: number;
-  color: string;
+  shape: AnnotationShape;
+  layer: 'image' | 'video';
+  // Frame annotated, for the image layer
+  seriesInstanceUid?: string;
+  frame?: number;
+  // Image pixels on the image layer, fractions of the video frame (0-1) on the video layer.
+  // 2 for arrows (tail, head), rectangles and ellipses (bounding box), 1 for text, the stroke for freehand
+  points: { x: number; y: number }[];
   text?: string;
+  // The author's color
+  color: string;
+  authorId: string;
+  authorName: string;
 }
 
 // User info with availability status
@@ -35,6 +51,36 @@ export interface User {
   role: UserRole;
   isAvailable: boolean;
   socketId?: string;
+  // Radiologists only: exam types they read (see EXAM_TYPES) and duty hours in server time
+  subspecialties?: ExamType[];
+  shift?: { start: string; end: string } | null;
+}
+
+// Patient and order details entered by the technician with the request.
+// The exam type itself stays on the request because routing depends on it.
+export interface ExamContext {
+  patientId: string;
+  patientName: string;
+  dateOfBirth?: string; // YYYY-MM-DD
+  sex?: PatientSex;
+  indication?: string;
+  referringPhysician?: string;
+  // Requested procedure, for requests started from the worklist
+  procedureDescription?: string;
+  // From the order when the technician has one, otherwise assigned by the server
+  accessionNumber: string;
+}
+
+// Exam scheduled on the modality worklist (one scheduled procedure step)
+export interface WorklistEntry extends ExamContext {
+  id: string;
+  examType: ExamType;
+  priority?: Priority;
+  scheduledAt: number;
+  station?: string;
+  status: 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED';
+  // Session request the exam is being performed in
+  requestId?: string;
 }
 
 // Session request from technician to medical admin
@@ -42,12 +88,60 @@ export interface SessionRequest {
   id: string;
   technicianId: string;
   technicianName: string;
-  status: 'PENDING' | 'ASSIGNED' | 'ACTIVE' | 'REJECTED';
+  status: 'PENDING' | 'ASSIGNED' | 'ACTIVE' | 'SUSPENDED' | 'REJECTED';
   assignedRadiologistId?: string;
   assignedRadiologistName?: string;
   roomId?: string;
+  examType?: ExamType;
+  priority?: Priority;
+  examContext?: ExamContext;
+  // Set when the request was started from the worklist
+  worklistEntryId?: string;
+  // Free-text notes from the technician, editable until the session starts
+  notes?: string;
   createdAt: number;
+  // When the request should have a radiologist in the room, and when it missed that
+  slaDueAt?: number;
+  slaBreachedAt?: number;
   rejectionComment?: string;
+  // Who sent the current invite: an admin, or auto-dispatch (with the reason it picked the radiologist)
+  assignedBy?: 'ADMIN' | 'AUTO';
+  dispatchReason?: string;
+  // Radiologists who declined this request; auto-dispatch skips them
+  declinedBy?: string[];
+  // Everyone who has joined the session, with what they do in it
+  participants?: SessionParticipant[];
+  // Set while SUSPENDED: the status to restore and when the grace period runs out
+  resumeStatus?: 'ASSIGNED' | 'ACTIVE';
+  suspendedAt?: number;
+  graceExpiresAt?: number;
+}
+
+export const EXAM_TYPE_LABELS: Record<ExamType, string> = {
+  GENERAL: 'General',
+  CARDIAC: 'Cardiac',
+  OB: 'Obstetric',
+  VASCULAR: 'Vascular',
+};
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  STAT: 'STAT',
+  URGENT: 'Urgent',
+  ROUTINE: 'Routine',
+};
+
+export const PATIENT_SEX_LABELS: Record<PatientSex, string> = {
+  F: 'Female',
+  M: 'Male',
+  O: 'Other',
+  U: 'Unknown',
+};
+
+// Accepted member of a session (technician, reading radiologist, consultants, observers)
+export interface SessionParticipant {
+  userId: string;
+  name: string;
+  sessionRole: SessionRole;
 }
 
 // Room assignment request from medical admin to radiologist
@@ -57,14 +151,42 @@ export interface RoomAssignment {
   technicianId: string;
   technicianName: string;
   radiologistId: string;
-  status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'CANCELLED' | 'EXPIRED';
+  // Copied from the request for reading invites, and kept up to date while the invite is pending
+  examType?: ExamType;
+  examContext?: ExamContext;
+  notes?: string;
   rejectionComment?: string;
+  // Unanswered invites expire at this time and the request goes back to the queue
+  expiresAt?: number;
+  expiredAt?: number;
+  // CONSULTANT or OBSERVER for invites to a session that already has its reading radiologist
+  sessionRole?: SessionRole;
+}
+
+// A DICOM instance uploaded to a session; multi-frame instances hold a whole cine loop
+export interface DicomInstance {
+  sopInstanceUid: string;
+  instanceNumber?: number;
+  numberOfFrames: number;
+  // Where the file is served from when it is not in the session's archive (bundled sample series)
+  url?: string;
+}
+
+// Uploaded instances of one series, as listed by GET /api/rooms/:roomId/series
+export interface DicomSeries {
+  studyInstanceUid: string;
+  seriesInstanceUid: string;
+  modality?: string;
+  studyDescription?: string;
+  seriesDescription?: string;
+  instances: DicomInstance[];
 }
 
 // Notification for medical admin
 export interface AdminNotification {
   id: string;
-  type: 'RADIOLOGIST_REJECTED' | 'SESSION_REQUEST' | 'RADIOLOGIST_JOINED' | 'SESSION_ENDED';
+  type: 'RADIOLOGIST_REJECTED' | 'SESSION_REQUEST' | 'RADIOLOGIST_JOINED' | 'SESSION_ENDED' | 'SESSION_SUSPENDED' | 'SLA_BREACH' | 'INVITE_EXPIRED';
   message: string;
   radiologistId?: string;
   radiologistName?: string;
@@ -74,21 +196,5 @@ export interface AdminNotification {
   read: boolean;
 }
 
-// Events sent via BroadcastChannel to simulate WebRTC/Socket.io
-export type SignalingEvent = 
-  | { type: 'JOIN'; payload: { role: UserRole; roomId: string; userId?: string; userName?: string } }
-  | { type: 'SYNC_STATE'; payload: Partial<SessionState> }
-  | { type: 'CHAT'; payload: ChatMessage }
-  | { type: 'ANNOTATION'; payload: Annotation }
-  | { type: 'REQUEST_REPORT'; payload: null }
-  | { type: 'REPORT_READY'; payload: string }
-  // Session management events
-  | { type: 'SESSION_REQUEST'; payload: SessionRequest }
-  | { type: 'SESSION_ASSIGNED'; payload: SessionRequest }
-  | { type: 'ROOM_INVITE'; payload: RoomAssignment }
-  | { type: 'ROOM_ACCEPTED'; payload: { assignmentId: string; radiologistId: string } }
-  | { type: 'ROOM_REJECTED'; payload: { assignmentId: string; radiologistId: string; radiologistName: string; comment: string } }
-  | { type: 'AVAILABILITY_UPDATE'; payload: { userId: string; isAvailable: boolean } }
-  | { type: 'USER_LIST_UPDATE'; payload: { technicians: User[]; radiologists: User[] } }
-  | { type: 'SESSION_ENDED'; payload: { requestId: string; reason: string } }
-  | { type: 'LEAVE'; payload: { role: UserRole } };
+// Wire protocol types (signals, socket event maps) live in the shared protocol module
+export type { SignalingEvent, RequestError, RoomInfo, ScannerControl, StudySync, CineState, StudyViewport, Measurement, MeasurementKind, MeasurementValue, RoomParticipant, SessionRole, ExamType, ExamContextInput, PatientSex, Priority, IceConfig, ServerToClientEvents, ClientToServerEvents } from './shared/protocol';
@@ -0,0 +1,41 @@
+import { Annotation } from '../types';
+import { Point } from './measurements';
+
+// What the annotation layers draw; the session adds the id, author and color
+export type AnnotationDraft = Pick<Annotation, 'shape' | 'layer' | 'seriesInstanceUid' | 'frame' | 'points' | 'text'>;
+
+// Author colors, picked from the user id so that everyone in the room sees the same ones
+const AUTHOR_COLORS = ['#f87171', '#34d399', '#60a5fa', '#fbbf24', '#c084fc', '#f472b6', '#2dd4bf', '#fb923c'];
+
+export const getAuthorColor = (userId: string) => {
+    let hash = 0;
+    for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    return AUTHOR_COLORS[hash % AUTHOR_COLORS.length];
+};
+
+// Authors of the annotations, in the order they first drew
+export const getAnnotationAuthors = (annotations: Annotation[]) => {
+    const authors = new Map<string, { id: string; name: string; color: string }>();
+    for (const a of annotations) {
+        if (!authors.has(a.authorId)) authors.set(a.authorId, { id: a.authorId, name: a.authorName, color: a.color });
+    }
+    return Array.from(authors.values());
+};
+
+// Element pixel to video frame fraction and back, for an `object-cover` video element
+export const getVideoMapping = (video: HTMLVideoElement) => {
+    const rect = video.getBoundingClientRect();
+    const width = video.videoWidth || rect.width;
+    const height = video.videoHeight || rect.height;
+    // The frame is scaled to cover the element, and centered
+    const scale = Math.max(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+        toScreen: (p: Point): Point => ({ x: offsetX + p.x * width * scale, y: offsetY + p.y * height * scale }),
+        fromClient: (clientX: number, clientY: number): Point => ({
+            x: (clientX - rect.left - offsetX) / (width * scale),
+            y: (clientY - rect.top - offsetY) / (height * scale),
+        }),
+    };
+};
@@ -0,0 +1,223 @@
+import { Measurement, MeasurementKind, MeasurementValue } from '../types';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// What the viewer measures; the dashboard adds the id, author and series
+export type MeasurementDraft = Pick<Measurement, 'kind' | 'label' | 'frame' | 'points' | 'values'>;
+
+// Labels offered for each tool; any other label can be typed
+export const MEASUREMENT_LABELS: Record<MeasurementKind, string[]> = {
+    length: ['LVIDd', 'LVIDs', 'IVSd', 'LVPWd', 'Ao Root', 'LA', 'LVOT', 'TAPSE'],
+    ellipse: ['LV area', 'LA area', 'Mass'],
+    trace: ['LA area', 'RA area', 'LV area (d)', 'LV area (s)'],
+    angle: ['Angle'],
+    velocity: ['MV E', 'MV A', 'AV Vmax', 'LVOT Vmax', 'TR Vmax'],
+};
+
+// Points each tool needs before the measurement is complete (trace: any outline of 3 or more)
+export const MEASUREMENT_POINTS: Record<MeasurementKind, number> = {
+    length: 2,
+    ellipse: 2,
+    trace: 3,
+    angle: 3,
+    velocity: 1,
+};
+
+// ============================================
+// CALIBRATION
+// ============================================
+
+// Physical units of ultrasound regions (PS3.3 C.8.5.5.1.15)
+const UNITS_CM = 3;
+const UNITS_CM_PER_SECOND = 7;
+
+export interface UltrasoundRegion {
+    minX0: number;
+    minY0: number;
+    maxX1: number;
+    maxY1: number;
+    unitsX: number;
+    unitsY: number;
+    deltaX: number;
+    deltaY: number;
+    // Baseline of spectral Doppler regions, relative to the region's top left corner
+    referencePixelY0?: number;
+    referenceValueY?: number;
+}
+
+// How image pixels map to physical sizes
+export interface Calibration {
+    // Millimetres between rows and between columns (PixelSpacing)
+    pixelSpacing?: { row: number; column: number };
+    // SequenceOfUltrasoundRegions
+    regions: UltrasoundRegion[];
+}
+
+const REGION_TAGS: Record<keyof UltrasoundRegion, string> = {
+    minX0: '00186018',
+    minY0: '0018601A',
+    maxX1: '0018601C',
+    maxY1: '0018601E',
+    referencePixelY0: '00186022',
+    unitsX: '00186024',
+    unitsY: '00186026',
+    referenceValueY: '0018602A',
+    deltaX: '0018602C',
+    deltaY: '0018602E',
+};
+const REGION_VRS: Record<string, 'US' | 'UL' | 'SL' | 'FD'> = {
+    '00186018': 'UL', '0018601A': 'UL', '0018601C': 'UL', '0018601E': 'UL',
+    '00186022': 'SL', '00186024': 'US', '00186026': 'US',
+    '0018602A': 'FD', '0018602C': 'FD', '0018602E': 'FD',
+};
+
+const readRegion = (read: (tag: string) => number | undefined): UltrasoundRegion => {
+    const region = {} as UltrasoundRegion;
+    for (const [field, tag] of Object.entries(REGION_TAGS)) {
+        const value = read(tag);
+        if (value !== undefined) region[field] = value;
+    }
+    return region;
+};
+
+const toPixelSpacing = (values: number[]) =>
+    values.length === 2 && values.every(v => v > 0) ? { row: values[0], column: values[1] } : undefined;
+
+/** Calibration of an image parsed by dicomParser (wadouri images keep their dataset). */
+export const readCalibrationFromDataSet = (dataSet: any): Calibration => {
+    const readers = {
+        US: (d: any, tag: string) => d.uint16(tag),
+        UL: (d: any, tag: string) => d.uint32(tag),
+        SL: (d: any, tag: string) => d.int32(tag),
+        FD: (d: any, tag: string) => d.double(tag),
+    };
+    const items = dataSet.elements.x00186011?.items || [];
+    return {
+        pixelSpacing: toPixelSpacing([dataSet.floatString('x00280030', 0), dataSet.floatString('x00280030', 1)].filter(v => v !== undefined)),
+        regions: items.map((item: any) => readRegion(tag =>
+            item.dataSet.elements[`x${tag.toLowerCase()}`] ? readers[REGION_VRS[tag]](item.dataSet, `x${tag.toLowerCase()}`) : undefined)),
+    };
+};
+
+/** Calibration of an image from its DICOM JSON metadata (wadors images). */
+export const readCalibrationFromJson = (metadata: any): Calibration => ({
+    pixelSpacing: toPixelSpacing((metadata?.['00280030']?.Value || []).map(Number)),
+    regions: (metadata?.['00186011']?.Value || []).map((item: any) => readRegion(tag => item[tag]?.Value?.[0])),
+});
+
+const inRegion = (region: UltrasoundRegion, p: Point) =>
+    p.x >= region.minX0 && p.x <= region.maxX1 && p.y >= region.minY0 && p.y <= region.maxY1;
+
+// Centimetres per pixel along x and y where all the points lie: their ultrasound region, else PixelSpacing; null when uncalibrated
+const getScale = (calibration: Calibration, points: Point[]): Point | null => {
+    const region = calibration.regions.find(r => r.unitsX === UNITS_CM && r.unitsY === UNITS_CM && points.every(p => inRegion(r, p)));
+    if (region) return { x: Math.abs(region.deltaX), y: Math.abs(region.deltaY) };
+    if (calibration.pixelSpacing) return { x: calibration.pixelSpacing.column / 10, y: calibration.pixelSpacing.row / 10 };
+    return null;
+};
+
+// ============================================
+// MEASUREMENTS
+// ============================================
+
+// Outline of the ellipse inscribed in the box between two points, for drawing
+export const ellipseOutline = (a: Point, b: Point): Point[] => {
+    const cx = (a.x + b.x) / 2;
+    const cy = (a.y + b.y) / 2;
+    return Array.from({ length: 48 }, (_, i) => {
+        const t = (i / 48) * 2 * Math.PI;
+        return { x: cx + Math.cos(t) * (b.x - a.x) / 2, y: cy + Math.sin(t) * (b.y - a.y) / 2 };
+    });
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Perimeter and area (shoelace) of a closed outline
+const outline = (points: Point[]) => {
+    let perimeter = 0;
+    let area = 0;
+    points.forEach((p, i) => {
+        const next = points[(i + 1) % points.length];
+        perimeter += distance(p, next);
+        area += p.x * next.y - next.x * p.y;
+    });
+    return { perimeter, area: Math.abs(area) / 2 };
+};
+
+/**
+ * Values of a measurement from its points in image pixels, in centimetres when
+ * the image is calibrated and in pixels otherwise. Null when the points cannot
+ * be measured, i.e. a velocity outside a spectral Doppler region.
+ */
+export const measure = (kind: MeasurementKind, points: Point[], calibration: Calibration): MeasurementValue[] | null => {
+    if (kind === 'velocity') {
+        const [p] = points;
+        const region = calibration.regions.find(r => r.unitsY === UNITS_CM_PER_SECOND && r.referencePixelY0 !== undefined && inRegion(r, p));
+        if (!region) return null;
+        const velocity = ((region.referenceValueY ?? 0) + (p.y - region.minY0 - region.referencePixelY0) * region.deltaY) / 100;
+        // Simplified Bernoulli equation
+        return [
+            { name: 'Velocity', value: Math.abs(velocity), unit: 'm/s' },
+            { name: 'Gradient', value: 4 * velocity * velocity, unit: 'mmHg' },
+        ];
+    }
+
+    const scale = getScale(calibration, points);
+    const unit = scale ? 'cm' : 'px';
+    // Physical coordinates, so that non-square pixels measure right
+    const [a, b, c] = points.map(p => scale ? { x: p.x * scale.x, y: p.y * scale.y } : p);
+
+    switch (kind) {
+        case 'length':
+            return [{ name: 'Length', value: distance(a, b), unit }];
+        case 'ellipse': {
+            const rx = Math.abs(b.x - a.x) / 2;
+            const ry = Math.abs(b.y - a.y) / 2;
+            // Ramanujan's approximation of the circumference
+            const circumference = Math.PI * (3 * (rx + ry) - Math.sqrt((3 * rx + ry) * (rx + 3 * ry)));
+            return [
+                { name: 'Area', value: Math.PI * rx * ry, unit: `${unit}²` },
+                { name: 'Circumference', value: circumference, unit },
+            ];
+        }
+        case 'trace': {
+            const { perimeter, area } = outline(points.map(p => scale ? { x: p.x * scale.x, y: p.y * scale.y } : p));
+            return [
+                { name: 'Area', value: area, unit: `${unit}²` },
+                { name: 'Perimeter', value: perimeter, unit },
+            ];
+        }
+        case 'angle': {
+            // Angle at the vertex b between the arms to a and c
+            const angle = Math.abs(Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x)) * 180 / Math.PI;
+            return [{ name: 'Angle', value: angle > 180 ? 360 - angle : angle, unit: '°' }];
+        }
+    }
+};
+
+const DECIMALS: Record<string, number> = { 'cm': 2, 'cm²': 2, 'm/s': 2, 'mmHg': 1, '°': 0, 'px': 0, 'px²': 0 };
+
+export const formatValue = ({ value, unit }: MeasurementValue) =>
+    `${value.toFixed(DECIMALS[unit] ?? 2)}${unit === '°' ? '' : ' '}${unit}`;
+
+// "12.31 cm² (Circumference 13.10 cm)"
+export const formatValues = ([primary, ...others]: MeasurementValue[]) => {
+    const details = others.map(v => `${v.name} ${formatValue(v)}`).join(', ');
+    return `${formatValue(primary)}${details ? ` (${details})` : ''}`;
+};
+
+// "LV area: 12.31 cm² (Circumference 13.10 cm)"
+export const formatMeasurement = ({ label, values }: Measurement) => `${label}: ${formatValues(values)}`;
+
+// Measurements section of a report, one bullet per measurement
+export const formatMeasurementsForReport = (measurements: Measurement[]) =>
+    measurements.map(m => `• ${formatMeasurement(m)}`).join('\n');
+
+// List after a MEASUREMENT_SAVED: relabelled measurements keep their place, new ones go last
+export const saveMeasurement = (measurements: Measurement[], saved: Measurement) =>
+    measurements.some(m => m.id === saved.id)
+        ? measurements.map(m => m.id === saved.id ? saved : m)
+        : [...measurements, saved];
@@ -1,9 +1,12 @@
 import { jsPDF } from 'jspdf';
+import { ExamContext, PATIENT_SEX_LABELS } from '../types';
 
 export interface ReportData {
     title: string;
     date: string;
     accessionNumber: string;
+    // Patient and order details of the session, printed under the title
+    examContext?: ExamContext;
     findings: string;
     measurements: string;
     conclusion: string;
@@ -51,7 +54,29 @@ export async function generateReportPDF(report: ReportData): Promise<Blob> {
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
     doc.text(`Date: ${report.date}  |  Acc: ${report.accessionNumber}`, pageWidth / 2, y, { align: 'center' });
-    y += 15;
+    y += 6;
+
+    // Patient block
+    const context = report.examContext;
+    if (context) {
+        const patientLine = [
+            `Patient: ${context.patientName} (${context.patientId})`,
+            context.dateOfBirth && `DOB: ${context.dateOfBirth}`,
+            context.sex && `Sex: ${PATIENT_SEX_LABELS[context.sex]}`
+        ].filter(Boolean).join('  |  ');
+        doc.text(patientLine, pageWidth / 2, y, { align: 'center' });
+        y += 6;
+        if (context.referringPhysician) {
+            doc.text(`Referring physician: ${context.referringPhysician}`, pageWidth / 2, y, { align: 'center' });
+            y += 6;
+        }
+        if (context.indication) {
+            const indicationLines = doc.splitTextToSize(`Indication: ${context.indication}`, pageWidth - 40);
+            doc.text(indicationLines, pageWidth / 2, y, { align: 'center' });
+            y += indicationLines.length * 5 + 1;
+        }
+    }
+    y += 9;
 
     // Screenshot if available
     if (report.screenshotDataUrl) {
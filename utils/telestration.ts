@@ -0,0 +1,44 @@
+import { Point } from './measurements';
+
+// Where a laser mark is: the technician's video (fractions of its frame) or a frame of a series (image pixels)
+export interface TelestrationSurface {
+    layer: 'image' | 'video';
+    seriesInstanceUid?: string;
+    frame?: number;
+}
+
+// What the radiologist's pointer does, before the surface is added
+export type TelestrationInput =
+    // The laser dot moved
+    | { kind: 'pointer'; x: number; y: number }
+    // Next point of a stroke being drawn
+    | { kind: 'stroke'; strokeId: string; x: number; y: number }
+    // The pointer left the surface
+    | { kind: 'pointer-out' };
+
+// Messages on the calls' data channel
+export type TelestrationMessage = TelestrationInput & { surface?: TelestrationSurface };
+
+// Marks fade out over this long after their last move
+export const TELESTRATION_FADE_MS = 1500;
+
+// Peers are trusted no more than the signaling server trusts clients
+export const isTelestrationMessage = (data: any): data is TelestrationMessage => {
+    if (!data || typeof data !== 'object') return false;
+    if (data.kind === 'pointer-out') return true;
+    const isPoint = Number.isFinite(data.x) && Number.isFinite(data.y);
+    const hasSurface = data.surface && (data.surface.layer === 'image' || data.surface.layer === 'video');
+    if (data.kind === 'pointer') return isPoint && hasSurface;
+    if (data.kind === 'stroke') return isPoint && hasSurface && typeof data.strokeId === 'string';
+    return false;
+};
+
+// A laser dot or stroke on screen
+export interface TelestrationMark {
+    id: string;
+    surface: TelestrationSurface;
+    // One point for the laser dot
+    points: Point[];
+    isPointer: boolean;
+    updatedAt: number;
+}
@@ -0,0 +1,383 @@
+import { ExamType } from '../types';
+
+export type ProbeGeometry = 'linear' | 'curvilinear' | 'phased';
+
+export interface Probe {
+    geometry: ProbeGeometry;
+    // Centre frequency, MHz: higher frequencies resolve finer detail but attenuate faster
+    frequency: number;
+    // Footprint width in cm (linear), or field of view in degrees (curvilinear, phased)
+    aperture: number;
+    // Radius of the curved face, cm (curvilinear only)
+    radius?: number;
+}
+
+// Part of a phantom, in cm: x across the probe face from its centre, z down from the skin
+export interface PhantomStructure {
+    shape: 'ellipse' | 'layer';
+    x: number;
+    z: number;
+    // Half-width and half-height; layers span the whole field, from z to z + rz under the probe face
+    rx: number;
+    rz: number;
+    // Echogenicity relative to the background (1); 0 is anechoic fluid
+    echo: number;
+    // Echogenicity of a bright specular wall, e.g. vessel walls and capsules
+    wall?: number;
+    // What the structure does to echoes behind it: stones and bone shadow, fluid enhances
+    behind?: 'shadow' | 'enhancement';
+    // Periodic change of size, e.g. a beating ventricle: relative amplitude and period in ms
+    pulse?: { amplitude: number; period: number };
+}
+
+export interface SimulatorPreset {
+    label: string;
+    probe: Probe;
+    // Later structures are drawn over earlier ones
+    phantom: PhantomStructure[];
+    // Focal depth the preset starts with, cm
+    focus: number;
+}
+
+// One preset per exam type, so the simulator starts with the anatomy the session is about
+export const SIMULATOR_PRESETS: Record<ExamType, SimulatorPreset> = {
+    GENERAL: {
+        label: 'Abdomen · curvilinear 3.5 MHz',
+        probe: { geometry: 'curvilinear', frequency: 3.5, aperture: 70, radius: 5 },
+        focus: 8,
+        phantom: [
+            { shape: 'layer', x: 0, z: 0, rx: 0, rz: 0.2, echo: 2 },
+            { shape: 'layer', x: 0, z: 0.2, rx: 0, rz: 1.2, echo: 0.45 },
+            { shape: 'layer', x: 0, z: 1.4, rx: 0, rz: 0.8, echo: 0.8 },
+            // Gallbladder with a shadowing stone
+            { shape: 'ellipse', x: -2, z: 6, rx: 1.6, rz: 0.9, echo: 0, wall: 2.5, behind: 'enhancement' },
+            { shape: 'ellipse', x: -1.7, z: 6.6, rx: 0.3, rz: 0.25, echo: 6, behind: 'shadow' },
+            { shape: 'ellipse', x: 1.5, z: 8, rx: 0.7, rz: 0.45, echo: 0, wall: 3 },
+            // Right kidney and its sinus
+            { shape: 'ellipse', x: 3, z: 11, rx: 2.6, rz: 1.4, echo: 0.6, wall: 2 },
+            { shape: 'ellipse', x: 3, z: 11, rx: 1.3, rz: 0.5, echo: 2.2 },
+            { shape: 'layer', x: 0, z: 14, rx: 0, rz: 0.3, echo: 5 },
+        ],
+    },
+    CARDIAC: {
+        label: 'Cardiac · phased array 2.5 MHz',
+        probe: { geometry: 'phased', frequency: 2.5, aperture: 90 },
+        focus: 9,
+        phantom: [
+            { shape: 'layer', x: 0, z: 0, rx: 0, rz: 1.5, echo: 1.4 },
+            // Lung around the heart
+            { shape: 'layer', x: 0, z: 1.5, rx: 0, rz: 30, echo: 0.3 },
+            { shape: 'ellipse', x: 0, z: 8, rx: 4.2, rz: 5.5, echo: 1.3, wall: 3, pulse: { amplitude: 0.03, period: 900 } },
+            { shape: 'ellipse', x: 1.2, z: 8.5, rx: 1.8, rz: 3.2, echo: 0.02, pulse: { amplitude: -0.18, period: 900 } },
+            { shape: 'ellipse', x: -1.9, z: 7, rx: 1.2, rz: 2.6, echo: 0.02, pulse: { amplitude: -0.15, period: 900 } },
+            // The atrium fills while the ventricles contract
+            { shape: 'ellipse', x: 0.8, z: 12.4, rx: 1.5, rz: 0.9, echo: 0.02, pulse: { amplitude: 0.1, period: 900 } },
+            { shape: 'ellipse', x: 2.5, z: 15, rx: 0.8, rz: 0.8, echo: 0.02, wall: 2.5, behind: 'enhancement' },
+        ],
+    },
+    OB: {
+        label: 'Obstetric · curvilinear 3.5 MHz',
+        probe: { geometry: 'curvilinear', frequency: 3.5, aperture: 70, radius: 5 },
+        focus: 7,
+        phantom: [
+            { shape: 'layer', x: 0, z: 0, rx: 0, rz: 0.2, echo: 2 },
+            { shape: 'layer', x: 0, z: 0.2, rx: 0, rz: 1.5, echo: 0.5 },
+            { shape: 'ellipse', x: 0, z: 7, rx: 5.5, rz: 3.8, echo: 1.1, wall: 1.6 },
+            { shape: 'ellipse', x: 0, z: 7.3, rx: 4, rz: 2.7, echo: 0.02, behind: 'enhancement' },
+            { shape: 'ellipse', x: 0, z: 4.4, rx: 3.5, rz: 0.6, echo: 1.5 },
+            // Fetal head with its skull, and the body with a beating heart
+            { shape: 'ellipse', x: -1.3, z: 7.4, rx: 1.6, rz: 1.3, echo: 0.5, wall: 5, behind: 'shadow' },
+            { shape: 'ellipse', x: 1.7, z: 7.9, rx: 1.5, rz: 1, echo: 0.8, wall: 1.6 },
+            { shape: 'ellipse', x: 1.5, z: 7.7, rx: 0.4, rz: 0.35, echo: 0.05, pulse: { amplitude: -0.25, period: 430 } },
+        ],
+    },
+    VASCULAR: {
+        label: 'Carotid · linear 7.5 MHz',
+        probe: { geometry: 'linear', frequency: 7.5, aperture: 4 },
+        focus: 2,
+        phantom: [
+            { shape: 'layer', x: 0, z: 0, rx: 0, rz: 0.15, echo: 2 },
+            { shape: 'layer', x: 0, z: 0.15, rx: 0, rz: 0.45, echo: 0.55 },
+            { shape: 'ellipse', x: -0.5, z: 1, rx: 2.5, rz: 0.4, echo: 0.7, wall: 1.5 },
+            { shape: 'ellipse', x: -0.9, z: 1.7, rx: 0.7, rz: 0.4, echo: 0.02, wall: 1.5, behind: 'enhancement', pulse: { amplitude: 0.1, period: 900 } },
+            { shape: 'ellipse', x: 0.6, z: 2.1, rx: 0.35, rz: 0.35, echo: 0.02, wall: 3, behind: 'enhancement', pulse: { amplitude: 0.06, period: 900 } },
+            // Transverse process of a vertebra
+            { shape: 'ellipse', x: 0, z: 3.6, rx: 1.5, rz: 0.15, echo: 6, behind: 'shadow' },
+        ],
+    },
+};
+
+// Time-gain compensation bands, shallowest first, in dB
+export const TGC_BANDS = 8;
+export const TGC_RANGE_DB = 20;
+
+// Settings of the simulator other than the shared gain and depth
+export interface SimulatorSettings {
+    preset: ExamType;
+    focus: number;
+    tgc: number[];
+}
+
+export const getDefaultSettings = (preset: ExamType): SimulatorSettings => ({
+    preset,
+    focus: SIMULATOR_PRESETS[preset].focus,
+    tgc: new Array(TGC_BANDS).fill(0),
+});
+
+// Round-trip attenuation of soft tissue, and how much of it the scanner compensates on its own, in dB/cm/MHz
+const TISSUE_ATTENUATION = 0.5;
+const BUILT_IN_COMPENSATION = 0.35;
+
+// Displayed echo range, and where the background sits in it at 0 dB
+const DYNAMIC_RANGE_DB = 60;
+const DISPLAY_OFFSET_DB = 40;
+
+// Dark band behind shadowing structures, bright band behind fluid
+const SHADOW_DB = -30;
+const ENHANCEMENT_DB = 6;
+
+// Relative thickness of specular walls
+const WALL_THICKNESS = 0.08;
+
+// Beam width at the focus, cm times MHz, and depth over which the beam stays focused, cm
+const FOCAL_WIDTH = 0.6;
+const DEPTH_OF_FIELD = 2;
+
+// Size of a speckle grain along the beam, cm times MHz
+const AXIAL_GRAIN = 0.25;
+
+// Shared gain slider (0-100) to dB, 50 being neutral
+export const gainToDb = (gain: number) => (gain - 50) * 0.6;
+
+// ----------------------------------------
+// SPECKLE
+// ----------------------------------------
+
+const SPECKLE_SIZE = 256;
+
+// Deterministic generator, so the speckle pattern is the same on every screen and reload
+const mulberry32 = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Rayleigh-distributed amplitudes with a mean of 1, fixed to the tissue so speckle persists between frames
+const SPECKLE = (() => {
+    const random = mulberry32(1729);
+    const field = new Float32Array(SPECKLE_SIZE * SPECKLE_SIZE);
+    for (let i = 0; i < field.length; i++) {
+        field[i] = Math.sqrt(-2 * Math.log(1 - random())) / Math.sqrt(Math.PI / 2);
+    }
+    return field;
+})();
+
+const wrap = (v: number) => ((v % SPECKLE_SIZE) + SPECKLE_SIZE) % SPECKLE_SIZE;
+
+// Speckle at grain coordinates, interpolated between grains
+const sampleSpeckle = (u: number, v: number) => {
+    const u0 = Math.floor(u);
+    const v0 = Math.floor(v);
+    const fu = u - u0;
+    const fv = v - v0;
+    const x0 = wrap(u0);
+    const x1 = wrap(u0 + 1);
+    const y0 = wrap(v0) * SPECKLE_SIZE;
+    const y1 = wrap(v0 + 1) * SPECKLE_SIZE;
+    const top = SPECKLE[y0 + x0] * (1 - fu) + SPECKLE[y0 + x1] * fu;
+    const bottom = SPECKLE[y1 + x0] * (1 - fu) + SPECKLE[y1 + x1] * fu;
+    return top * (1 - fv) + bottom * fv;
+};
+
+// ----------------------------------------
+// SCAN GEOMETRY
+// ----------------------------------------
+
+// Where every pixel of the image is in the body, worked out once per probe, depth and focus
+export interface ScanGeometry {
+    width: number;
+    height: number;
+    // Pixels per cm, and the image position of the skin at the centre of the probe
+    scale: number;
+    origin: { x: number; y: number };
+    // Indices of the pixels inside the scanned field
+    pixels: Uint32Array;
+    // Tissue position (cm) and distance along the beam (cm) of each of those pixels
+    x: Float32Array;
+    z: Float32Array;
+    range: Float32Array;
+    // Lateral speckle grain, which grows with the beam away from the focus, cm
+    grain: Float32Array;
+    // Attenuation, focusing, shadowing and enhancement, dB
+    baseDb: Float32Array;
+    // Outline of the field, in image pixels
+    outline: { x: number; y: number }[];
+}
+
+// Virtual point the beams fan out from, as a depth above the skin; linear beams are parallel
+const getApexDepth = (probe: Probe) => probe.geometry === 'curvilinear' ? probe.radius ?? 5 : 0;
+
+// Beam coordinates of a tissue point: lateral position (cm, or radians for sectors) and distance from the apex
+const toBeam = (probe: Probe, x: number, z: number) => {
+    if (probe.geometry === 'linear') return { lateral: x, radius: z };
+    const apexZ = z + getApexDepth(probe);
+    return { lateral: Math.atan2(x, apexZ), radius: Math.hypot(x, apexZ) };
+};
+
+// Tissue point of beam coordinates
+const fromBeam = (probe: Probe, lateral: number, radius: number) => {
+    if (probe.geometry === 'linear') return { x: lateral, z: radius };
+    return { x: radius * Math.sin(lateral), z: radius * Math.cos(lateral) - getApexDepth(probe) };
+};
+
+// Half the field of view: cm for linear probes, radians for sectors
+const getHalfAperture = (probe: Probe) => probe.geometry === 'linear' ? probe.aperture / 2 : (probe.aperture / 2) * Math.PI / 180;
+
+/**
+ * Maps an image of `width` x `height` pixels onto the field a probe scans down
+ * to `depth` cm, and works out what does not change from frame to frame.
+ */
+export const createScanGeometry = (probe: Probe, phantom: PhantomStructure[], depth: number, focus: number, width: number, height: number): ScanGeometry => {
+    const half = getHalfAperture(probe);
+    const apex = getApexDepth(probe);
+
+    // Bounding box of the field in tissue cm
+    const corner = fromBeam(probe, half, apex + depth);
+    const top = probe.geometry === 'linear' ? 0 : fromBeam(probe, half, apex).z;
+    const halfWidth = Math.abs(corner.x);
+    const scale = Math.min(width / (2 * halfWidth), height / (depth - top)) * 0.95;
+    const origin = { x: width / 2, y: -top * scale + (height - (depth - top) * scale) / 2 };
+
+    // Beam footprint of the structures that shadow or enhance what lies behind them
+    const casters = phantom.filter(s => s.behind && s.shape === 'ellipse').map(s => {
+        const centre = toBeam(probe, s.x, s.z);
+        const halfSpread = probe.geometry === 'linear' ? s.rx : Math.atan2(s.rx, centre.radius);
+        return { lateral: centre.lateral, start: centre.radius + s.rz, halfSpread, db: s.behind === 'shadow' ? SHADOW_DB : ENHANCEMENT_DB };
+    });
+
+    const netAttenuation = 2 * (TISSUE_ATTENUATION - BUILT_IN_COMPENSATION) * probe.frequency;
+    const focalWidth = FOCAL_WIDTH / probe.frequency;
+
+    const pixels: number[] = [];
+    const values = { x: [] as number[], z: [] as number[], range: [] as number[], grain: [] as number[], baseDb: [] as number[] };
+    for (let py = 0; py < height; py++) {
+        for (let px = 0; px < width; px++) {
+            const x = (px - origin.x) / scale;
+            const z = (py - origin.y) / scale;
+            const { lateral, radius } = toBeam(probe, x, z);
+            const range = radius - apex;
+            if (Math.abs(lateral) > half || range < 0 || range > depth) continue;
+
+            const beamWidth = focalWidth * Math.sqrt(1 + ((range - focus) / DEPTH_OF_FIELD) ** 2);
+            let db = -netAttenuation * range + 10 * Math.log10(focalWidth / beamWidth);
+            for (const c of casters) {
+                // Edges of the band fade out over the last fifth of the spread
+                const offset = Math.abs(lateral - c.lateral) / c.halfSpread;
+                if (offset < 1 && radius > c.start) db += c.db * Math.min(1, (1 - offset) * 5);
+            }
+
+            pixels.push(py * width + px);
+            values.x.push(x);
+            values.z.push(z);
+            values.range.push(range);
+            values.grain.push(beamWidth / 2);
+            values.baseDb.push(db);
+        }
+    }
+
+    const outline: { x: number; y: number }[] = [];
+    const toImage = (p: { x: number; z: number }) => ({ x: origin.x + p.x * scale, y: origin.y + p.z * scale });
+    const steps = 32;
+    for (let i = 0; i <= steps; i++) outline.push(toImage(fromBeam(probe, -half + (2 * half * i) / steps, apex)));
+    for (let i = steps; i >= 0; i--) outline.push(toImage(fromBeam(probe, -half + (2 * half * i) / steps, apex + depth)));
+
+    return {
+        width,
+        height,
+        scale,
+        origin,
+        pixels: Uint32Array.from(pixels),
+        x: Float32Array.from(values.x),
+        z: Float32Array.from(values.z),
+        range: Float32Array.from(values.range),
+        grain: Float32Array.from(values.grain),
+        baseDb: Float32Array.from(values.baseDb),
+        outline,
+    };
+};
+
+// ----------------------------------------
+// RENDERING
+// ----------------------------------------
+
+// Echogenicity of the phantom at a tissue point, at time `t` (ms). Layers
+// follow the probe face, so they are placed by the distance along the beam.
+const getEcho = (phantom: PhantomStructure[], x: number, z: number, range: number, t: number) => {
+    let echo = 1;
+    for (const s of phantom) {
+        if (s.shape === 'layer') {
+            if (range >= s.z && range < s.z + s.rz) echo = s.echo;
+            continue;
+        }
+        const size = s.pulse ? 1 + s.pulse.amplitude * (0.5 - 0.5 * Math.cos((2 * Math.PI * t) / s.pulse.period)) : 1;
+        const dx = (x - s.x) / (s.rx * size);
+        const dz = (z - s.z) / (s.rz * size);
+        const d = Math.sqrt(dx * dx + dz * dz);
+        if (s.wall && Math.abs(d - 1) < WALL_THICKNESS) echo = s.wall;
+        else if (d < 1) echo = s.echo;
+    }
+    return echo;
+};
+
+// TGC at a share of the depth, interpolated between the bands
+const getTgcDb = (tgc: number[], share: number) => {
+    const position = Math.min(Math.max(share, 0), 1) * (tgc.length - 1);
+    const i = Math.min(Math.floor(position), tgc.length - 2);
+    return tgc[i] + (tgc[i + 1] - tgc[i]) * (position - i);
+};
+
+/**
+ * Renders one B-mode frame of the phantom into `image` (of the geometry's
+ * size) at time `t` in ms. Echoes are log-compressed after gain and TGC.
+ */
+export const renderScan = (image: ImageData, geometry: ScanGeometry, preset: SimulatorPreset, depth: number, gainDb: number, tgc: number[], t: number) => {
+    const { data } = image;
+    const { pixels, x, z, range, grain, baseDb } = geometry;
+    const axialGrain = AXIAL_GRAIN / preset.probe.frequency;
+    // The probe drifts slightly in the hand; speckle and anatomy move with it
+    const drift = 0.03 * Math.sin(t / 700) + 0.02 * Math.sin(t / 1900);
+    // Electronic noise changes every frame, unlike speckle
+    const noiseOffset = Math.floor(t / 33) * 7919;
+
+    data.fill(0);
+    for (let i = 0; i < pixels.length; i++) {
+        const tx = x[i] + drift;
+        const echo = getEcho(preset.phantom, tx, z[i], range[i], t);
+        const speckle = sampleSpeckle(tx / grain[i], z[i] / axialGrain);
+        const noise = 0.02 * SPECKLE[(i + noiseOffset) % SPECKLE.length];
+        const db = 20 * Math.log10(echo * speckle + noise) + baseDb[i] + gainDb + getTgcDb(tgc, range[i] / depth);
+        const value = Math.min(255, Math.max(0, ((db + DISPLAY_OFFSET_DB) / DYNAMIC_RANGE_DB) * 255));
+        const p = pixels[i] * 4;
+        data[p] = value;
+        data[p + 1] = value;
+        data[p + 2] = value;
+    }
+    for (let p = 3; p < data.length; p += 4) data[p] = 255;
+};
+
+/**
+ * Applies gain and TGC to a frame played back from a clip, in place: rows
+ * are scaled by their share of the image height.
+ */
+export const applyGain = (image: ImageData, gainDb: number, tgc: number[]) => {
+    const { data, width, height } = image;
+    for (let y = 0; y < height; y++) {
+        const factor = 10 ** ((gainDb + getTgcDb(tgc, y / height)) / 20);
+        for (let p = y * width * 4, end = p + width * 4; p < end; p += 4) {
+            data[p] = Math.min(255, data[p] * factor);
+            data[p + 1] = Math.min(255, data[p + 1] * factor);
+            data[p + 2] = Math.min(255, data[p + 2] * factor);
+        }
+    }
+};
@@ -0,0 +1,97 @@
+import * as cornerstone from 'cornerstone-core';
+import { StudyViewport } from '../types';
+
+// Mouse-drag tools of the study viewer
+export type ViewportTool = 'window' | 'pan' | 'zoom';
+
+export interface VoiPreset {
+    label: string;
+    windowWidth: number;
+    windowCenter: number;
+}
+
+export const DEFAULT_VIEWPORT: StudyViewport = {
+    voi: null,
+    zoom: 1,
+    translation: { x: 0, y: 0 },
+    invert: false,
+    rotation: 0,
+    hflip: false,
+    vflip: false,
+};
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 20;
+
+// Share of the viewer the image takes up when fitted, leaving a margin
+const FIT_MARGIN = 0.95;
+
+// Scale at which the image, as rotated, fits into the element
+const getFitScale = (element: HTMLElement, image: any, rotation: number): number => {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return 1;
+    const sideways = rotation % 180 !== 0;
+    const width = sideways ? image.height : image.width;
+    const height = sideways ? image.width : image.height;
+    return Math.min(rect.width / width, rect.height / height) * FIT_MARGIN;
+};
+
+/**
+ * Cornerstone viewport showing `image` in `element` as described by the
+ * shared viewport. Zoom is relative to the fitted size, so every viewer
+ * shows the same part of the image whatever its size.
+ */
+export const toCornerstoneViewport = (element: HTMLElement, image: any, state: StudyViewport) => {
+    const viewport = cornerstone.getDefaultViewportForImage(element, image);
+    if (state.voi) viewport.voi = { ...state.voi };
+    viewport.scale = getFitScale(element, image, state.rotation) * state.zoom;
+    viewport.translation = { ...state.translation };
+    // MONOCHROME1 images are shown inverted by default
+    viewport.invert = state.invert !== Boolean(image.invert);
+    viewport.rotation = state.rotation;
+    viewport.hflip = state.hflip;
+    viewport.vflip = state.vflip;
+    return viewport;
+};
+
+// Range of the modality values of an image, the widest useful window
+const getValueRange = (image: any) => ({
+    min: image.minPixelValue * (image.slope ?? 1) + (image.intercept ?? 0),
+    max: image.maxPixelValue * (image.slope ?? 1) + (image.intercept ?? 0),
+});
+
+/**
+ * VOI presets of an image: its DICOM windows (WindowCenter/WindowWidth, named
+ * by WindowCenterWidthExplanation when present), then its full value range.
+ */
+export const getVoiPresets = (image: any, centers: number[], widths: number[], explanations: string[]): VoiPreset[] => {
+    const presets = centers
+        .map((windowCenter, i) => ({ label: explanations[i] || `Window ${i + 1}`, windowWidth: widths[i], windowCenter }))
+        .filter(preset => preset.windowWidth > 0 && Number.isFinite(preset.windowCenter));
+    const { min, max } = getValueRange(image);
+    presets.push({ label: 'Full range', windowWidth: Math.max(max - min, 1), windowCenter: (min + max) / 2 });
+    return presets;
+};
+
+/**
+ * Window after dragging (dx, dy) screen pixels from `start`: right widens the
+ * window, down raises its center. One pixel moves it by 1/256 of the value range.
+ */
+export const dragWindow = (image: any, start: StudyViewport['voi'], dx: number, dy: number): StudyViewport['voi'] => {
+    const { min, max } = getValueRange(image);
+    const step = Math.max(max - min, 1) / 256;
+    return {
+        windowWidth: Math.max(start.windowWidth + dx * step, 1),
+        windowCenter: start.windowCenter + dy * step,
+    };
+};
+
+// Pan after dragging (dx, dy) screen pixels at `scale`; cornerstone pans along the screen axes, whatever the rotation and flips
+export const dragPan = (translation: StudyViewport['translation'], scale: number, dx: number, dy: number): StudyViewport['translation'] => ({
+    x: translation.x + dx / scale,
+    y: translation.y + dy / scale,
+});
+
+// Zoom after dragging dy screen pixels: up zooms in, doubling every 140 pixels
+export const dragZoom = (zoom: number, dy: number): number =>
+    Math.min(Math.max(zoom * Math.pow(2, -dy / 140), MIN_ZOOM), MAX_ZOOM);
@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_SIGNALING_SERVER?: string;
+  readonly VITE_SIGNALING_TRANSPORT?: 'socket' | 'mock';
 }
 
 interface ImportMeta {